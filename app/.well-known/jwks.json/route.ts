@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { getPublicJWKS } from '@/lib/jwks';
+
+// Run on Node.js runtime to support crypto module for key export
+export const runtime = 'nodejs';
+
+export async function GET() {
+  try {
+    const response = NextResponse.json(getPublicJWKS());
+
+    // Verifiers cache the key set; keep it short so rotations propagate quickly
+    response.headers.set('Cache-Control', 'public, max-age=300');
+    response.headers.set('Access-Control-Allow-Origin', '*');
+
+    return response;
+  } catch (error) {
+    console.error('Failed to build JWKS:', error);
+    return NextResponse.json({ error: 'JWKS unavailable' }, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { OIDC_SCOPES, getOIDCIssuer } from '@/lib/oidc';
+
+// Run on Node.js runtime (shares lib/oidc with the token endpoint)
+export const runtime = 'nodejs';
+
+/**
+ * OpenID Connect discovery document
+ */
+export async function GET(request: NextRequest) {
+  const issuer = getOIDCIssuer(request);
+
+  const response = NextResponse.json({
+    issuer,
+    authorization_endpoint: `${issuer}/api/oauth/authorize`,
+    token_endpoint: `${issuer}/api/oauth/token`,
+    userinfo_endpoint: `${issuer}/api/oauth/userinfo`,
+    jwks_uri: `${issuer}/.well-known/jwks.json`,
+    scopes_supported: OIDC_SCOPES,
+    response_types_supported: ['code'],
+    grant_types_supported: ['authorization_code'],
+    subject_types_supported: ['public'],
+    id_token_signing_alg_values_supported: ['ES256', 'RS256'],
+    token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post', 'none'],
+    code_challenge_methods_supported: ['S256'],
+    claims_supported: ['sub', 'iss', 'aud', 'exp', 'iat', 'auth_time', 'nonce', 'name', 'phone_number', 'phone_number_verified'],
+  });
+
+  response.headers.set('Cache-Control', 'public, max-age=3600');
+  response.headers.set('Access-Control-Allow-Origin', '*');
+
+  return response;
+}
@@ -1,11 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSupabaseAdmin } from '@/lib/supabaseAdmin';
 import { validatePhoneNumber, validatePassword } from '@/lib/security';
-import { generateSecureToken } from '@/utils/secureAuth';
 import { comparePassword } from '@/lib/auth-utils';
 import { validateDoubleSubmitCSRF } from '@/lib/csrf-double-submit'; // Double Submit Cookie CSRF protection
-import { checkRateLimit, createRateLimitResponse } from '@/lib/rate-limiting';
+import { checkCompositeRateLimit, getRateLimitSubjects, withRateLimitHeaders } from '@/lib/rate-limiting';
 import { applyAPISecurityHeaders } from '@/lib/security-headers';
+import { getSessionClientInfo } from '@/lib/sessions';
+import { createLoginResponse } from '@/lib/login-session';
+import { getLoginApprovalMode, LOGIN_APPROVAL_TTL_SECONDS, requestLoginApproval } from '@/lib/login-approval';
+import { getLockoutRemainingSeconds, notifyAccountLocked, recordFailedLogin } from '@/lib/account-lockout';
 import { 
   createSecureErrorResponse, 
   handleDatabaseError, 
@@ -17,19 +20,8 @@ import {
   sanitizeUserInput
 } from '@/lib/secure-error-handling-enhanced';
 
-export async function POST(request: NextRequest) {
+export const POST = withRateLimitHeaders(async function POST(request: NextRequest) {
   try {
-    // Rate limiting for authentication attempts
-    const rateLimit = checkRateLimit(request, 'auth');
-    if (!rateLimit.allowed) {
-      return handleRateLimitError(rateLimit.retryAfter || 900, {
-        operation: 'auth-password',
-        ip: request.headers.get('x-forwarded-for') || 'unknown',
-        userAgent: request.headers.get('user-agent') || 'unknown',
-        timestamp: new Date().toISOString()
-      });
-    }
-
     // Double Submit Cookie CSRF protection
     const csrfValid = validateDoubleSubmitCSRF(request);
     if (!csrfValid) {
@@ -62,6 +54,17 @@ export async function POST(request: NextRequest) {
       });
     }
 
+    // Rate limiting for authentication attempts (per IP, per target number and overall)
+    const rateLimit = await checkCompositeRateLimit('login', getRateLimitSubjects(request, { phone: validatedPhone }), request);
+    if (!rateLimit.allowed) {
+      return handleRateLimitError(rateLimit.retryAfter || 900, {
+        operation: 'auth-password',
+        ip: request.headers.get('x-forwarded-for') || 'unknown',
+        userAgent: request.headers.get('user-agent') || 'unknown',
+        timestamp: new Date().toISOString()
+      });
+    }
+
     // Validate password strength
     try {
       validatePassword(sanitizedPassword);
@@ -79,7 +82,7 @@ export async function POST(request: NextRequest) {
     const supabaseAdmin = getSupabaseAdmin();
     const { data: user, error: userError } = await supabaseAdmin
       .from('users')
-      .select('id, name, phone, password_hash, verified')
+      .select('id, name, phone, password_hash, verified, locked_until')
       .eq('phone', validatedPhone)
       .eq('verified', true)
       .single();
@@ -93,10 +96,45 @@ export async function POST(request: NextRequest) {
       });
     }
 
+    // Per-account limit, so guesses spread over many IPs still add up
+    const accountRateLimit = await checkCompositeRateLimit('login', { account: user.id }, request);
+    if (!accountRateLimit.allowed) {
+      return handleRateLimitError(accountRateLimit.retryAfter || 3600, {
+        operation: 'auth-password',
+        userId: user.id,
+        ip: request.headers.get('x-forwarded-for') || 'unknown',
+        userAgent: request.headers.get('user-agent') || 'unknown',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    // Locked accounts don't get their password checked at all
+    // Same response as an unknown number: only the owner learns of the lock (on WhatsApp)
+    if (getLockoutRemainingSeconds(user) > 0) {
+      return handleAuthError(new Error('Account is locked'), 'auth-password', {
+        operation: 'auth-password',
+        userId: user.id,
+        ip: request.headers.get('x-forwarded-for') || 'unknown',
+        userAgent: request.headers.get('user-agent') || 'unknown',
+        timestamp: new Date().toISOString()
+      });
+    }
+
     // Verify password using bcrypt
     const isPasswordValid = await comparePassword(sanitizedPassword, user.password_hash);
     
     if (!isPasswordValid) {
+      const failure = await recordFailedLogin(user.id);
+
+      if (failure.locked && failure.lockedUntil) {
+        // Best effort: the lock holds even if the owner can't be told right now
+        try {
+          await notifyAccountLocked(user.id, user.phone, failure.lockedUntil);
+        } catch (notifyError) {
+          console.error('Failed to send account lockout notice:', sanitizeUserInput(notifyError));
+        }
+      }
+
       return handleAuthError(new Error('Invalid password'), 'auth-password', {
         operation: 'auth-password',
         userId: user.id,
@@ -106,34 +144,34 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    // Generate secure token with cryptographically secure random session ID
-    // CRITICAL: Never use predictable user IDs as tokens
-    const crypto = require('crypto');
-    const sessionId = crypto.randomBytes(64).toString('hex'); // 128-character random string for maximum security
-    
-    // Generate JWT with secure random session ID (no database storage needed)
-    const secureToken = generateSecureToken({
-      code: sessionId, // Use cryptographically secure random session ID
-      name: user.name,
-      whatsappNumber: user.phone,
-      verified: true,
-    });
+    const client = getSessionClientInfo(request.headers);
 
-    const response = NextResponse.json({
-      success: true,
-      message: 'Authentication successful',
-      user: {
-        id: user.id,
-        name: user.name,
-        phone: user.phone
+    // "Was this you?": the session is only issued once the owner approves on WhatsApp
+    if (getLoginApprovalMode() === 'whatsapp') {
+      let approval;
+      try {
+        approval = await requestLoginApproval(user.id, user.phone, client);
+      } catch (approvalError) {
+        return createSecureErrorResponse('WHATSAPP_ERROR', 503, {
+          operation: 'auth-password',
+          userId: user.id,
+          ip: request.headers.get('x-forwarded-for') || 'unknown',
+          userAgent: request.headers.get('user-agent') || 'unknown',
+          timestamp: new Date().toISOString(),
+          originalError: approvalError
+        });
       }
-    });
 
-    // Set secure cookie with shorter expiration for security
-    response.headers.set(
-      'Set-Cookie',
-      `auth_token=${secureToken}; HttpOnly; Secure; Path=/; Max-Age=${60 * 60}; SameSite=Strict`
-    );
+      return applyAPISecurityHeaders(NextResponse.json({
+        success: false,
+        approvalRequired: true,
+        approvalToken: approval.token,
+        expiresIn: LOGIN_APPROVAL_TTL_SECONDS,
+        message: 'Confirm this sign-in on WhatsApp'
+      }, { status: 202 }));
+    }
+
+    const response = await createLoginResponse(user, client);
 
     return applyAPISecurityHeaders(response);
 
@@ -146,4 +184,4 @@ export async function POST(request: NextRequest) {
       originalError: error
     });
   }
-}
+});
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deliverStatusCallbacks, isWhatsAppSimulatorEnabled, recordOutboundMessage } from '@/lib/whatsapp-simulator';
+
+// Give the app time to store the message id before its status callbacks arrive
+const STATUS_CALLBACK_DELAY_MS = 1000;
+
+/**
+ * Fake Graph API send endpoint (development only)
+ * Set WHATSAPP_API_URL=http://localhost:3000/api/dev/whatsapp and the Meta adapter
+ * posts here instead of graph.facebook.com; messages show up on /dev/phone.
+ */
+export async function POST(request: NextRequest) {
+  if (!isWhatsAppSimulatorEnabled()) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  // Same shape as Graph API errors, so the app's error handling is exercised too
+  if (!request.headers.get('authorization')?.startsWith('Bearer ')) {
+    return NextResponse.json(
+      { error: { message: 'An access token is required to request this resource.', type: 'OAuthException', code: 104 } },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const message = recordOutboundMessage(await request.json());
+    console.log(`📱 [WhatsApp simulator] to ${message.phone}: ${message.text}`);
+
+    const webhookUrl = new URL('/api/webhooks/whatsapp', request.nextUrl.origin).toString();
+    setTimeout(() => deliverStatusCallbacks(webhookUrl, [message], ['sent', 'delivered']), STATUS_CALLBACK_DELAY_MS);
+
+    return NextResponse.json({
+      messaging_product: 'whatsapp',
+      contacts: [{ input: message.phone, wa_id: message.phone }],
+      messages: [{ id: message.id }],
+    });
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: { message: error.message || 'Invalid parameter', type: 'OAuthException', code: 100 } },
+      { status: 400 }
+    );
+  }
+}
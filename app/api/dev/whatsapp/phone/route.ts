@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  clearSimulatedConversation,
+  deliverInboundMessage,
+  deliverStatusCallbacks,
+  findReplyButton,
+  getSimulatedConversation,
+  isWhatsAppSimulatorEnabled,
+  markConversationRead,
+} from '@/lib/whatsapp-simulator';
+
+/**
+ * The simulated phone (development only), used by /dev/phone and scripts/whatsapp-phone.js
+ * GET    ?number=<phone>  conversation with that number (&read=1: the user looked at it,
+ *                          so "read" status callbacks go to the webhook)
+ * POST   { from, text }   send a signed inbound message to the webhook
+ *        { from, button } tap a reply button (id or title) on a message the app sent
+ * DELETE ?number=<phone>  clear the conversation
+ */
+export async function GET(request: NextRequest) {
+  if (!isWhatsAppSimulatorEnabled()) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  const number = request.nextUrl.searchParams.get('number');
+  if (!number) {
+    return NextResponse.json({ error: 'number is required' }, { status: 400 });
+  }
+
+  if (request.nextUrl.searchParams.get('read') === '1') {
+    const webhookUrl = new URL('/api/webhooks/whatsapp', request.nextUrl.origin).toString();
+    await deliverStatusCallbacks(webhookUrl, markConversationRead(number), ['read']);
+  }
+
+  return NextResponse.json({ messages: getSimulatedConversation(number) });
+}
+
+export async function POST(request: NextRequest) {
+  if (!isWhatsAppSimulatorEnabled()) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  const { from, text, button } = await request.json().catch(() => ({}));
+  if (typeof from !== 'string' || !from.replace(/\D/g, '')) {
+    return NextResponse.json({ error: 'from is required' }, { status: 400 });
+  }
+
+  const tapped = typeof button === 'string' ? findReplyButton(from, button) : null;
+  if (typeof button === 'string' && !tapped) {
+    return NextResponse.json({ error: `No button "${button}" in this conversation` }, { status: 404 });
+  }
+  if (!tapped && (typeof text !== 'string' || !text.trim())) {
+    return NextResponse.json({ error: 'text or button is required' }, { status: 400 });
+  }
+
+  try {
+    const webhookUrl = new URL('/api/webhooks/whatsapp', request.nextUrl.origin).toString();
+    const { message, webhookStatus } = tapped
+      ? await deliverInboundMessage(webhookUrl, from, tapped.title, tapped)
+      : await deliverInboundMessage(webhookUrl, from, text);
+
+    return NextResponse.json({ message, webhookStatus });
+  } catch (error: any) {
+    // Dev-only route, so the reason (usually a missing WHATSAPP_APP_SECRET) is shown as-is
+    return NextResponse.json({ error: error.message || 'Delivery failed' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  if (!isWhatsAppSimulatorEnabled()) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  const number = request.nextUrl.searchParams.get('number');
+  if (!number) {
+    return NextResponse.json({ error: 'number is required' }, { status: 400 });
+  }
+
+  clearSimulatedConversation(number);
+  return NextResponse.json({ success: true });
+}
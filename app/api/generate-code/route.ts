@@ -4,16 +4,21 @@ import { generateVerificationCode } from '@/lib/utils';
 import { validatePhoneNumber, validateName } from '@/lib/security';
 import { generateSecureToken } from '@/utils/secureAuth';
 import { validateDoubleSubmitCSRF } from '@/lib/csrf-double-submit';
+import { getOTPDeliveryMode, deliverVerificationCode } from '@/lib/otp-delivery';
+import { setAccessTokenCookie } from '@/lib/auth-cookies';
+import { checkCompositeRateLimit, getRateLimitSubjects, RateLimitExceededError, withRateLimitHeaders } from '@/lib/rate-limiting';
 import { 
   createSecureErrorResponse, 
   handleDatabaseError, 
   handleValidationError,
   handleCSRFError,
+  handleRateLimitError,
+  handleWhatsAppError,
   createGenericErrorResponse,
   sanitizeUserInput
 } from '@/lib/secure-error-handling-enhanced';
 
-export async function POST(request: NextRequest) {
+export const POST = withRateLimitHeaders(async function POST(request: NextRequest) {
   try {
     // CRITICAL: CSRF protection for state-changing operation
     const csrfValid = validateDoubleSubmitCSRF(request);
@@ -49,6 +54,18 @@ export async function POST(request: NextRequest) {
       });
     }
 
+    // Rate limit code requests per IP, per target number and overall,
+    // so nobody can flood someone else's WhatsApp with codes
+    const rateLimit = await checkCompositeRateLimit('signup', getRateLimitSubjects(request, { phone: validatedNumber }), request);
+    if (!rateLimit.allowed) {
+      return handleRateLimitError(rateLimit.retryAfter || 3600, {
+        operation: 'generate-code',
+        ip: request.headers.get('x-forwarded-for') || 'unknown',
+        userAgent: request.headers.get('user-agent') || 'unknown',
+        timestamp: new Date().toISOString()
+      });
+    }
+
     // Check if user already exists in users table
     const supabaseAdmin = getSupabaseAdmin();
     const { data: existingUser, error: userCheckError } = await supabaseAdmin
@@ -98,6 +115,7 @@ export async function POST(request: NextRequest) {
 
     // Insert into database
     const expiresAt = new Date(Date.now() + 10 * 60 * 1000);
+    const deliveryMode = getOTPDeliveryMode();
     
     const { data, error } = await supabaseAdmin
       .from('verification_codes')
@@ -107,6 +125,7 @@ export async function POST(request: NextRequest) {
         whatsapp_number: validatedNumber,
         verified: false,
         expires_at: expiresAt.toISOString(),
+        delivery_mode: deliveryMode,
       })
       .select()
       .single();
@@ -120,6 +139,42 @@ export async function POST(request: NextRequest) {
       });
     }
 
+    // Outbound mode: push the code to WhatsApp and never reveal it to the browser.
+    // The session cookie is only issued once the code is confirmed via /api/verify-code.
+    if (deliveryMode === 'outbound') {
+      try {
+        await deliverVerificationCode(validatedNumber, data.code, data.id);
+      } catch (sendError) {
+        // Don't leave an undeliverable code behind
+        await supabaseAdmin
+          .from('verification_codes')
+          .delete()
+          .eq('id', data.id);
+
+        if (sendError instanceof RateLimitExceededError) {
+          return handleRateLimitError(sendError.retryAfter, {
+            operation: 'generate-code',
+            ip: request.headers.get('x-forwarded-for') || 'unknown',
+            userAgent: request.headers.get('user-agent') || 'unknown',
+            timestamp: new Date().toISOString()
+          });
+        }
+
+        return handleWhatsAppError(sendError, 'generate-code', {
+          operation: 'generate-code',
+          ip: request.headers.get('x-forwarded-for') || 'unknown',
+          userAgent: request.headers.get('user-agent') || 'unknown',
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      return NextResponse.json({
+        success: true,
+        deliveryMode,
+        verificationId: data.id
+      });
+    }
+
     // Generate secure token
     const secureToken = generateSecureToken({
       code: data.code,
@@ -130,14 +185,12 @@ export async function POST(request: NextRequest) {
     
     const response = NextResponse.json({ 
       success: true, 
+      deliveryMode,
       code: data.code 
     });
     
     // Set cookie
-    response.headers.set(
-      'Set-Cookie',
-      `auth_token=${secureToken}; HttpOnly; Secure; Path=/; Max-Age=${24 * 60 * 60}; SameSite=Strict`
-    );
+    setAccessTokenCookie(response, secureToken);
 
     return response;
   } catch (error) {
@@ -149,5 +202,4 @@ export async function POST(request: NextRequest) {
       originalError: error
     });
   }
-}
-
+});
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseAdmin } from '@/lib/supabaseAdmin';
+import { validateDoubleSubmitCSRF } from '@/lib/csrf-double-submit'; // Double Submit Cookie CSRF protection
+import { applyAPISecurityHeaders } from '@/lib/security-headers';
+import { getSessionClientInfo } from '@/lib/sessions';
+import { createLoginResponse } from '@/lib/login-session';
+import { claimLoginApproval } from '@/lib/login-approval';
+import {
+  createSecureErrorResponse,
+  handleAuthError,
+  handleCSRFError,
+  handleValidationError,
+  createGenericErrorResponse
+} from '@/lib/secure-error-handling-enhanced';
+
+/**
+ * Poll a login waiting for "Was this you?" on WhatsApp (LOGIN_APPROVAL_MODE=whatsapp)
+ * Body: { approvalToken } from /api/auth-password's 202 response
+ * - 202 { pending: true } until the owner answers
+ * - 200 with the session cookies once they tapped "Yes, it's me" (only once per token)
+ * - 403 LOGIN_DENIED after "No, block this", 401 AUTH_EXPIRED when they didn't answer in time
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Double Submit Cookie CSRF protection
+    const csrfValid = validateDoubleSubmitCSRF(request);
+    if (!csrfValid) {
+      return handleCSRFError({
+        operation: 'login-approval',
+        ip: request.headers.get('x-forwarded-for') || 'unknown',
+        userAgent: request.headers.get('user-agent') || 'unknown',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const { approvalToken } = await request.json().catch(() => ({}));
+    if (typeof approvalToken !== 'string' || !/^[a-f0-9]{64}$/.test(approvalToken)) {
+      return handleValidationError(['approvalToken is required'], {
+        operation: 'login-approval',
+        ip: request.headers.get('x-forwarded-for') || 'unknown',
+        userAgent: request.headers.get('user-agent') || 'unknown',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const approval = await claimLoginApproval(approvalToken);
+
+    if (!approval) {
+      return createSecureErrorResponse('AUTH_INVALID', 401, {
+        operation: 'login-approval',
+        ip: request.headers.get('x-forwarded-for') || 'unknown',
+        userAgent: request.headers.get('user-agent') || 'unknown',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    switch (approval.status) {
+      case 'pending':
+        return applyAPISecurityHeaders(NextResponse.json({ success: false, pending: true }, { status: 202 }));
+
+      case 'denied':
+        return createSecureErrorResponse('LOGIN_DENIED', 403, {
+          operation: 'login-approval',
+          userId: approval.userId,
+          ip: request.headers.get('x-forwarded-for') || 'unknown',
+          userAgent: request.headers.get('user-agent') || 'unknown',
+          timestamp: new Date().toISOString()
+        });
+
+      case 'expired':
+        return createSecureErrorResponse('AUTH_EXPIRED', 401, {
+          operation: 'login-approval',
+          userId: approval.userId,
+          ip: request.headers.get('x-forwarded-for') || 'unknown',
+          userAgent: request.headers.get('user-agent') || 'unknown',
+          timestamp: new Date().toISOString()
+        });
+    }
+
+    const supabaseAdmin = getSupabaseAdmin();
+    const { data: user, error: userError } = await supabaseAdmin
+      .from('users')
+      .select('id, name, phone')
+      .eq('id', approval.userId)
+      .eq('verified', true)
+      .single();
+
+    if (userError || !user) {
+      return handleAuthError(userError, 'login-approval', {
+        operation: 'login-approval',
+        userId: approval.userId,
+        ip: request.headers.get('x-forwarded-for') || 'unknown',
+        userAgent: request.headers.get('user-agent') || 'unknown',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const response = await createLoginResponse(user, getSessionClientInfo(request.headers));
+    return applyAPISecurityHeaders(response);
+
+  } catch (error) {
+    return createGenericErrorResponse({
+      operation: 'login-approval',
+      ip: request.headers.get('x-forwarded-for') || 'unknown',
+      userAgent: request.headers.get('user-agent') || 'unknown',
+      timestamp: new Date().toISOString(),
+      originalError: error
+    });
+  }
+}
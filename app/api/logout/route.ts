@@ -1,13 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { validateDoubleSubmitCSRF } from '@/lib/csrf-double-submit';
 import { applyAPISecurityHeaders } from '@/lib/security-headers';
-import { 
+import { ACCESS_TOKEN_COOKIE, REFRESH_TOKEN_COOKIE, clearAuthCookies } from '@/lib/auth-cookies';
+import { revokeRefreshToken } from '@/lib/refresh-tokens';
+import { isSessionId, revokeSession } from '@/lib/sessions';
+import { verifyAccessToken, verifyRefreshToken } from '@/lib/jwt';
+import {
   handleCSRFError,
   createGenericErrorResponse
 } from '@/lib/secure-error-handling-enhanced';
 
-// Run on Edge for better performance
-export const runtime = 'edge';
+// Run on Node.js runtime to support crypto module for refresh token revocation
+export const runtime = 'nodejs';
 
 export async function POST(request: NextRequest) {
   try {
@@ -22,13 +26,26 @@ export async function POST(request: NextRequest) {
       });
     }
 
+    // Revoke the session so the access token stops working before it expires
+    // (the access cookie may already be gone, so fall back to the refresh token)
+    const accessToken = request.cookies.get(ACCESS_TOKEN_COOKIE)?.value;
+    const refreshToken = request.cookies.get(REFRESH_TOKEN_COOKIE)?.value;
+    const sessionId = (accessToken && verifyAccessToken(accessToken)?.userId)
+      || (refreshToken && verifyRefreshToken(refreshToken)?.userId);
+
+    if (sessionId && isSessionId(sessionId)) {
+      await revokeSession(sessionId, 'logout');
+    }
+
+    // Revoke the refresh token family so it can't mint new access tokens
+    if (refreshToken) {
+      await revokeRefreshToken(refreshToken);
+    }
+
     const response = NextResponse.json({ success: true });
-    
-    response.headers.set(
-      'Set-Cookie',
-      `auth_token=; HttpOnly; Secure; Path=/; Max-Age=0; SameSite=Strict`
-    );
-    
+
+    clearAuthCookies(response);
+
     return applyAPISecurityHeaders(response);
   } catch (error) {
     return createGenericErrorResponse({
@@ -40,4 +57,3 @@ export async function POST(request: NextRequest) {
     });
   }
 }
-
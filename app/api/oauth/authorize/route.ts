@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAccessToken } from '@/lib/jwt';
+import { ACCESS_TOKEN_COOKIE, OAUTH_SESSION_COOKIE } from '@/lib/auth-cookies';
+import { getActiveSession, isSessionId } from '@/lib/sessions';
+import { checkRateLimit, withRateLimitHeaders } from '@/lib/rate-limiting';
+import {
+  OIDC_SCOPES,
+  createAuthorizationCode,
+  getOAuthClient,
+  isAllowedRedirectUri,
+  oauthErrorRedirect,
+  oauthErrorResponse
+} from '@/lib/oidc';
+
+// Run on Node.js runtime to support crypto module for JWT
+export const runtime = 'nodejs';
+
+const CODE_CHALLENGE_PATTERN = /^[A-Za-z0-9\-_]{43}$/;
+
+/**
+ * OIDC authorization endpoint (authorization code flow with PKCE)
+ * Users without a session are sent through the normal login page and come back here
+ */
+export const GET = withRateLimitHeaders(async function GET(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimit(request, 'api');
+    if (!rateLimit.allowed) {
+      return oauthErrorResponse('temporarily_unavailable', 'Too many requests', 429);
+    }
+
+    const params = request.nextUrl.searchParams;
+    const clientId = params.get('client_id');
+    const redirectUri = params.get('redirect_uri');
+    const state = params.get('state');
+
+    // Never redirect to an unregistered URI; show the error here instead
+    const client = await getOAuthClient(clientId);
+    if (!client) {
+      return oauthErrorResponse('invalid_client', 'Unknown client');
+    }
+
+    if (!isAllowedRedirectUri(client, redirectUri)) {
+      return oauthErrorResponse('invalid_request', 'redirect_uri is not registered for this client');
+    }
+
+    const validRedirectUri = redirectUri as string;
+
+    if (params.get('response_type') !== 'code') {
+      return oauthErrorRedirect(validRedirectUri, 'unsupported_response_type', 'Only response_type=code is supported', state);
+    }
+
+    const requestedScopes = (params.get('scope') || '').split(' ').filter(Boolean);
+    if (!requestedScopes.includes('openid')) {
+      return oauthErrorRedirect(validRedirectUri, 'invalid_scope', 'The openid scope is required', state);
+    }
+
+    // PKCE is mandatory for every client
+    const codeChallenge = params.get('code_challenge');
+    if (!codeChallenge || !CODE_CHALLENGE_PATTERN.test(codeChallenge) || params.get('code_challenge_method') !== 'S256') {
+      return oauthErrorRedirect(validRedirectUri, 'invalid_request', 'PKCE with code_challenge_method=S256 is required', state);
+    }
+
+    // Reuse the existing password session of this browser
+    // The Lax copy arrives on the relying party's cross-site redirect; the Strict cookie
+    // only on same-site navigations (e.g. coming back from /login)
+    const accessToken = request.cookies.get(OAUTH_SESSION_COOKIE)?.value
+      || request.cookies.get(ACCESS_TOKEN_COOKIE)?.value;
+    const payload = accessToken ? verifyAccessToken(accessToken) : null;
+    const session = payload && isSessionId(payload.userId)
+      ? await getActiveSession(payload.userId)
+      : null;
+
+    if (!session) {
+      if (params.get('prompt') === 'none') {
+        return oauthErrorRedirect(validRedirectUri, 'login_required', 'The user is not signed in', state);
+      }
+
+      const loginUrl = request.nextUrl.clone();
+      loginUrl.pathname = '/login';
+      loginUrl.search = '';
+      loginUrl.searchParams.set('next', request.nextUrl.pathname + request.nextUrl.search);
+      return NextResponse.redirect(loginUrl);
+    }
+
+    const code = await createAuthorizationCode({
+      client_id: client.client_id,
+      user_id: session.userId,
+      session_id: payload!.userId,
+      redirect_uri: validRedirectUri,
+      scope: requestedScopes.filter(scope => OIDC_SCOPES.includes(scope)).join(' '),
+      nonce: params.get('nonce'),
+      code_challenge: codeChallenge,
+      auth_time: session.createdAt,
+    });
+
+    const callbackUrl = new URL(validRedirectUri);
+    callbackUrl.searchParams.set('code', code);
+    if (state) {
+      callbackUrl.searchParams.set('state', state);
+    }
+
+    return NextResponse.redirect(callbackUrl);
+  } catch (error) {
+    console.error('OIDC authorization failed:', error);
+    return oauthErrorResponse('server_error', 'Authorization failed', 500);
+  }
+});
@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { generateIdToken, generateOIDCAccessToken } from '@/lib/jwt';
+import { getTokenLifetimes } from '@/lib/jwt-config';
+import { isSessionId, validateSession } from '@/lib/sessions';
+import { checkRateLimit, withRateLimitHeaders } from '@/lib/rate-limiting';
+import {
+  authenticateClient,
+  buildUserClaims,
+  consumeAuthorizationCode,
+  getOAuthClient,
+  getOIDCIssuer,
+  getOIDCUser,
+  oauthErrorResponse,
+  verifyPKCE
+} from '@/lib/oidc';
+
+// Run on Node.js runtime to support crypto module for JWT
+export const runtime = 'nodejs';
+
+/**
+ * Read client credentials from HTTP Basic auth (client_secret_basic) or the form (client_secret_post)
+ */
+function getClientCredentials(request: NextRequest, form: URLSearchParams): {
+  clientId: string | null;
+  clientSecret: string | null;
+} {
+  const authorization = request.headers.get('authorization');
+
+  if (authorization?.startsWith('Basic ')) {
+    const decoded = Buffer.from(authorization.substring(6), 'base64').toString('utf8');
+    const separator = decoded.indexOf(':');
+    if (separator > 0) {
+      try {
+        return {
+          clientId: decodeURIComponent(decoded.substring(0, separator)),
+          clientSecret: decodeURIComponent(decoded.substring(separator + 1)),
+        };
+      } catch {
+        // Malformed percent-encoding (URIError): the client can't be authenticated
+        return { clientId: null, clientSecret: null };
+      }
+    }
+  }
+
+  return {
+    clientId: form.get('client_id'),
+    clientSecret: form.get('client_secret'),
+  };
+}
+
+/**
+ * OIDC token endpoint: exchanges an authorization code for an ID token and access token
+ * Called server-to-server by the client app, so no CSRF token is involved
+ */
+export const POST = withRateLimitHeaders(async function POST(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimit(request, 'api');
+    if (!rateLimit.allowed) {
+      return oauthErrorResponse('temporarily_unavailable', 'Too many requests', 429);
+    }
+
+    const form = new URLSearchParams(await request.text());
+
+    if (form.get('grant_type') !== 'authorization_code') {
+      return oauthErrorResponse('unsupported_grant_type', 'Only the authorization_code grant is supported');
+    }
+
+    const { clientId, clientSecret } = getClientCredentials(request, form);
+    const client = await getOAuthClient(clientId);
+
+    if (!client || !authenticateClient(client, clientSecret)) {
+      return oauthErrorResponse('invalid_client', 'Client authentication failed', 401);
+    }
+
+    const code = form.get('code');
+    const grant = code ? await consumeAuthorizationCode(code) : null;
+
+    if (!grant || grant.client_id !== client.client_id) {
+      return oauthErrorResponse('invalid_grant', 'Authorization code is invalid, expired or already used');
+    }
+
+    if (grant.redirect_uri !== form.get('redirect_uri')) {
+      return oauthErrorResponse('invalid_grant', 'redirect_uri does not match the authorization request');
+    }
+
+    if (!verifyPKCE(form.get('code_verifier'), grant.code_challenge)) {
+      return oauthErrorResponse('invalid_grant', 'PKCE verification failed');
+    }
+
+    // The user may have signed out between /authorize and this exchange
+    if (grant.session_id && isSessionId(grant.session_id) && !(await validateSession(grant.session_id))) {
+      return oauthErrorResponse('invalid_grant', 'The user session has ended');
+    }
+
+    const user = await getOIDCUser(grant.user_id);
+    if (!user) {
+      return oauthErrorResponse('invalid_grant', 'User not found');
+    }
+
+    const idToken = generateIdToken(
+      {
+        ...buildUserClaims(user, grant.scope),
+        auth_time: Math.floor(new Date(grant.auth_time).getTime() / 1000),
+        ...(grant.nonce ? { nonce: grant.nonce } : {}),
+      },
+      client.client_id,
+      getOIDCIssuer(request)
+    );
+
+    const accessToken = generateOIDCAccessToken({
+      sub: user.id,
+      scope: grant.scope,
+      client_id: client.client_id,
+      ...(grant.session_id && isSessionId(grant.session_id) ? { sid: grant.session_id } : {}),
+    });
+
+    return NextResponse.json(
+      {
+        access_token: accessToken,
+        token_type: 'Bearer',
+        expires_in: getTokenLifetimes().accessTokenSeconds,
+        id_token: idToken,
+        scope: grant.scope,
+      },
+      { headers: { 'Cache-Control': 'no-store', 'Pragma': 'no-cache' } }
+    );
+  } catch (error) {
+    console.error('OIDC token exchange failed:', error);
+    return oauthErrorResponse('server_error', 'Token exchange failed', 500);
+  }
+});
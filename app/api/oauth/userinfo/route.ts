@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyOIDCAccessToken } from '@/lib/jwt';
+import { buildUserClaims, getOIDCUser } from '@/lib/oidc';
+import { isSessionId, validateSession } from '@/lib/sessions';
+
+// Run on Node.js runtime to support crypto module for JWT
+export const runtime = 'nodejs';
+
+/**
+ * OIDC userinfo endpoint: returns the claims allowed by the access token's scope
+ */
+async function handleUserInfo(request: NextRequest) {
+  try {
+    const authorization = request.headers.get('authorization');
+    const token = authorization?.startsWith('Bearer ') ? authorization.substring(7) : null;
+    const payload = token ? verifyOIDCAccessToken(token) : null;
+
+    if (!payload) {
+      return NextResponse.json(
+        { error: 'invalid_token', error_description: 'Access token is missing or invalid' },
+        { status: 401, headers: { 'WWW-Authenticate': 'Bearer error="invalid_token"' } }
+      );
+    }
+
+    // Signing out (or revoking the session) stops the access token here too
+    if (payload.sid && isSessionId(payload.sid) && !(await validateSession(payload.sid))) {
+      return NextResponse.json(
+        { error: 'invalid_token', error_description: 'The user session has ended' },
+        { status: 401, headers: { 'WWW-Authenticate': 'Bearer error="invalid_token"' } }
+      );
+    }
+
+    const user = await getOIDCUser(payload.sub);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'invalid_token', error_description: 'User not found' },
+        { status: 401, headers: { 'WWW-Authenticate': 'Bearer error="invalid_token"' } }
+      );
+    }
+
+    return NextResponse.json(buildUserClaims(user, payload.scope), {
+      headers: { 'Cache-Control': 'no-store' }
+    });
+  } catch (error) {
+    console.error('OIDC userinfo failed:', error);
+    return NextResponse.json({ error: 'server_error' }, { status: 500 });
+  }
+}
+
+export const GET = handleUserInfo;
+export const POST = handleUserInfo;
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createHash, timingSafeEqual } from 'crypto';
+import { getServerEnv } from '@/lib/server-env';
+import { processOutbox } from '@/lib/message-outbox';
+import {
+  createSecureErrorResponse,
+  handleConfigError,
+  createGenericErrorResponse
+} from '@/lib/secure-error-handling-enhanced';
+
+/**
+ * Outbox worker: sends due queued WhatsApp messages
+ * Retries only happen when this runs, so it should be called every minute by a
+ * scheduler that sends "Authorization: Bearer <CRON_SECRET>". vercel.json only runs it
+ * daily (all the Hobby plan allows); see README 4.8. GET is what Vercel Cron uses.
+ */
+export async function GET(request: NextRequest) {
+  return runWorker(request);
+}
+
+export async function POST(request: NextRequest) {
+  return runWorker(request);
+}
+
+function hashToken(token: string): Buffer {
+  return createHash('sha256').update(token).digest();
+}
+
+async function runWorker(request: NextRequest): Promise<NextResponse> {
+  let cronSecret: string;
+  try {
+    cronSecret = getServerEnv('CRON_SECRET');
+  } catch (error) {
+    return handleConfigError(error, 'outbox-process', {
+      operation: 'outbox-process',
+      ip: request.headers.get('x-forwarded-for') || 'unknown',
+      userAgent: request.headers.get('user-agent') || 'unknown',
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  // Compare digests so the check takes the same time whatever the token length
+  const presented = (request.headers.get('authorization') || '').replace(/^Bearer /, '');
+  if (!presented || !timingSafeEqual(hashToken(presented), hashToken(cronSecret))) {
+    return createSecureErrorResponse('AUTH_INVALID', 401, {
+      operation: 'outbox-process',
+      ip: request.headers.get('x-forwarded-for') || 'unknown',
+      userAgent: request.headers.get('user-agent') || 'unknown',
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  try {
+    const summary = await processOutbox();
+    if (summary.claimed > 0) {
+      console.log('Outbox run:', summary);
+    }
+
+    return NextResponse.json({ success: true, summary });
+  } catch (error) {
+    return createGenericErrorResponse({
+      operation: 'outbox-process',
+      ip: request.headers.get('x-forwarded-for') || 'unknown',
+      userAgent: request.headers.get('user-agent') || 'unknown',
+      timestamp: new Date().toISOString(),
+      originalError: error
+    });
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { generateSecureToken } from '@/utils/secureAuth';
+import { validateDoubleSubmitCSRF } from '@/lib/csrf-double-submit'; // Double Submit Cookie CSRF protection
+import { applyAPISecurityHeaders } from '@/lib/security-headers';
+import { setAccessTokenCookie } from '@/lib/auth-cookies';
+import { redeemPasswordResetLink } from '@/lib/phone-password-reset';
+import {
+  handleCSRFError,
+  handleValidationError,
+  handleVerificationError,
+  createGenericErrorResponse
+} from '@/lib/secure-error-handling-enhanced';
+
+/**
+ * Continue a password reset started with RESET on WhatsApp
+ * Body: { token } from the link the bot sent. Sets the reset flow's cookie (like
+ * /api/reset-password does once the code is confirmed) for /set-password.
+ * POST only, so link previews and prefetching can't use up the one-time link.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Double Submit Cookie CSRF protection
+    const csrfValid = validateDoubleSubmitCSRF(request);
+    if (!csrfValid) {
+      return handleCSRFError({
+        operation: 'reset-link',
+        ip: request.headers.get('x-forwarded-for') || 'unknown',
+        userAgent: request.headers.get('user-agent') || 'unknown',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const { token } = await request.json().catch(() => ({}));
+    if (typeof token !== 'string' || !/^[a-f0-9]{64}$/.test(token)) {
+      return handleValidationError(['token is required'], {
+        operation: 'reset-link',
+        ip: request.headers.get('x-forwarded-for') || 'unknown',
+        userAgent: request.headers.get('user-agent') || 'unknown',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const verification = await redeemPasswordResetLink(token);
+    if (!verification) {
+      return handleVerificationError('CODE_EXPIRED', {
+        operation: 'reset-link',
+        ip: request.headers.get('x-forwarded-for') || 'unknown',
+        userAgent: request.headers.get('user-agent') || 'unknown',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const secureToken = generateSecureToken({
+      code: verification.code,
+      name: verification.name,
+      whatsappNumber: verification.whatsappNumber,
+      verified: true,
+    });
+
+    const response = NextResponse.json({ success: true });
+    setAccessTokenCookie(response, secureToken);
+
+    return applyAPISecurityHeaders(response);
+
+  } catch (error) {
+    return createGenericErrorResponse({
+      operation: 'reset-link',
+      ip: request.headers.get('x-forwarded-for') || 'unknown',
+      userAgent: request.headers.get('user-agent') || 'unknown',
+      timestamp: new Date().toISOString(),
+      originalError: error
+    });
+  }
+}
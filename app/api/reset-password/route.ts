@@ -4,16 +4,21 @@ import { validatePhoneNumber } from '@/lib/security';
 import { generateVerificationCode } from '@/lib/utils';
 import { generateSecureToken } from '@/utils/secureAuth';
 import { validateDoubleSubmitCSRF } from '@/lib/csrf-double-submit'; // Double Submit Cookie CSRF protection
+import { getOTPDeliveryMode, deliverVerificationCode } from '@/lib/otp-delivery';
+import { setAccessTokenCookie } from '@/lib/auth-cookies';
+import { checkCompositeRateLimit, getRateLimitSubjects, RateLimitExceededError, withRateLimitHeaders } from '@/lib/rate-limiting';
 import { 
   createSecureErrorResponse, 
   handleDatabaseError, 
   handleValidationError,
   handleCSRFError,
+  handleRateLimitError,
+  handleWhatsAppError,
   createGenericErrorResponse,
   sanitizeUserInput
 } from '@/lib/secure-error-handling-enhanced';
 
-export async function POST(request: NextRequest) {
+export const POST = withRateLimitHeaders(async function POST(request: NextRequest) {
   try {
     // Double Submit Cookie CSRF protection
     const csrfValid = validateDoubleSubmitCSRF(request);
@@ -46,6 +51,18 @@ export async function POST(request: NextRequest) {
       });
     }
 
+    // Rate limit reset requests per IP, per target number and overall,
+    // so nobody can flood someone else's WhatsApp with reset codes
+    const rateLimit = await checkCompositeRateLimit('passwordReset', getRateLimitSubjects(request, { phone: validatedPhone }), request);
+    if (!rateLimit.allowed) {
+      return handleRateLimitError(rateLimit.retryAfter || 3600, {
+        operation: 'reset-password',
+        ip: request.headers.get('x-forwarded-for') || 'unknown',
+        userAgent: request.headers.get('user-agent') || 'unknown',
+        timestamp: new Date().toISOString()
+      });
+    }
+
     // Check if user exists in users table
     const supabaseAdmin = getSupabaseAdmin();
     const { data: existingUser, error: userCheckError } = await supabaseAdmin
@@ -64,6 +81,16 @@ export async function POST(request: NextRequest) {
       });
     }
 
+    const accountRateLimit = await checkCompositeRateLimit('passwordReset', { account: existingUser.id }, request);
+    if (!accountRateLimit.allowed) {
+      return handleRateLimitError(accountRateLimit.retryAfter || 3600, {
+        operation: 'reset-password',
+        ip: request.headers.get('x-forwarded-for') || 'unknown',
+        userAgent: request.headers.get('user-agent') || 'unknown',
+        timestamp: new Date().toISOString()
+      });
+    }
+
     // Generate unique verification code for password reset
     let code = generateVerificationCode();
     let attempts = 0;
@@ -86,6 +113,7 @@ export async function POST(request: NextRequest) {
 
     // Insert verification code for password reset
     const expiresAt = new Date(Date.now() + 10 * 60 * 1000);
+    const deliveryMode = getOTPDeliveryMode();
     
     const { data, error } = await supabaseAdmin
       .from('verification_codes')
@@ -95,6 +123,7 @@ export async function POST(request: NextRequest) {
         whatsapp_number: validatedPhone,
         verified: false,
         expires_at: expiresAt.toISOString(),
+        delivery_mode: deliveryMode,
       })
       .select()
       .single();
@@ -108,6 +137,41 @@ export async function POST(request: NextRequest) {
       });
     }
 
+    // Outbound mode: push the reset code to the account's WhatsApp number
+    if (deliveryMode === 'outbound') {
+      try {
+        await deliverVerificationCode(validatedPhone, data.code, data.id);
+      } catch (sendError) {
+        await supabaseAdmin
+          .from('verification_codes')
+          .delete()
+          .eq('id', data.id);
+
+        if (sendError instanceof RateLimitExceededError) {
+          return handleRateLimitError(sendError.retryAfter, {
+            operation: 'reset-password',
+            ip: request.headers.get('x-forwarded-for') || 'unknown',
+            userAgent: request.headers.get('user-agent') || 'unknown',
+            timestamp: new Date().toISOString()
+          });
+        }
+
+        return handleWhatsAppError(sendError, 'reset-password', {
+          operation: 'reset-password',
+          ip: request.headers.get('x-forwarded-for') || 'unknown',
+          userAgent: request.headers.get('user-agent') || 'unknown',
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      return NextResponse.json({
+        success: true,
+        deliveryMode,
+        verificationId: data.id,
+        message: 'Reset code sent to WhatsApp'
+      });
+    }
+
     // Generate secure token for the reset flow
     const secureToken = generateSecureToken({
       code: data.code,
@@ -118,15 +182,13 @@ export async function POST(request: NextRequest) {
     
     const response = NextResponse.json({ 
       success: true, 
+      deliveryMode,
       code: data.code,
       message: 'Reset code sent to WhatsApp'
     });
     
     // Set cookie for the reset flow
-    response.headers.set(
-      'Set-Cookie',
-      `auth_token=${secureToken}; HttpOnly; Secure; Path=/; Max-Age=${24 * 60 * 60}; SameSite=Strict`
-    );
+    setAccessTokenCookie(response, secureToken);
 
     return response;
 
@@ -139,4 +201,4 @@ export async function POST(request: NextRequest) {
       originalError: error
     });
   }
-}
+});
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSupabaseAdmin } from '@/lib/supabaseAdmin';
 import { verifySecureTokenEdge, generateSecureTokenEdge } from '@/utils/edgeAuth';
+import { setAccessTokenCookie } from '@/lib/auth-cookies';
+import { isSessionId, validateSession } from '@/lib/sessions';
+import { getVerificationDeliveryStatus } from '@/lib/outbound-messages';
 import { 
   createSecureErrorResponse, 
   handleDatabaseError, 
@@ -38,13 +41,23 @@ export async function GET(request: NextRequest) {
     const supabaseAdmin = getSupabaseAdmin();
     
     // Check if the code looks like a session ID (password authentication)
-    if (sessionData.code && sessionData.code.length > 10) {
-      // This is password authentication - JWT is self-contained and secure
-      // No database query needed - JWT contains all necessary information
+    if (sessionData.code && isSessionId(sessionData.code)) {
+      // This is password authentication - reject sessions that were signed out
+      const sessionActive = await validateSession(sessionData.code);
+      if (!sessionActive) {
+        return createSecureErrorResponse('SESSION_INVALID', 401, {
+          operation: 'session',
+          ip: request.headers.get('x-forwarded-for') || 'unknown',
+          userAgent: request.headers.get('user-agent') || 'unknown',
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      // The session id stays server-side; the client only needs the name and status
       return NextResponse.json({
         success: true,
         data: {
-          code: sessionData.code, // Random session ID from JWT
+          authMethod: 'password',
           name: sessionData.name,
           verified: sessionData.verified,
         },
@@ -53,7 +66,7 @@ export async function GET(request: NextRequest) {
       // This is verification-based authentication - check verification_codes table
       const { data, error } = await supabaseAdmin
         .from('verification_codes')
-        .select('verified, code, name')
+        .select('id, verified, code, name')
         .eq('code', sessionData.code)
         .gt('expires_at', new Date().toISOString())
         .single();
@@ -71,9 +84,14 @@ export async function GET(request: NextRequest) {
       const response = NextResponse.json({
         success: true,
         data: {
+          authMethod: 'verification',
           code: data.code,
+          // Lets the browser subscribe to its own verification status (migration 021)
+          verificationId: data.id,
           name: data.name,
           verified: data.verified,
+          // Delivery of our latest WhatsApp message for this verification (code or reply)
+          delivery: await getVerificationDeliveryStatus(data.id),
         },
       });
 
@@ -86,10 +104,7 @@ export async function GET(request: NextRequest) {
           verified: data.verified,
         });
         
-        response.headers.set(
-          'Set-Cookie',
-          `auth_token=${newToken}; HttpOnly; Secure; Path=/; Max-Age=${24 * 60 * 60}; SameSite=Strict`
-        );
+        setAccessTokenCookie(response, newToken);
       }
 
       return response;
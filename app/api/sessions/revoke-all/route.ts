@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateDoubleSubmitCSRF } from '@/lib/csrf-double-submit';
+import { applyAPISecurityHeaders } from '@/lib/security-headers';
+import { ACCESS_TOKEN_COOKIE, clearAuthCookies } from '@/lib/auth-cookies';
+import { getSessionUserId, isSessionId, revokeAllUserSessions } from '@/lib/sessions';
+import { verifySecureToken } from '@/utils/secureAuth';
+import {
+  createSecureErrorResponse,
+  handleCSRFError,
+  createGenericErrorResponse
+} from '@/lib/secure-error-handling-enhanced';
+
+// Run on Node.js runtime to support crypto module for JWT
+export const runtime = 'nodejs';
+
+/**
+ * Sign out of all devices
+ * Revokes every active session (and its refresh tokens) of the current user
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // CRITICAL: CSRF protection for state-changing operation
+    const csrfValid = validateDoubleSubmitCSRF(request);
+    if (!csrfValid) {
+      return handleCSRFError({
+        operation: 'revoke-all-sessions',
+        ip: request.headers.get('x-forwarded-for') || 'unknown',
+        userAgent: request.headers.get('user-agent') || 'unknown',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const authToken = request.cookies.get(ACCESS_TOKEN_COOKIE)?.value;
+
+    if (!authToken) {
+      return createSecureErrorResponse('AUTH_REQUIRED', 401, {
+        operation: 'revoke-all-sessions',
+        ip: request.headers.get('x-forwarded-for') || 'unknown',
+        userAgent: request.headers.get('user-agent') || 'unknown',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    // Only password sessions belong to a user account
+    const sessionData = verifySecureToken(authToken);
+    if (!sessionData || !isSessionId(sessionData.code)) {
+      return createSecureErrorResponse('SESSION_REQUIRED', 401, {
+        operation: 'revoke-all-sessions',
+        ip: request.headers.get('x-forwarded-for') || 'unknown',
+        userAgent: request.headers.get('user-agent') || 'unknown',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const userId = await getSessionUserId(sessionData.code);
+    if (!userId) {
+      return createSecureErrorResponse('SESSION_INVALID', 401, {
+        operation: 'revoke-all-sessions',
+        ip: request.headers.get('x-forwarded-for') || 'unknown',
+        userAgent: request.headers.get('user-agent') || 'unknown',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const revokedCount = await revokeAllUserSessions(userId, 'sign_out_all');
+
+    const response = NextResponse.json({
+      success: true,
+      revokedSessions: revokedCount
+    });
+
+    // The current session was revoked too
+    clearAuthCookies(response);
+
+    return applyAPISecurityHeaders(response);
+  } catch (error) {
+    return createGenericErrorResponse({
+      operation: 'revoke-all-sessions',
+      ip: request.headers.get('x-forwarded-for') || 'unknown',
+      userAgent: request.headers.get('user-agent') || 'unknown',
+      timestamp: new Date().toISOString(),
+      originalError: error
+    });
+  }
+}
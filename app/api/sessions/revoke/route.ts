@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateDoubleSubmitCSRF } from '@/lib/csrf-double-submit';
+import { applyAPISecurityHeaders } from '@/lib/security-headers';
+import { ACCESS_TOKEN_COOKIE, clearAuthCookies } from '@/lib/auth-cookies';
+import { getSessionHandle, getSessionUserId, isSessionId, revokeSessionByHandle } from '@/lib/sessions';
+import { verifySecureToken } from '@/utils/secureAuth';
+import {
+  createSecureErrorResponse,
+  handleCSRFError,
+  handleValidationError,
+  createGenericErrorResponse
+} from '@/lib/secure-error-handling-enhanced';
+
+// Run on Node.js runtime to support crypto module for JWT
+export const runtime = 'nodejs';
+
+const SESSION_HANDLE_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Revoke one of the current user's sessions from the devices page
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // CRITICAL: CSRF protection for state-changing operation
+    const csrfValid = validateDoubleSubmitCSRF(request);
+    if (!csrfValid) {
+      return handleCSRFError({
+        operation: 'revoke-session',
+        ip: request.headers.get('x-forwarded-for') || 'unknown',
+        userAgent: request.headers.get('user-agent') || 'unknown',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const authToken = request.cookies.get(ACCESS_TOKEN_COOKIE)?.value;
+
+    if (!authToken) {
+      return createSecureErrorResponse('AUTH_REQUIRED', 401, {
+        operation: 'revoke-session',
+        ip: request.headers.get('x-forwarded-for') || 'unknown',
+        userAgent: request.headers.get('user-agent') || 'unknown',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    // Only password sessions belong to a user account
+    const sessionData = verifySecureToken(authToken);
+    if (!sessionData || !isSessionId(sessionData.code)) {
+      return createSecureErrorResponse('SESSION_REQUIRED', 401, {
+        operation: 'revoke-session',
+        ip: request.headers.get('x-forwarded-for') || 'unknown',
+        userAgent: request.headers.get('user-agent') || 'unknown',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const { sessionId } = await request.json();
+
+    if (typeof sessionId !== 'string' || !SESSION_HANDLE_PATTERN.test(sessionId)) {
+      return handleValidationError(['Invalid session id'], {
+        operation: 'revoke-session',
+        ip: request.headers.get('x-forwarded-for') || 'unknown',
+        userAgent: request.headers.get('user-agent') || 'unknown',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const userId = await getSessionUserId(sessionData.code);
+    if (!userId) {
+      return createSecureErrorResponse('SESSION_INVALID', 401, {
+        operation: 'revoke-session',
+        ip: request.headers.get('x-forwarded-for') || 'unknown',
+        userAgent: request.headers.get('user-agent') || 'unknown',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    // Scoped to the user's own sessions, so another user's handle is simply "not found"
+    const currentHandle = await getSessionHandle(sessionData.code);
+    const revoked = await revokeSessionByHandle(userId, sessionId, 'revoked_by_user');
+
+    if (!revoked) {
+      return createSecureErrorResponse('RECORD_NOT_FOUND', 404, {
+        operation: 'revoke-session',
+        userId,
+        ip: request.headers.get('x-forwarded-for') || 'unknown',
+        userAgent: request.headers.get('user-agent') || 'unknown',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const isCurrent = sessionId === currentHandle;
+    const response = NextResponse.json({
+      success: true,
+      current: isCurrent
+    });
+
+    // Revoking this device is the same as logging out
+    if (isCurrent) {
+      clearAuthCookies(response);
+    }
+
+    return applyAPISecurityHeaders(response);
+  } catch (error) {
+    return createGenericErrorResponse({
+      operation: 'revoke-session',
+      ip: request.headers.get('x-forwarded-for') || 'unknown',
+      userAgent: request.headers.get('user-agent') || 'unknown',
+      timestamp: new Date().toISOString(),
+      originalError: error
+    });
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { applyAPISecurityHeaders } from '@/lib/security-headers';
+import { ACCESS_TOKEN_COOKIE } from '@/lib/auth-cookies';
+import { getSessionHandle, getSessionUserId, isSessionId, listActiveSessions } from '@/lib/sessions';
+import { parseUserAgent } from '@/lib/user-agent';
+import { verifySecureToken } from '@/utils/secureAuth';
+import {
+  createSecureErrorResponse,
+  createGenericErrorResponse
+} from '@/lib/secure-error-handling-enhanced';
+
+// Run on Node.js runtime to support crypto module for JWT
+export const runtime = 'nodejs';
+
+/**
+ * List the current user's active sessions ("Your devices")
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authToken = request.cookies.get(ACCESS_TOKEN_COOKIE)?.value;
+
+    if (!authToken) {
+      return createSecureErrorResponse('AUTH_REQUIRED', 401, {
+        operation: 'list-sessions',
+        ip: request.headers.get('x-forwarded-for') || 'unknown',
+        userAgent: request.headers.get('user-agent') || 'unknown',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    // Only password sessions belong to a user account
+    const sessionData = verifySecureToken(authToken);
+    if (!sessionData || !isSessionId(sessionData.code)) {
+      return createSecureErrorResponse('SESSION_REQUIRED', 401, {
+        operation: 'list-sessions',
+        ip: request.headers.get('x-forwarded-for') || 'unknown',
+        userAgent: request.headers.get('user-agent') || 'unknown',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const userId = await getSessionUserId(sessionData.code);
+    if (!userId) {
+      return createSecureErrorResponse('SESSION_INVALID', 401, {
+        operation: 'list-sessions',
+        ip: request.headers.get('x-forwarded-for') || 'unknown',
+        userAgent: request.headers.get('user-agent') || 'unknown',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const [sessions, currentHandle] = await Promise.all([
+      listActiveSessions(userId),
+      getSessionHandle(sessionData.code)
+    ]);
+
+    const response = NextResponse.json({
+      success: true,
+      sessions: sessions.map(session => ({
+        id: session.handle,
+        ...parseUserAgent(session.user_agent),
+        location: [session.city, session.country].filter(Boolean).join(', ') || null,
+        createdAt: session.created_at,
+        lastActiveAt: session.last_seen_at,
+        current: session.handle === currentHandle
+      }))
+    });
+
+    return applyAPISecurityHeaders(response);
+  } catch (error) {
+    return createGenericErrorResponse({
+      operation: 'list-sessions',
+      ip: request.headers.get('x-forwarded-for') || 'unknown',
+      userAgent: request.headers.get('user-agent') || 'unknown',
+      timestamp: new Date().toISOString(),
+      originalError: error
+    });
+  }
+}
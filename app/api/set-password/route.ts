@@ -5,6 +5,9 @@ import { hashPassword, validatePassword } from '@/lib/auth-utils';
 import { verifySecureToken } from '@/utils/secureAuth';
 import { validateDoubleSubmitCSRF } from '@/lib/csrf-double-submit';
 import { applyAPISecurityHeaders } from '@/lib/security-headers';
+import { setAccessTokenCookie, setRefreshTokenCookie } from '@/lib/auth-cookies';
+import { issueRefreshToken } from '@/lib/refresh-tokens';
+import { createSession, getSessionClientInfo } from '@/lib/sessions';
 import { 
   createSecureErrorResponse, 
   handleDatabaseError, 
@@ -176,14 +179,23 @@ export async function POST(request: NextRequest) {
       userId = newUser.id;
     }
 
-    // Generate new secure token with password authentication
+    // Password is set: replace the verification-code token with a real session
+    const sessionId = await createSession(userId, getSessionClientInfo(request.headers));
+
     const secureToken = generateSecureToken({
-      code: verificationData.code,
+      code: sessionId,
       name: verificationData.name,
       whatsappNumber: verificationData.whatsapp_number,
       verified: true,
     });
 
+    const refreshToken = await issueRefreshToken({
+      userId: sessionId,
+      username: verificationData.name,
+      phone: verificationData.whatsapp_number,
+      role: 'user'
+    });
+
     const response = NextResponse.json({
       success: true,
       message: 'Password set successfully',
@@ -194,11 +206,9 @@ export async function POST(request: NextRequest) {
       }
     });
 
-    // Set secure cookie with shorter expiration for security
-    response.headers.set(
-      'Set-Cookie',
-      `auth_token=${secureToken}; HttpOnly; Secure; Path=/; Max-Age=${60 * 60}; SameSite=Strict`
-    );
+    // Short-lived access cookie plus refresh cookie (rotated via /api/token/refresh)
+    setAccessTokenCookie(response, secureToken);
+    setRefreshTokenCookie(response, refreshToken);
 
     return applyAPISecurityHeaders(response);
 
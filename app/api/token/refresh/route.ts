@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateDoubleSubmitCSRF } from '@/lib/csrf-double-submit';
+import { rotateRefreshToken } from '@/lib/refresh-tokens';
+import {
+  REFRESH_TOKEN_COOKIE,
+  setAccessTokenCookie,
+  setRefreshTokenCookie,
+  clearAuthCookies
+} from '@/lib/auth-cookies';
+import { applyAPISecurityHeaders } from '@/lib/security-headers';
+import {
+  createSecureErrorResponse,
+  handleCSRFError,
+  createGenericErrorResponse
+} from '@/lib/secure-error-handling-enhanced';
+
+// Run on Node.js runtime to support crypto module for JWT
+export const runtime = 'nodejs';
+
+/**
+ * Only allow same-origin relative redirects
+ */
+function getSafeRedirectPath(value: string | null): string {
+  if (!value || !value.startsWith('/') || value.startsWith('//') || value.startsWith('/\\')) {
+    return '/';
+  }
+  return value;
+}
+
+/**
+ * Rotate the refresh cookie for fetch-based clients
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // CRITICAL: CSRF protection for state-changing operation
+    const csrfValid = validateDoubleSubmitCSRF(request);
+    if (!csrfValid) {
+      return handleCSRFError({
+        operation: 'token-refresh',
+        ip: request.headers.get('x-forwarded-for') || 'unknown',
+        userAgent: request.headers.get('user-agent') || 'unknown',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const refreshToken = request.cookies.get(REFRESH_TOKEN_COOKIE)?.value;
+
+    if (!refreshToken) {
+      return createSecureErrorResponse('SESSION_REQUIRED', 401, {
+        operation: 'token-refresh',
+        ip: request.headers.get('x-forwarded-for') || 'unknown',
+        userAgent: request.headers.get('user-agent') || 'unknown',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const result = await rotateRefreshToken(refreshToken);
+
+    if (result.status !== 'rotated') {
+      // Reuse revokes the whole family; either way this browser must log in again
+      const response = createSecureErrorResponse('SESSION_INVALID', 401, {
+        operation: 'token-refresh',
+        ip: request.headers.get('x-forwarded-for') || 'unknown',
+        userAgent: request.headers.get('user-agent') || 'unknown',
+        timestamp: new Date().toISOString(),
+        originalError: result.status === 'reused' ? `Refresh token reuse detected (family ${result.familyId})` : undefined
+      });
+      clearAuthCookies(response);
+      return response;
+    }
+
+    const response = NextResponse.json({ success: true });
+    setAccessTokenCookie(response, result.accessToken);
+    setRefreshTokenCookie(response, result.refreshToken);
+
+    return applyAPISecurityHeaders(response);
+  } catch (error) {
+    return createGenericErrorResponse({
+      operation: 'token-refresh',
+      ip: request.headers.get('x-forwarded-for') || 'unknown',
+      userAgent: request.headers.get('user-agent') || 'unknown',
+      timestamp: new Date().toISOString(),
+      originalError: error
+    });
+  }
+}
+
+/**
+ * Rotate the refresh cookie during page navigation
+ * middleware.ts redirects here when the access token has expired;
+ * the SameSite=Strict refresh cookie is never sent on cross-site requests
+ */
+export async function GET(request: NextRequest) {
+  const redirectPath = getSafeRedirectPath(request.nextUrl.searchParams.get('redirect'));
+  const refreshToken = request.cookies.get(REFRESH_TOKEN_COOKIE)?.value;
+
+  const loginUrl = request.nextUrl.clone();
+  loginUrl.pathname = '/';
+  loginUrl.search = '';
+
+  if (!refreshToken) {
+    return NextResponse.redirect(loginUrl);
+  }
+
+  try {
+    const result = await rotateRefreshToken(refreshToken);
+
+    if (result.status !== 'rotated') {
+      const response = NextResponse.redirect(loginUrl);
+      clearAuthCookies(response);
+      return response;
+    }
+
+    const targetUrl = new URL(redirectPath, request.nextUrl.origin);
+    const response = NextResponse.redirect(targetUrl);
+    setAccessTokenCookie(response, result.accessToken);
+    setRefreshTokenCookie(response, result.refreshToken);
+
+    return response;
+  } catch (error) {
+    console.error('Token refresh failed:', error);
+    return NextResponse.redirect(loginUrl);
+  }
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ACCESS_TOKEN_COOKIE } from '@/lib/auth-cookies';
+import { getActiveSession, isSessionId } from '@/lib/sessions';
+import { generateSupabaseAccessToken, generateSupabaseVerificationToken } from '@/lib/supabase-jwt';
+import { getSupabaseAdmin } from '@/lib/supabaseAdmin';
+import { verifySecureToken } from '@/utils/secureAuth';
+import { applyAPISecurityHeaders } from '@/lib/security-headers';
+import {
+  createSecureErrorResponse,
+  handleDatabaseError,
+  createGenericErrorResponse
+} from '@/lib/secure-error-handling-enhanced';
+
+// Run on Node.js runtime to support crypto module for JWT
+export const runtime = 'nodejs';
+
+/**
+ * Exchange the app session for a short-lived Supabase access token
+ * Used by the browser Supabase client (lib/supabase.ts) so user-scoped reads go through RLS
+ * During signup (verification code in the token) the Supabase token only covers that
+ * verification's status, for the realtime subscription in lib/use-verification-status.ts
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authToken = request.cookies.get(ACCESS_TOKEN_COOKIE)?.value;
+
+    if (!authToken) {
+      return createSecureErrorResponse('AUTH_REQUIRED', 401, {
+        operation: 'supabase-token',
+        ip: request.headers.get('x-forwarded-for') || 'unknown',
+        userAgent: request.headers.get('user-agent') || 'unknown',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const sessionData = verifySecureToken(authToken);
+    if (!sessionData) {
+      return createSecureErrorResponse('AUTH_INVALID', 401, {
+        operation: 'supabase-token',
+        ip: request.headers.get('x-forwarded-for') || 'unknown',
+        userAgent: request.headers.get('user-agent') || 'unknown',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    // Verification-based authentication: scope the token to this verification
+    if (!isSessionId(sessionData.code)) {
+      const supabaseAdmin = getSupabaseAdmin();
+      const { data: verification, error } = await supabaseAdmin
+        .from('verification_codes')
+        .select('id')
+        .eq('code', sessionData.code)
+        .gt('expires_at', new Date().toISOString())
+        .maybeSingle();
+
+      if (error) {
+        return handleDatabaseError(error, 'supabase-token', {
+          operation: 'supabase-token',
+          ip: request.headers.get('x-forwarded-for') || 'unknown',
+          userAgent: request.headers.get('user-agent') || 'unknown',
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      if (!verification) {
+        return createSecureErrorResponse('SESSION_REQUIRED', 401, {
+          operation: 'supabase-token',
+          ip: request.headers.get('x-forwarded-for') || 'unknown',
+          userAgent: request.headers.get('user-agent') || 'unknown',
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      const { accessToken, expiresAt } = generateSupabaseVerificationToken(verification.id);
+      return applyAPISecurityHeaders(NextResponse.json({ success: true, accessToken, expiresAt }));
+    }
+
+    // Password sessions belong to a users row (auth.uid() must be users.id)
+    const session = await getActiveSession(sessionData.code);
+    if (!session) {
+      return createSecureErrorResponse('SESSION_INVALID', 401, {
+        operation: 'supabase-token',
+        ip: request.headers.get('x-forwarded-for') || 'unknown',
+        userAgent: request.headers.get('user-agent') || 'unknown',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const { accessToken, expiresAt } = generateSupabaseAccessToken(session.userId, sessionData.whatsappNumber);
+
+    const response = NextResponse.json({
+      success: true,
+      accessToken,
+      expiresAt
+    });
+
+    return applyAPISecurityHeaders(response);
+  } catch (error) {
+    return createGenericErrorResponse({
+      operation: 'supabase-token',
+      ip: request.headers.get('x-forwarded-for') || 'unknown',
+      userAgent: request.headers.get('user-agent') || 'unknown',
+      timestamp: new Date().toISOString(),
+      originalError: error
+    });
+  }
+}
@@ -2,16 +2,19 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getSupabaseAdmin } from '@/lib/supabaseAdmin';
 import { generateSecureToken } from '@/utils/secureAuth';
 import { validateDoubleSubmitCSRF } from '@/lib/csrf-double-submit';
+import { setAccessTokenCookie } from '@/lib/auth-cookies';
+import { checkCompositeRateLimit, getRateLimitSubjects, withRateLimitHeaders } from '@/lib/rate-limiting';
 import { 
   createSecureErrorResponse, 
   handleDatabaseError, 
   handleValidationError,
   handleCSRFError,
+  handleRateLimitError,
   createGenericErrorResponse,
   sanitizeUserInput
 } from '@/lib/secure-error-handling-enhanced';
 
-export async function POST(request: NextRequest) {
+export const POST = withRateLimitHeaders(async function POST(request: NextRequest) {
   try {
     // CRITICAL: CSRF protection for authentication operation
     const csrfValid = validateDoubleSubmitCSRF(request);
@@ -38,6 +41,17 @@ export async function POST(request: NextRequest) {
       });
     }
 
+    // Rate limit code lookups per IP and overall (codes are guessable in bulk otherwise)
+    const rateLimit = await checkCompositeRateLimit('verifyAndAuth', getRateLimitSubjects(request), request);
+    if (!rateLimit.allowed) {
+      return handleRateLimitError(rateLimit.retryAfter || 900, {
+        operation: 'verify-and-auth',
+        ip: request.headers.get('x-forwarded-for') || 'unknown',
+        userAgent: request.headers.get('user-agent') || 'unknown',
+        timestamp: new Date().toISOString()
+      });
+    }
+
     // Check if the verification code exists and is verified
     const supabaseAdmin = getSupabaseAdmin();
     const { data: verificationData, error } = await supabaseAdmin
@@ -56,6 +70,16 @@ export async function POST(request: NextRequest) {
       });
     }
 
+    const phoneRateLimit = await checkCompositeRateLimit('verifyAndAuth', { phone: verificationData.whatsapp_number }, request);
+    if (!phoneRateLimit.allowed) {
+      return handleRateLimitError(phoneRateLimit.retryAfter || 900, {
+        operation: 'verify-and-auth',
+        ip: request.headers.get('x-forwarded-for') || 'unknown',
+        userAgent: request.headers.get('user-agent') || 'unknown',
+        timestamp: new Date().toISOString()
+      });
+    }
+
     if (!verificationData.verified) {
       return createSecureErrorResponse('VERIFICATION_FAILED', 400, {
         operation: 'verify-and-auth',
@@ -83,10 +107,7 @@ export async function POST(request: NextRequest) {
       },
     });
 
-    response.headers.set(
-      'Set-Cookie',
-      `auth_token=${secureToken}; HttpOnly; Secure; Path=/; Max-Age=${60 * 60}; SameSite=Strict`
-    );
+    setAccessTokenCookie(response, secureToken);
 
     return response;
   } catch (error) {
@@ -98,4 +119,4 @@ export async function POST(request: NextRequest) {
       originalError: error
     });
   }
-}
+});
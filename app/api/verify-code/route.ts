@@ -0,0 +1,149 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseAdmin } from '@/lib/supabaseAdmin';
+import { validateVerificationCode } from '@/lib/security';
+import { generateSecureToken } from '@/utils/secureAuth';
+import { validateDoubleSubmitCSRF } from '@/lib/csrf-double-submit';
+import { checkRateLimit, withRateLimitHeaders } from '@/lib/rate-limiting';
+import { MAX_CODE_ATTEMPTS } from '@/lib/otp-delivery';
+import { applyAPISecurityHeaders } from '@/lib/security-headers';
+import { setAccessTokenCookie } from '@/lib/auth-cookies';
+import {
+  handleDatabaseError,
+  handleValidationError,
+  handleVerificationError,
+  handleRateLimitError,
+  handleCSRFError,
+  createGenericErrorResponse,
+  sanitizeUserInput
+} from '@/lib/secure-error-handling-enhanced';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Confirm a code that was pushed to the user's WhatsApp (outbound delivery mode)
+ * Issues the session cookie only after the typed code matches
+ */
+export const POST = withRateLimitHeaders(async function POST(request: NextRequest) {
+  try {
+    // Rate limiting for code guesses
+    const rateLimit = await checkRateLimit(request, 'verifyCode');
+    if (!rateLimit.allowed) {
+      return handleRateLimitError(rateLimit.retryAfter || 900, {
+        operation: 'verify-code',
+        ip: request.headers.get('x-forwarded-for') || 'unknown',
+        userAgent: request.headers.get('user-agent') || 'unknown',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    // CRITICAL: CSRF protection for authentication operation
+    const csrfValid = validateDoubleSubmitCSRF(request);
+    if (!csrfValid) {
+      return handleCSRFError({
+        operation: 'verify-code',
+        ip: request.headers.get('x-forwarded-for') || 'unknown',
+        userAgent: request.headers.get('user-agent') || 'unknown',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const { verificationId, code } = await request.json();
+
+    // Sanitize user input
+    const sanitizedId = sanitizeUserInput(verificationId);
+    const sanitizedCode = sanitizeUserInput(code);
+
+    // Validate inputs
+    let validatedCode: string;
+
+    try {
+      if (typeof sanitizedId !== 'string' || !UUID_PATTERN.test(sanitizedId)) {
+        throw new Error('Invalid verification id');
+      }
+      validatedCode = validateVerificationCode(
+        typeof sanitizedCode === 'string' ? sanitizedCode.toUpperCase() : sanitizedCode
+      );
+    } catch (error: any) {
+      return handleValidationError([error.message], {
+        operation: 'verify-code',
+        ip: request.headers.get('x-forwarded-for') || 'unknown',
+        userAgent: request.headers.get('user-agent') || 'unknown',
+        timestamp: new Date().toISOString(),
+        originalError: error
+      });
+    }
+
+    // Check the guess and count it in one step (concurrent guesses can't share an
+    // attempt), consuming the code when it matches so it works only once
+    const supabaseAdmin = getSupabaseAdmin();
+    const { data: result, error: verifyError } = await supabaseAdmin
+      .rpc('verify_outbound_code', {
+        p_id: sanitizedId,
+        p_code: validatedCode,
+        p_max_attempts: MAX_CODE_ATTEMPTS,
+      });
+
+    if (verifyError) {
+      return handleDatabaseError(verifyError, 'verify-code', {
+        operation: 'verify-code',
+        ip: request.headers.get('x-forwarded-for') || 'unknown',
+        userAgent: request.headers.get('user-agent') || 'unknown',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    if (result !== 'verified') {
+      // Unknown, expired, already used, or burnt by too many wrong guesses
+      return handleVerificationError(result === 'invalid' ? 'CODE_INVALID' : 'CODE_EXPIRED', {
+        operation: 'verify-code',
+        ip: request.headers.get('x-forwarded-for') || 'unknown',
+        userAgent: request.headers.get('user-agent') || 'unknown',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const { data: verificationData, error: lookupError } = await supabaseAdmin
+      .from('verification_codes')
+      .select('code, name, whatsapp_number')
+      .eq('id', sanitizedId)
+      .single();
+
+    if (lookupError || !verificationData) {
+      return handleDatabaseError(lookupError, 'verify-code', {
+        operation: 'verify-code',
+        ip: request.headers.get('x-forwarded-for') || 'unknown',
+        userAgent: request.headers.get('user-agent') || 'unknown',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    // Generate JWT token for the verified user
+    const secureToken = generateSecureToken({
+      code: verificationData.code,
+      name: verificationData.name,
+      whatsappNumber: verificationData.whatsapp_number,
+      verified: true,
+    });
+
+    const response = NextResponse.json({
+      success: true,
+      data: {
+        code: verificationData.code,
+        name: verificationData.name,
+        verified: true,
+      },
+    });
+
+    setAccessTokenCookie(response, secureToken);
+
+    return applyAPISecurityHeaders(response);
+  } catch (error) {
+    return createGenericErrorResponse({
+      operation: 'verify-code',
+      ip: request.headers.get('x-forwarded-for') || 'unknown',
+      userAgent: request.headers.get('user-agent') || 'unknown',
+      timestamp: new Date().toISOString(),
+      originalError: error
+    });
+  }
+});
@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { createHash, timingSafeEqual } from 'crypto';
+import { getServerEnv } from '@/lib/server-env';
+import { getMessagingProvider } from '@/lib/messaging';
+import { processOutbox } from '@/lib/message-outbox';
+import { logSecurityEvent } from '@/lib/webhook-security';
+import { processWebhookDelivery, WebhookDeliverySummary } from '@/lib/inbound-webhook';
+import { getWebhookEvent } from '@/lib/webhook-events';
+import {
+  createSecureErrorResponse,
+  handleConfigError,
+  createGenericErrorResponse,
+  sanitizeUserInput
+} from '@/lib/secure-error-handling-enhanced';
+
+const MAX_EVENTS_PER_REQUEST = 50;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+interface ReplayResult {
+  id: string;
+  // not_found, unverified (bad signature: never replayed), provider_mismatch (stored
+  // for a different MESSAGING_PROVIDER), failed (body couldn't be parsed)
+  result: 'replayed' | 'not_found' | 'unverified' | 'provider_mismatch' | 'failed';
+  summary?: WebhookDeliverySummary;
+}
+
+/**
+ * Re-run processing of stored webhook deliveries (see scripts/webhook-events.js)
+ * Body: { "eventIds": ["<uuid>", ...], "force": false }, with
+ * "Authorization: Bearer <CRON_SECRET>". The signature isn't checked again: only
+ * events whose signature was valid when they arrived are replayed. Messages that were
+ * already handled are skipped unless force is set.
+ */
+export async function POST(request: NextRequest) {
+  let cronSecret: string;
+  try {
+    cronSecret = getServerEnv('CRON_SECRET');
+  } catch (error) {
+    return handleConfigError(error, 'webhook-replay', {
+      operation: 'webhook-replay',
+      ip: request.headers.get('x-forwarded-for') || 'unknown',
+      userAgent: request.headers.get('user-agent') || 'unknown',
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  // Compare digests so the check takes the same time whatever the token length
+  const presented = (request.headers.get('authorization') || '').replace(/^Bearer /, '');
+  if (!presented || !timingSafeEqual(hashToken(presented), hashToken(cronSecret))) {
+    return createSecureErrorResponse('AUTH_INVALID', 401, {
+      operation: 'webhook-replay',
+      ip: request.headers.get('x-forwarded-for') || 'unknown',
+      userAgent: request.headers.get('user-agent') || 'unknown',
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  let eventIds: unknown;
+  let force: unknown;
+  try {
+    ({ eventIds, force } = await request.json());
+  } catch {
+    eventIds = null;
+  }
+
+  if (
+    !Array.isArray(eventIds) ||
+    eventIds.length === 0 ||
+    eventIds.length > MAX_EVENTS_PER_REQUEST ||
+    !eventIds.every(id => typeof id === 'string' && UUID_PATTERN.test(id))
+  ) {
+    return createSecureErrorResponse('INVALID_INPUT', 400, {
+      operation: 'webhook-replay',
+      ip: request.headers.get('x-forwarded-for') || 'unknown',
+      userAgent: request.headers.get('user-agent') || 'unknown',
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  try {
+    const provider = getMessagingProvider();
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || new URL(request.url).origin;
+    const results: ReplayResult[] = [];
+    let replayedMessages = 0;
+
+    for (const id of eventIds as string[]) {
+      const event = await getWebhookEvent(id);
+
+      if (!event) {
+        results.push({ id, result: 'not_found' });
+        continue;
+      }
+      if (!event.signature_valid) {
+        results.push({ id, result: 'unverified' });
+        continue;
+      }
+      if (event.provider !== provider.name) {
+        results.push({ id, result: 'provider_mismatch' });
+        continue;
+      }
+
+      logSecurityEvent('webhook_replayed', { eventId: id, force: force === true });
+
+      try {
+        const summary = await processWebhookDelivery(
+          { rawBody: event.raw_body, headers: new Headers(), url: event.request_url },
+          { eventId: id, appUrl, replayCount: event.replay_count + 1, force: force === true }
+        );
+        replayedMessages += summary.received;
+        results.push({ id, result: 'replayed', summary });
+      } catch (error) {
+        console.error(`Error replaying webhook event ${id}:`, sanitizeUserInput(error instanceof Error ? error.message : error));
+        results.push({ id, result: 'failed' });
+      }
+    }
+
+    // Send the replies the replay queued
+    if (replayedMessages > 0) {
+      after(async () => {
+        try {
+          await processOutbox(replayedMessages);
+        } catch (error) {
+          console.error('Outbox run after webhook replay failed:', sanitizeUserInput(error));
+        }
+      });
+    }
+
+    return NextResponse.json({ success: true, results });
+  } catch (error) {
+    return createGenericErrorResponse({
+      operation: 'webhook-replay',
+      ip: request.headers.get('x-forwarded-for') || 'unknown',
+      userAgent: request.headers.get('user-agent') || 'unknown',
+      timestamp: new Date().toISOString(),
+      originalError: error
+    });
+  }
+}
+
+function hashToken(token: string): Buffer {
+  return createHash('sha256').update(token).digest();
+}
@@ -0,0 +1,196 @@
+'use client';
+
+import { Suspense, useCallback, useEffect, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+
+interface SimulatedMessage {
+  id: string;
+  direction: 'inbound' | 'outbound';
+  text: string;
+  buttons?: { id: string; title: string }[];
+  status?: 'sent' | 'delivered' | 'read';
+  timestamp: string;
+}
+
+// Inlined at build time, so production builds never render the phone
+const simulatorEnabled =
+  process.env.NODE_ENV !== 'production' && process.env.NEXT_PUBLIC_WHATSAPP_SIMULATOR === 'true';
+
+/**
+ * Simulated WhatsApp phone (development only)
+ * Shows what the app sent to a number and sends signed inbound messages (and taps on
+ * the app's reply buttons) to the webhook.
+ * Signup opens it as /dev/phone?from=<number>&text=<message> when the simulator is on.
+ */
+function SimulatedPhone() {
+  const searchParams = useSearchParams();
+  const [number, setNumber] = useState(searchParams.get('from') || '');
+  const [text, setText] = useState(searchParams.get('text') || '');
+  const [messages, setMessages] = useState<SimulatedMessage[]>([]);
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadConversation = useCallback(async () => {
+    if (!number.replace(/\D/g, '')) {
+      setMessages([]);
+      return;
+    }
+
+    // Having the conversation open counts as reading it
+    const response = await fetch(`/api/dev/whatsapp/phone?number=${encodeURIComponent(number)}&read=1`);
+    if (response.ok) {
+      const data = await response.json();
+      setMessages(data.messages);
+    }
+  }, [number]);
+
+  // Poll for the app's replies
+  useEffect(() => {
+    loadConversation();
+    const interval = setInterval(loadConversation, 2000);
+    return () => clearInterval(interval);
+  }, [loadConversation]);
+
+  // Post a message or button tap from the simulated phone to the webhook
+  const deliver = async (message: { text: string } | { button: string }) => {
+    setSending(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/dev/whatsapp/phone', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ from: number, ...message }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to send');
+      } else if (data.webhookStatus !== 200) {
+        setError(`Webhook responded with HTTP ${data.webhookStatus}`);
+      } else if ('text' in message) {
+        setText('');
+      }
+
+      await loadConversation();
+    } catch (err) {
+      setError('Something went wrong. Please try again.');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await deliver({ text });
+  };
+
+  const handleClear = async () => {
+    await fetch(`/api/dev/whatsapp/phone?number=${encodeURIComponent(number)}`, { method: 'DELETE' });
+    await loadConversation();
+  };
+
+  if (!simulatorEnabled) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-100">
+        <p className="text-gray-600">
+          The WhatsApp simulator is off. Set NEXT_PUBLIC_WHATSAPP_SIMULATOR=true in development.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-100 p-4">
+      <div className="bg-white rounded-3xl shadow-xl max-w-sm w-full overflow-hidden flex flex-col h-[640px]">
+        <div className="bg-green-700 text-white p-4">
+          <p className="text-xs uppercase tracking-wide opacity-75">WhatsApp simulator</p>
+          <div className="flex items-center gap-2 mt-1">
+            <input
+              type="tel"
+              value={number}
+              onChange={(e) => setNumber(e.target.value)}
+              className="flex-1 bg-green-800 rounded px-2 py-1 text-white placeholder-green-300"
+              placeholder="Your number, e.g. +15551234567"
+            />
+            <button
+              onClick={handleClear}
+              disabled={!number}
+              className="text-xs text-green-100 hover:text-white"
+            >
+              Clear
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-2 bg-[#ece5dd]">
+          {messages.length === 0 && (
+            <p className="text-center text-sm text-gray-500">No messages yet</p>
+          )}
+          {messages.map((message) => (
+            <div
+              key={message.id}
+              className={`max-w-[80%] rounded-lg px-3 py-2 text-sm shadow whitespace-pre-wrap break-words ${
+                message.direction === 'inbound' ? 'ml-auto bg-[#dcf8c6]' : 'bg-white'
+              }`}
+            >
+              {message.text}
+              <div className="text-[10px] text-gray-400 text-right mt-1">
+                {new Date(message.timestamp).toLocaleTimeString()}
+                {message.status === 'read' && <span className="text-blue-500"> ✓✓</span>}
+              </div>
+              {message.buttons?.map((button) => (
+                <button
+                  key={button.id}
+                  onClick={() => deliver({ button: button.id })}
+                  disabled={sending}
+                  className="block w-full border-t mt-1 pt-1 text-center text-sm font-medium text-sky-600 hover:text-sky-700 disabled:text-gray-400"
+                >
+                  {button.title}
+                </button>
+              ))}
+            </div>
+          ))}
+        </div>
+
+        {error && (
+          <div className="bg-red-50 text-red-600 p-2 text-sm">
+            {error}
+          </div>
+        )}
+
+        <form onSubmit={handleSend} className="flex gap-2 p-3 border-t">
+          <input
+            type="text"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-full focus:ring-2 focus:ring-green-500 focus:border-transparent"
+            placeholder="Message"
+          />
+          <button
+            type="submit"
+            disabled={sending || !number || !text.trim()}
+            className="bg-green-600 hover:bg-green-700 disabled:bg-green-300 text-white font-semibold px-4 rounded-full"
+          >
+            {sending ? '…' : 'Send'}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+export default function SimulatedPhonePage() {
+  // useSearchParams requires a Suspense boundary
+  return (
+    <Suspense
+      fallback={
+        <div className="min-h-screen flex items-center justify-center bg-gray-100">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-green-600"></div>
+        </div>
+      }
+    >
+      <SimulatedPhone />
+    </Suspense>
+  );
+}
@@ -1,17 +1,62 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAuthenticatedRequest } from '@/lib/use-csrf';
+import { continueAfterAuth, rememberPostAuthRedirect } from '@/lib/post-auth-redirect';
 
 export default function LoginPage() {
   const [phone, setPhone] = useState('');
   const [password, setPassword] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
+  // Set while the owner is asked "Was this you?" on WhatsApp
+  const [approvalToken, setApprovalToken] = useState<string | null>(null);
   const router = useRouter();
   const { makeRequest, isLoading: csrfLoading } = useAuthenticatedRequest();
 
+  // Another app may have sent the user here (?next=/api/oauth/authorize...)
+  useEffect(() => {
+    rememberPostAuthRedirect();
+  }, []);
+
+  // Poll until the login is approved or turned down on WhatsApp
+  useEffect(() => {
+    if (!approvalToken) {
+      return;
+    }
+
+    const interval = setInterval(async () => {
+      try {
+        const response = await makeRequest('/api/login-approval', {
+          method: 'POST',
+          body: JSON.stringify({ approvalToken }),
+        });
+
+        if (response.status === 202) {
+          return;
+        }
+
+        const data = await response.json();
+        setApprovalToken(null);
+
+        if (data.success) {
+          continueAfterAuth(() => router.push('/protected'));
+        } else if (data.code === 'LOGIN_DENIED') {
+          setError('This sign-in was blocked from WhatsApp.');
+        } else if (data.code === 'AUTH_EXPIRED') {
+          setError('The sign-in wasn\'t confirmed in time. Please log in again.');
+        } else {
+          setError(data.error || 'Login failed');
+        }
+      } catch (err) {
+        // Keep polling; a dropped request shouldn't end the wait
+      }
+    }, 2000);
+
+    return () => clearInterval(interval);
+  }, [approvalToken, makeRequest, router]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
@@ -25,9 +70,11 @@ export default function LoginPage() {
 
       const data = await response.json();
 
-      if (data.success) {
-        // Redirect to protected page
-        router.push('/protected');
+      if (data.approvalRequired) {
+        setApprovalToken(data.approvalToken);
+      } else if (data.success) {
+        // Continue the sign-in that sent the user here, or go to the protected page
+        continueAfterAuth(() => router.push('/protected'));
       } else {
         setError(data.error || 'Login failed');
       }
@@ -59,51 +106,66 @@ export default function LoginPage() {
           </p>
         </div>
 
-        <form onSubmit={handleSubmit} className="space-y-6">
-          <div>
-            <label htmlFor="phone" className="block text-sm font-medium text-gray-700 mb-2">
-              Phone Number
-            </label>
-            <input
-              id="phone"
-              type="tel"
-              value={phone}
-              onChange={(e) => setPhone(e.target.value)}
-              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              placeholder="+1234567890"
-              required
-            />
-          </div>
-
-          <div>
-            <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
-              Password
-            </label>
-            <input
-              id="password"
-              type="password"
-              value={password}
-              onChange={(e) => setPassword(e.target.value)}
-              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              placeholder="Enter your password"
-              required
-            />
+        {approvalToken ? (
+          <div className="text-center space-y-4">
+            <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-green-600 mx-auto"></div>
+            <p className="text-gray-700">
+              We sent a message to your WhatsApp. Tap <span className="font-semibold">"Yes, it's me"</span> there to finish signing in.
+            </p>
+            <button
+              onClick={() => setApprovalToken(null)}
+              className="text-sm text-blue-600 hover:text-blue-700 font-medium"
+            >
+              Cancel
+            </button>
           </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div>
+              <label htmlFor="phone" className="block text-sm font-medium text-gray-700 mb-2">
+                Phone Number
+              </label>
+              <input
+                id="phone"
+                type="tel"
+                value={phone}
+                onChange={(e) => setPhone(e.target.value)}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="+1234567890"
+                required
+              />
+            </div>
 
-          {error && (
-            <div className="bg-red-50 text-red-600 p-3 rounded-lg text-sm">
-              {error}
+            <div>
+              <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
+                Password
+              </label>
+              <input
+                id="password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="Enter your password"
+                required
+              />
             </div>
-          )}
-
-          <button
-            type="submit"
-            disabled={loading}
-            className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 text-white font-semibold py-3 px-6 rounded-lg transition duration-200"
-          >
-            {loading ? 'Logging in...' : 'Login'}
-          </button>
-        </form>
+
+            {error && (
+              <div className="bg-red-50 text-red-600 p-3 rounded-lg text-sm">
+                {error}
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={loading}
+              className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 text-white font-semibold py-3 px-6 rounded-lg transition duration-200"
+            >
+              {loading ? 'Logging in...' : 'Login'}
+            </button>
+          </form>
+        )}
 
         <div className="mt-6 text-center">
           <p className="text-sm text-gray-600">
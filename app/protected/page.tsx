@@ -3,10 +3,11 @@
 import { useRouter } from 'next/navigation';
 import { useVerificationStatus } from '@/lib/use-verification-status';
 import { useState, useEffect } from 'react';
+import { fetchWithTokenRefresh } from '@/lib/token-refresh-client';
 
 export default function ProtectedPage() {
   const router = useRouter();
-  const { loading, verified, name, error, logout } = useVerificationStatus({
+  const { loading, verified, name, error, logout, logoutAllDevices } = useVerificationStatus({
     enableRealtime: false, // No need for realtime on protected page
     autoRedirect: false,
   });
@@ -18,21 +19,13 @@ export default function ProtectedPage() {
   useEffect(() => {
     const checkAuthMethod = async () => {
       try {
-        const response = await fetch('/api/session', {
-          credentials: 'include',
-        });
+        const response = await fetchWithTokenRefresh('/api/session');
         
         if (response.ok) {
           const data = await response.json();
           if (data.success) {
-            // Check if this is a password-authenticated user (user ID as code) or verification-based
-            if (data.data.code && data.data.code.length > 10) {
-              // This looks like a user ID, so it's password authentication
-              setAuthMethod('password');
-            } else {
-              // This is verification-based authentication
-              setAuthMethod('verification');
-            }
+            // Password session or verification-based authentication
+            setAuthMethod(data.data.authMethod === 'password' ? 'password' : 'verification');
           } else {
             // Not authenticated, redirect to login
             router.push('/login');
@@ -88,12 +81,22 @@ export default function ProtectedPage() {
                 }
               </p>
             </div>
-            <button
-              onClick={logout}
-              className="bg-red-500 hover:bg-red-600 text-white font-semibold py-2 px-6 rounded-lg transition duration-200"
-            >
-              Logout
-            </button>
+            <div className="flex space-x-3">
+              {authMethod === 'password' && (
+                <button
+                  onClick={logoutAllDevices}
+                  className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-semibold py-2 px-6 rounded-lg transition duration-200"
+                >
+                  Sign out everywhere
+                </button>
+              )}
+              <button
+                onClick={logout}
+                className="bg-red-500 hover:bg-red-600 text-white font-semibold py-2 px-6 rounded-lg transition duration-200"
+              >
+                Logout
+              </button>
+            </div>
           </div>
 
           <div className="space-y-6">
@@ -121,6 +124,14 @@ export default function ProtectedPage() {
               <p className="text-blue-700">
                 Your session is protected with enterprise-grade security measures.
               </p>
+              {authMethod === 'password' && (
+                <button
+                  onClick={() => router.push('/protected/sessions')}
+                  className="mt-4 text-blue-600 hover:text-blue-800 font-medium"
+                >
+                  Manage your devices →
+                </button>
+              )}
             </div>
           </div>
         </div>
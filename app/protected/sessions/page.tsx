@@ -0,0 +1,175 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuthenticatedRequest } from '@/lib/use-csrf';
+import { fetchWithTokenRefresh } from '@/lib/token-refresh-client';
+
+interface DeviceSession {
+  id: string;
+  browser: string;
+  os: string;
+  deviceType: 'desktop' | 'mobile' | 'tablet';
+  location: string | null;
+  createdAt: string;
+  lastActiveAt: string;
+  current: boolean;
+}
+
+const DEVICE_ICONS: Record<DeviceSession['deviceType'], string> = {
+  desktop: '💻',
+  mobile: '📱',
+  tablet: '📟',
+};
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleString();
+}
+
+export default function SessionsPage() {
+  const router = useRouter();
+  const { makeRequest } = useAuthenticatedRequest();
+  const [sessions, setSessions] = useState<DeviceSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [revoking, setRevoking] = useState<string | null>(null);
+
+  const loadSessions = useCallback(async () => {
+    try {
+      const response = await fetchWithTokenRefresh('/api/sessions');
+
+      if (response.status === 401) {
+        router.push('/login');
+        return;
+      }
+
+      const data = await response.json();
+
+      if (data.success) {
+        setSessions(data.sessions);
+      } else {
+        setError(data.error || 'Failed to load your devices');
+      }
+    } catch (err) {
+      setError('Something went wrong. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [router]);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const handleRevoke = async (session: DeviceSession) => {
+    setRevoking(session.id);
+    setError('');
+
+    try {
+      const response = await makeRequest('/api/sessions/revoke', {
+        method: 'POST',
+        body: JSON.stringify({ sessionId: session.id }),
+      });
+
+      const data = await response.json();
+
+      if (!data.success) {
+        setError(data.error || 'Failed to sign out this device');
+        return;
+      }
+
+      // Signing out this device ends the current session
+      if (data.current) {
+        router.push('/');
+        return;
+      }
+
+      setSessions(prev => prev.filter(item => item.id !== session.id));
+    } catch (err) {
+      setError('Something went wrong. Please try again.');
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 py-12 px-4">
+      <div className="max-w-4xl mx-auto">
+        <div className="bg-white rounded-2xl shadow-xl p-8">
+          <div className="flex justify-between items-center mb-8">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">
+                Your devices
+              </h1>
+              <p className="text-gray-600 mt-2">
+                These devices are currently signed in to your account. Sign out any you don&apos;t recognize.
+              </p>
+            </div>
+            <button
+              onClick={() => router.push('/protected')}
+              className="text-blue-600 hover:text-blue-800 font-medium"
+            >
+              ← Back
+            </button>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 text-red-600 p-3 rounded-lg text-sm mb-6">
+              {error}
+            </div>
+          )}
+
+          <ul className="space-y-4">
+            {sessions.map(session => (
+              <li
+                key={session.id}
+                className={`border rounded-lg p-6 flex justify-between items-center ${
+                  session.current ? 'border-green-300 bg-green-50' : 'border-gray-200'
+                }`}
+              >
+                <div className="flex items-start space-x-4">
+                  <div className="text-3xl">{DEVICE_ICONS[session.deviceType]}</div>
+                  <div>
+                    <p className="font-semibold text-gray-900">
+                      {session.browser} on {session.os}
+                      {session.current && (
+                        <span className="ml-2 text-xs font-medium text-green-700 bg-green-100 px-2 py-1 rounded-full">
+                          This device
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-sm text-gray-600">
+                      {session.location || 'Unknown location'}
+                    </p>
+                    <p className="text-sm text-gray-500">
+                      Signed in {formatDate(session.createdAt)} · Last active {formatDate(session.lastActiveAt)}
+                    </p>
+                  </div>
+                </div>
+                <button
+                  onClick={() => handleRevoke(session)}
+                  disabled={revoking === session.id}
+                  className="bg-red-500 hover:bg-red-600 disabled:bg-gray-400 text-white font-semibold py-2 px-4 rounded-lg transition duration-200"
+                >
+                  {revoking === session.id ? 'Signing out...' : 'Sign out'}
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          {sessions.length === 0 && !error && (
+            <p className="text-gray-600 text-center">No active sessions found.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+'use client';
+
+import { Suspense, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { useAuthenticatedRequest } from '@/lib/use-csrf';
+
+/**
+ * Landing page of the link the bot sends for RESET on WhatsApp
+ * The one-time link is only used up when the user presses the button, not when
+ * the page is merely opened (link previews, prefetching).
+ */
+function ContinueReset() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token') || '';
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const router = useRouter();
+  const { makeRequest, isLoading: csrfLoading } = useAuthenticatedRequest();
+
+  const handleContinue = async () => {
+    setLoading(true);
+    setError('');
+
+    try {
+      const response = await makeRequest('/api/reset-link', {
+        method: 'POST',
+        body: JSON.stringify({ token }),
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        router.push('/set-password');
+      } else {
+        setError('This link has expired or was already used. Send RESET to the WhatsApp bot again for a new one.');
+      }
+    } catch (err) {
+      setError('Something went wrong. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Show loading if CSRF token is being fetched
+  if (csrfLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100">
+      <div className="bg-white p-8 rounded-2xl shadow-xl max-w-md w-full text-center space-y-6">
+        <h1 className="text-3xl font-bold text-gray-900">
+          Reset Password
+        </h1>
+        <p className="text-gray-600">
+          You asked for a password reset on WhatsApp. Continue to choose a new password.
+        </p>
+
+        {error && (
+          <div className="bg-red-50 text-red-600 p-3 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+
+        <button
+          onClick={handleContinue}
+          disabled={loading || !token}
+          className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 text-white font-semibold py-3 px-6 rounded-lg transition duration-200"
+        >
+          {loading ? 'Checking link...' : 'Choose a New Password'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default function ContinueResetPage() {
+  // useSearchParams requires a Suspense boundary
+  return (
+    <Suspense
+      fallback={
+        <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      }
+    >
+      <ContinueReset />
+    </Suspense>
+  );
+}
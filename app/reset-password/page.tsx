@@ -26,7 +26,10 @@ export default function ResetPasswordPage() {
 
       const data = await response.json();
 
-      if (data.success) {
+      if (data.success && data.deliveryMode === 'outbound') {
+        // Reset code was pushed to WhatsApp - collect it on the code-entry step
+        router.push(`/verify-code?id=${encodeURIComponent(data.verificationId)}`);
+      } else if (data.success) {
         setSuccess(true);
         setCode(data.code);
         
@@ -38,7 +41,10 @@ export default function ResetPasswordPage() {
         const message = messageTemplate.replace('{CODE}', data.code);
         const encodedMessage = encodeURIComponent(message);
         
-        const whatsappUrl = `https://wa.me/${botNumber}?text=${encodedMessage}`;
+        // In development the local simulator stands in for the user's phone
+        const whatsappUrl = process.env.NEXT_PUBLIC_WHATSAPP_SIMULATOR === 'true' && process.env.NODE_ENV !== 'production'
+          ? `/dev/phone?from=${encodeURIComponent(phone)}&text=${encodedMessage}`
+          : `https://wa.me/${botNumber}?text=${encodedMessage}`;
         
         // Open WhatsApp in new tab
         window.open(whatsappUrl, '_blank');
@@ -4,6 +4,7 @@ import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { useVerificationStatus } from '@/lib/use-verification-status';
 import { useAuthenticatedRequest } from '@/lib/use-csrf';
+import { continueAfterAuth } from '@/lib/post-auth-redirect';
 export default function SetPasswordPage() {
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
@@ -64,7 +65,7 @@ export default function SetPasswordPage() {
         if (data.success) {
           // Redirect to protected page with a small delay to ensure cookie is set
           setTimeout(() => {
-            router.push('/protected');
+            continueAfterAuth(() => router.push('/protected'));
           }, 100);
         } else {
           // Check if user already exists
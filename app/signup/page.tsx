@@ -25,7 +25,10 @@ export default function SignUpPage() {
 
       const data = await response.json();
 
-      if (data.success) {
+      if (data.success && data.deliveryMode === 'outbound') {
+        // Code was pushed to the user's WhatsApp - collect it on the code-entry step
+        router.push(`/verify-code?id=${encodeURIComponent(data.verificationId)}`);
+      } else if (data.success) {
         // Clean phone number and construct WhatsApp URL
         let botNumber = process.env.NEXT_PUBLIC_WHATSAPP_BOT_NUMBER || '';
         botNumber = botNumber.replace(/[\s\-\(\)\+]/g, '');
@@ -34,7 +37,10 @@ export default function SignUpPage() {
         const message = messageTemplate.replace('{CODE}', data.code);
         const encodedMessage = encodeURIComponent(message);
         
-        const whatsappUrl = `https://wa.me/${botNumber}?text=${encodedMessage}`;
+        // In development the local simulator stands in for the user's phone
+        const whatsappUrl = process.env.NEXT_PUBLIC_WHATSAPP_SIMULATOR === 'true' && process.env.NODE_ENV !== 'production'
+          ? `/dev/phone?from=${encodeURIComponent(whatsappNumber)}&text=${encodedMessage}`
+          : `https://wa.me/${botNumber}?text=${encodedMessage}`;
         
         // Redirect to verification status page
         router.push('/verification-status');
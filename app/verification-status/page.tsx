@@ -4,10 +4,19 @@ import { useRouter } from 'next/navigation';
 import { useVerificationStatus } from '@/lib/use-verification-status';
 import { useAuthenticatedRequest } from '@/lib/use-csrf';
 
+// How far our latest WhatsApp message got (from the provider's status callbacks)
+const DELIVERY_LABELS: Record<string, string> = {
+  accepted: '🕓 Message sent to WhatsApp',
+  sent: '✓ Message sent',
+  delivered: '✓✓ Message delivered',
+  read: '✓✓ Message read',
+  failed: '⚠️ Message could not be delivered',
+};
+
 export default function VerificationStatus() {
   const router = useRouter();
   const { makeRequest } = useAuthenticatedRequest();
-  const { loading, verified, code, name, error, cacheStats, refresh } = useVerificationStatus({
+  const { loading, verified, code, name, error, delivery, cacheStats, refresh } = useVerificationStatus({
     enableRealtime: true,
     autoRedirect: true,
   });
@@ -39,7 +48,12 @@ export default function VerificationStatus() {
     const message = messageTemplate.replace('{CODE}', code || '');
     const encodedMessage = encodeURIComponent(message);
     
-    window.open(`https://wa.me/${botNumber}?text=${encodedMessage}`, '_blank');
+    // In development the local simulator stands in for the user's phone
+    const whatsappUrl = process.env.NEXT_PUBLIC_WHATSAPP_SIMULATOR === 'true' && process.env.NODE_ENV !== 'production'
+      ? `/dev/phone?text=${encodedMessage}`
+      : `https://wa.me/${botNumber}?text=${encodedMessage}`;
+
+    window.open(whatsappUrl, '_blank');
   };
 
   // Handle authentication errors
@@ -102,6 +116,23 @@ export default function VerificationStatus() {
           )}
         </div>
         
+        {delivery && (
+          <div
+            className={`mt-4 p-3 rounded-lg text-sm text-center ${
+              delivery.status === 'failed' ? 'bg-red-50 text-red-600' : 'bg-gray-50 text-gray-600'
+            }`}
+          >
+            {DELIVERY_LABELS[delivery.status]}
+            {delivery.status === 'failed' && delivery.errorTitle && ` (${delivery.errorTitle})`}
+            <button
+              onClick={refresh}
+              className="ml-2 text-blue-600 hover:text-blue-700 font-medium"
+            >
+              Refresh
+            </button>
+          </div>
+        )}
+        
         <div className="mt-6 text-center">
           <p className="text-sm text-gray-600">
             Already have an account?{' '}
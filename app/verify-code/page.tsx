@@ -0,0 +1,132 @@
+'use client';
+
+import { Suspense, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { useAuthenticatedRequest } from '@/lib/use-csrf';
+
+function VerifyCodeForm() {
+  const [code, setCode] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const verificationId = searchParams.get('id');
+  const { makeRequest, isLoading: csrfLoading } = useAuthenticatedRequest();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError('');
+
+    try {
+      const response = await makeRequest('/api/verify-code', {
+        method: 'POST',
+        body: JSON.stringify({ verificationId, code: code.trim().toUpperCase() }),
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        // JWT token is now set, continue to password setup
+        router.push('/set-password');
+      } else {
+        setError(data.error || 'Verification failed');
+      }
+    } catch (err) {
+      setError('Something went wrong. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Show loading if CSRF token is being fetched
+  if (csrfLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100">
+      <div className="bg-white p-8 rounded-2xl shadow-xl max-w-md w-full">
+        <div className="text-center mb-8">
+          <div className="text-green-500 text-6xl mb-4">💬</div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">
+            Enter Your Code
+          </h1>
+          <p className="text-gray-600">
+            We sent a 6-character verification code to your WhatsApp
+          </p>
+        </div>
+
+        {!verificationId ? (
+          <div className="bg-red-50 text-red-600 p-3 rounded-lg text-sm">
+            This verification link is invalid. Please start again.
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div>
+              <label htmlFor="code" className="block text-sm font-medium text-gray-700 mb-2">
+                Verification Code
+              </label>
+              <input
+                id="code"
+                type="text"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-center text-2xl tracking-widest uppercase"
+                placeholder="AB12CD"
+                maxLength={6}
+                autoComplete="one-time-code"
+                required
+              />
+            </div>
+
+            {error && (
+              <div className="bg-red-50 text-red-600 p-3 rounded-lg text-sm">
+                {error}
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={loading || code.trim().length !== 6}
+              className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 text-white font-semibold py-3 px-6 rounded-lg transition duration-200"
+            >
+              {loading ? 'Verifying...' : 'Verify Code'}
+            </button>
+          </form>
+        )}
+
+        <div className="mt-6 text-center">
+          <p className="text-sm text-gray-600">
+            Didn't get a code?{' '}
+            <button
+              onClick={() => router.push('/signup')}
+              className="text-blue-600 hover:text-blue-700 font-medium"
+            >
+              Start again
+            </button>
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function VerifyCodePage() {
+  // useSearchParams requires a Suspense boundary
+  return (
+    <Suspense
+      fallback={
+        <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      }
+    >
+      <VerifyCodeForm />
+    </Suspense>
+  );
+}
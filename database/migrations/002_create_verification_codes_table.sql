@@ -0,0 +1,43 @@
+-- Create verification_codes table for WhatsApp verification
+-- Each row is a short-lived code issued by /api/generate-code or /api/reset-password
+
+CREATE TABLE IF NOT EXISTS verification_codes (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  code VARCHAR(6) UNIQUE NOT NULL,
+  name VARCHAR(255) NOT NULL,
+  whatsapp_number VARCHAR(20) NOT NULL,
+  verified BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  verified_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+-- Codes are looked up by value together with expiry
+CREATE INDEX IF NOT EXISTS idx_verification_codes_code_expires ON verification_codes(code, expires_at);
+
+-- Create index on WhatsApp number for per-number lookups
+CREATE INDEX IF NOT EXISTS idx_verification_codes_whatsapp_number ON verification_codes(whatsapp_number);
+
+-- Create index on expiry for cleanup of stale codes
+CREATE INDEX IF NOT EXISTS idx_verification_codes_expires_at ON verification_codes(expires_at);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE verification_codes ENABLE ROW LEVEL SECURITY;
+
+-- Create policy for service role to manage all codes (all API routes use the service role)
+CREATE POLICY "Service role can manage verification codes" ON verification_codes
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Create policy for the browser client to read verification status
+-- Required by the realtime subscription in lib/use-verification-status.ts
+CREATE POLICY "Anyone can read verification status" ON verification_codes
+  FOR SELECT USING (true);
+
+-- Publish row changes to Supabase Realtime (skipped on plain Postgres)
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE verification_codes;
+  END IF;
+END;
+$$;
@@ -0,0 +1,10 @@
+-- Add outbound OTP delivery support to verification codes
+-- delivery_mode: 'inbound' (user sends the code to the bot) or 'outbound' (we push the code)
+-- attempts: wrong guesses made against an outbound code via /api/verify-code
+
+ALTER TABLE verification_codes
+  ADD COLUMN IF NOT EXISTS delivery_mode VARCHAR(10) NOT NULL DEFAULT 'inbound'
+    CHECK (delivery_mode IN ('inbound', 'outbound'));
+
+ALTER TABLE verification_codes
+  ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,32 @@
+-- Create refresh_tokens table for refresh-token rotation
+-- Each login starts a token family; every refresh replaces the used token with a new one.
+-- Presenting a token that was already replaced revokes the whole family (reuse detection).
+
+CREATE TABLE IF NOT EXISTS refresh_tokens (
+  jti UUID PRIMARY KEY,
+  family_id UUID NOT NULL,
+  parent_jti UUID,
+  replaced_by UUID,
+  phone VARCHAR(20) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  used_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  revoked_reason VARCHAR(50)
+);
+
+-- Create index on family for revoking a whole family at once
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_family_id ON refresh_tokens(family_id);
+
+-- Create index on phone for per-account lookups
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_phone ON refresh_tokens(phone);
+
+-- Create index on expiry for cleanup of stale tokens
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_expires_at ON refresh_tokens(expires_at);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE refresh_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Create policy for service role to manage refresh tokens (no client access)
+CREATE POLICY "Service role can manage refresh tokens" ON refresh_tokens
+  FOR ALL USING (auth.role() = 'service_role');
@@ -0,0 +1,29 @@
+-- Create sessions table for server-side session tracking
+-- The id is the random session id carried in the access token, so a session
+-- can be revoked (logout, sign out of all devices) before its JWT expires.
+
+CREATE TABLE IF NOT EXISTS sessions (
+  id VARCHAR(128) PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  last_seen_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  ip_address VARCHAR(64),
+  user_agent TEXT,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  revoked_reason VARCHAR(50)
+);
+
+-- Create index on user for listing and revoking a user's sessions
+CREATE INDEX IF NOT EXISTS idx_sessions_user_id ON sessions(user_id);
+
+-- Link refresh tokens to the session they belong to
+ALTER TABLE refresh_tokens ADD COLUMN IF NOT EXISTS session_id VARCHAR(128) REFERENCES sessions(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_session_id ON refresh_tokens(session_id);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE sessions ENABLE ROW LEVEL SECURITY;
+
+-- Create policy for service role to manage sessions (no client access)
+CREATE POLICY "Service role can manage sessions" ON sessions
+  FOR ALL USING (auth.role() = 'service_role');
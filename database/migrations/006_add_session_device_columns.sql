@@ -0,0 +1,11 @@
+-- Add device listing columns to sessions
+-- handle is a public identifier for the "Your devices" page; the session id
+-- itself is a bearer secret and is never sent to the browser.
+-- city/country are the approximate location from the hosting platform's geo headers.
+
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS handle UUID DEFAULT gen_random_uuid() NOT NULL;
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS city VARCHAR(100);
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS country VARCHAR(2);
+
+-- Create unique index on handle for revoking a session from the devices page
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sessions_handle ON sessions(handle);
@@ -0,0 +1,42 @@
+-- Create OAuth 2.0 / OpenID Connect tables ("Sign in with WhatsApp" for other apps)
+-- Clients are registered with scripts/oauth-client.js; secrets are stored as SHA-256 hashes.
+-- Authorization codes are single-use, short-lived and bound to a PKCE challenge.
+
+CREATE TABLE IF NOT EXISTS oauth_clients (
+  client_id VARCHAR(64) PRIMARY KEY,
+  client_secret_hash VARCHAR(64),
+  name VARCHAR(255) NOT NULL,
+  redirect_uris TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  revoked_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE TABLE IF NOT EXISTS oauth_authorization_codes (
+  code_hash VARCHAR(64) PRIMARY KEY,
+  client_id VARCHAR(64) NOT NULL REFERENCES oauth_clients(client_id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  session_id VARCHAR(128) REFERENCES sessions(id) ON DELETE CASCADE,
+  redirect_uri TEXT NOT NULL,
+  scope TEXT NOT NULL,
+  nonce VARCHAR(255),
+  code_challenge VARCHAR(128) NOT NULL,
+  code_challenge_method VARCHAR(10) NOT NULL DEFAULT 'S256' CHECK (code_challenge_method = 'S256'),
+  auth_time TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Create index on expiry for cleanup of stale codes
+CREATE INDEX IF NOT EXISTS idx_oauth_authorization_codes_expires_at ON oauth_authorization_codes(expires_at);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE oauth_clients ENABLE ROW LEVEL SECURITY;
+ALTER TABLE oauth_authorization_codes ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for service role to manage OAuth data (no client access)
+CREATE POLICY "Service role can manage oauth clients" ON oauth_clients
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role can manage oauth authorization codes" ON oauth_authorization_codes
+  FOR ALL USING (auth.role() = 'service_role');
@@ -0,0 +1,14 @@
+-- Tighten user-facing RLS now that browsers receive Supabase tokens (role "authenticated")
+-- Users may read their own profile, but never the password hash, and may not write
+-- to users directly; password and profile changes go through the API routes.
+
+DROP POLICY IF EXISTS "Users can update own data" ON users;
+
+-- Column-level privileges: hide password_hash from client roles
+REVOKE SELECT, INSERT, UPDATE, DELETE ON users FROM anon, authenticated;
+GRANT SELECT (id, phone, name, verified, created_at, updated_at) ON users TO authenticated;
+
+-- Match the policy to auth.uid() directly (users.id is a UUID)
+DROP POLICY IF EXISTS "Users can view own data" ON users;
+CREATE POLICY "Users can view own data" ON users
+  FOR SELECT TO authenticated USING (auth.uid() = id);
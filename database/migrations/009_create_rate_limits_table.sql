@@ -0,0 +1,41 @@
+-- Create rate_limits table for rate limit counters shared by all instances
+-- Used when RATE_LIMIT_STORE=postgres. Each row is one fixed window for one key.
+
+CREATE TABLE IF NOT EXISTS rate_limits (
+  key VARCHAR(255) PRIMARY KEY,
+  count INTEGER NOT NULL DEFAULT 0,
+  reset_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+-- Create index on reset time for cleaning up expired windows
+CREATE INDEX IF NOT EXISTS idx_rate_limits_reset_at ON rate_limits(reset_at);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE rate_limits ENABLE ROW LEVEL SECURITY;
+
+-- Create policy for service role to manage rate limits (no client access)
+CREATE POLICY "Service role can manage rate limits" ON rate_limits
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Count one request for a key in a single atomic upsert
+-- Starts a new window when there is none or the previous one has expired
+CREATE OR REPLACE FUNCTION rate_limit_hit(p_key VARCHAR, p_window_ms INTEGER)
+RETURNS TABLE (count INTEGER, reset_at TIMESTAMP WITH TIME ZONE) AS $$
+BEGIN
+    RETURN QUERY
+    INSERT INTO rate_limits AS r (key, count, reset_at)
+    VALUES (p_key, 1, NOW() + p_window_ms * INTERVAL '1 millisecond')
+    ON CONFLICT (key) DO UPDATE SET
+      count = CASE WHEN r.reset_at <= NOW() THEN 1 ELSE r.count + 1 END,
+      reset_at = CASE WHEN r.reset_at <= NOW() THEN EXCLUDED.reset_at ELSE r.reset_at END
+    RETURNING r.count, r.reset_at;
+
+    -- Occasionally drop expired windows so the table stays small
+    IF random() < 0.01 THEN
+      DELETE FROM rate_limits WHERE rate_limits.reset_at < NOW() - INTERVAL '1 hour';
+    END IF;
+END;
+$$ LANGUAGE 'plpgsql';
+
+-- Only the service role may count requests
+REVOKE EXECUTE ON FUNCTION rate_limit_hit(VARCHAR, INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,52 @@
+-- Add account lockout support to users
+-- failed_login_attempts: consecutive wrong passwords since the last lock or successful login
+-- lockout_count: locks since the last successful login (each one doubles the next lock)
+-- unlock_code_hash: SHA-256 of the code sent to the owner's WhatsApp to unlock early
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS failed_login_attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS lockout_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS locked_until TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS last_failed_login_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS unlock_code_hash VARCHAR(64);
+
+-- Count one failed login and lock the account once the limit is reached
+-- Runs as a single transaction so concurrent guesses can't skip the lock
+CREATE OR REPLACE FUNCTION record_failed_login(
+  p_user_id UUID,
+  p_max_attempts INTEGER,
+  p_base_lock_seconds INTEGER,
+  p_max_lock_seconds INTEGER
+)
+RETURNS TABLE (locked BOOLEAN, locked_until TIMESTAMP WITH TIME ZONE, lockout_count INTEGER) AS $$
+DECLARE
+  v_attempts INTEGER;
+  v_lockouts INTEGER;
+  v_locked_until TIMESTAMP WITH TIME ZONE;
+BEGIN
+    UPDATE users AS u
+    SET failed_login_attempts = u.failed_login_attempts + 1,
+        last_failed_login_at = NOW()
+    WHERE u.id = p_user_id
+    RETURNING u.failed_login_attempts, u.lockout_count INTO v_attempts, v_lockouts;
+
+    IF v_attempts IS NULL OR v_attempts < p_max_attempts THEN
+      RETURN QUERY SELECT FALSE, NULL::TIMESTAMP WITH TIME ZONE, COALESCE(v_lockouts, 0);
+      RETURN;
+    END IF;
+
+    -- 1st lock: base, 2nd: 2x base, 3rd: 4x base ... capped at the maximum
+    v_locked_until := NOW() + LEAST(p_base_lock_seconds * POWER(2, LEAST(v_lockouts, 20)), p_max_lock_seconds) * INTERVAL '1 second';
+
+    UPDATE users AS u
+    SET failed_login_attempts = 0,
+        lockout_count = u.lockout_count + 1,
+        locked_until = v_locked_until
+    WHERE u.id = p_user_id;
+
+    RETURN QUERY SELECT TRUE, v_locked_until, v_lockouts + 1;
+END;
+$$ LANGUAGE 'plpgsql';
+
+-- Only the service role may record failed logins
+REVOKE EXECUTE ON FUNCTION record_failed_login(UUID, INTEGER, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,109 @@
+-- Add sliding window log and token bucket rate limiting to the Postgres store
+-- rate_limit_events: one row per counted request (sliding window log)
+-- rate_limit_buckets: token count per key as of updated_at (token bucket)
+
+CREATE TABLE IF NOT EXISTS rate_limit_events (
+  id BIGSERIAL PRIMARY KEY,
+  key VARCHAR(255) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Create index on key and time for counting a key's window
+CREATE INDEX IF NOT EXISTS idx_rate_limit_events_key_created_at ON rate_limit_events(key, created_at);
+
+CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+  key VARCHAR(255) PRIMARY KEY,
+  tokens DOUBLE PRECISION NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE rate_limit_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rate_limit_buckets ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for service role to manage rate limits (no client access)
+CREATE POLICY "Service role can manage rate limit events" ON rate_limit_events
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role can manage rate limit buckets" ON rate_limit_buckets
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Sliding window log: allow at most p_limit requests in any p_window_ms span
+-- Requests for the same key are serialized with an advisory lock; rejected requests aren't logged
+CREATE OR REPLACE FUNCTION rate_limit_sliding_log(p_key VARCHAR, p_window_ms INTEGER, p_limit INTEGER, p_peek BOOLEAN DEFAULT FALSE)
+RETURNS TABLE (allowed BOOLEAN, count INTEGER, oldest_at TIMESTAMP WITH TIME ZONE) AS $$
+DECLARE
+  v_count INTEGER;
+  v_oldest TIMESTAMP WITH TIME ZONE;
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext('rate_limit:' || p_key));
+
+    DELETE FROM rate_limit_events e
+    WHERE e.key = p_key AND e.created_at <= NOW() - p_window_ms * INTERVAL '1 millisecond';
+
+    SELECT COUNT(*), MIN(e.created_at) INTO v_count, v_oldest
+    FROM rate_limit_events e
+    WHERE e.key = p_key;
+
+    IF p_peek OR v_count >= p_limit THEN
+      RETURN QUERY SELECT v_count < p_limit, v_count, v_oldest;
+      RETURN;
+    END IF;
+
+    INSERT INTO rate_limit_events (key, created_at) VALUES (p_key, NOW());
+
+    -- Occasionally drop logs of keys that have gone quiet
+    IF random() < 0.01 THEN
+      DELETE FROM rate_limit_events e WHERE e.created_at < NOW() - INTERVAL '1 day';
+    END IF;
+
+    RETURN QUERY SELECT TRUE, v_count + 1, COALESCE(v_oldest, NOW());
+END;
+$$ LANGUAGE 'plpgsql';
+
+-- Token bucket: p_capacity tokens, refilled at p_capacity per p_window_ms
+-- The bucket row is locked for the duration of the call
+CREATE OR REPLACE FUNCTION rate_limit_take_token(p_key VARCHAR, p_capacity INTEGER, p_window_ms INTEGER, p_peek BOOLEAN DEFAULT FALSE)
+RETURNS TABLE (allowed BOOLEAN, tokens DOUBLE PRECISION) AS $$
+DECLARE
+  v_tokens DOUBLE PRECISION;
+  v_updated_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+    INSERT INTO rate_limit_buckets (key, tokens, updated_at)
+    VALUES (p_key, p_capacity, NOW())
+    ON CONFLICT (key) DO NOTHING;
+
+    SELECT b.tokens, b.updated_at INTO v_tokens, v_updated_at
+    FROM rate_limit_buckets b
+    WHERE b.key = p_key
+    FOR UPDATE;
+
+    v_tokens := LEAST(
+      p_capacity,
+      v_tokens + EXTRACT(EPOCH FROM (NOW() - v_updated_at)) * 1000 * p_capacity / p_window_ms
+    );
+
+    IF p_peek THEN
+      RETURN QUERY SELECT v_tokens >= 1, v_tokens;
+      RETURN;
+    END IF;
+
+    IF v_tokens >= 1 THEN
+      v_tokens := v_tokens - 1;
+      UPDATE rate_limit_buckets b SET tokens = v_tokens, updated_at = NOW() WHERE b.key = p_key;
+      RETURN QUERY SELECT TRUE, v_tokens;
+    ELSE
+      UPDATE rate_limit_buckets b SET tokens = v_tokens, updated_at = NOW() WHERE b.key = p_key;
+      RETURN QUERY SELECT FALSE, v_tokens;
+    END IF;
+
+    -- Occasionally drop buckets that have long since refilled
+    IF random() < 0.01 THEN
+      DELETE FROM rate_limit_buckets b WHERE b.updated_at < NOW() - INTERVAL '1 day';
+    END IF;
+END;
+$$ LANGUAGE 'plpgsql';
+
+-- Only the service role may count requests
+REVOKE EXECUTE ON FUNCTION rate_limit_sliding_log(VARCHAR, INTEGER, INTEGER, BOOLEAN) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION rate_limit_take_token(VARCHAR, INTEGER, INTEGER, BOOLEAN) FROM PUBLIC, anon, authenticated;
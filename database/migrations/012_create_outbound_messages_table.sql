@@ -0,0 +1,36 @@
+-- Create outbound_messages table for WhatsApp delivery tracking
+-- One row per message the app sends, keyed by the provider's message id (Meta wamid,
+-- Twilio SID) so delivery status callbacks (sent, delivered, read, failed) can update it
+
+CREATE TABLE IF NOT EXISTS outbound_messages (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  provider VARCHAR(20) NOT NULL,
+  provider_message_id VARCHAR(255) UNIQUE,
+  whatsapp_number VARCHAR(20) NOT NULL,
+  message_type VARCHAR(20) NOT NULL CHECK (message_type IN ('text', 'template')),
+  template_name VARCHAR(255),
+  -- The verification this message belongs to (code delivery or a reply to it), if any
+  verification_id UUID REFERENCES verification_codes(id) ON DELETE SET NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'accepted' CHECK (status IN ('accepted', 'sent', 'delivered', 'read', 'failed')),
+  error_code VARCHAR(20),
+  error_title TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  sent_at TIMESTAMP WITH TIME ZONE,
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  read_at TIMESTAMP WITH TIME ZONE,
+  failed_at TIMESTAMP WITH TIME ZONE,
+  status_updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Latest message for a verification (verification-status page)
+CREATE INDEX IF NOT EXISTS idx_outbound_messages_verification ON outbound_messages(verification_id, created_at DESC);
+
+-- Per-number history for support
+CREATE INDEX IF NOT EXISTS idx_outbound_messages_whatsapp_number ON outbound_messages(whatsapp_number, created_at DESC);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE outbound_messages ENABLE ROW LEVEL SECURITY;
+
+-- Create policy for service role to manage outbound messages (no client access)
+CREATE POLICY "Service role can manage outbound messages" ON outbound_messages
+  FOR ALL USING (auth.role() = 'service_role');
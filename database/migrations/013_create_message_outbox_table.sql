@@ -0,0 +1,62 @@
+-- Create message_outbox table for queued WhatsApp replies
+-- Messages are enqueued under an idempotency key (the same reply is never queued twice)
+-- and sent by the outbox worker (/api/outbox/process) with exponential backoff.
+-- status: pending -> sending -> sent, or dead after max_attempts failures
+
+CREATE TABLE IF NOT EXISTS message_outbox (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  idempotency_key VARCHAR(255) UNIQUE NOT NULL,
+  whatsapp_number VARCHAR(20) NOT NULL,
+  message_type VARCHAR(20) NOT NULL CHECK (message_type IN ('text', 'template')),
+  body TEXT,
+  template_name VARCHAR(255),
+  template_language VARCHAR(20),
+  template_parameters JSONB NOT NULL DEFAULT '[]'::jsonb,
+  verification_id UUID REFERENCES verification_codes(id) ON DELETE SET NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'dead')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  -- A 'sending' row whose lock expired belongs to a worker that died; it is picked up again
+  locked_until TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  provider_message_id VARCHAR(255),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  sent_at TIMESTAMP WITH TIME ZONE,
+  dead_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Create index for the worker's due-message scan
+CREATE INDEX IF NOT EXISTS idx_message_outbox_due ON message_outbox(status, next_attempt_at);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE message_outbox ENABLE ROW LEVEL SECURITY;
+
+-- Create policy for service role to manage the outbox (no client access)
+CREATE POLICY "Service role can manage message outbox" ON message_outbox
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Claim up to p_limit due messages for one worker, locking them for p_lock_seconds
+-- SKIP LOCKED lets concurrent workers claim disjoint batches
+CREATE OR REPLACE FUNCTION claim_outbox_messages(p_limit INTEGER, p_lock_seconds INTEGER)
+RETURNS SETOF message_outbox AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE message_outbox AS m
+    SET status = 'sending',
+        locked_until = NOW() + p_lock_seconds * INTERVAL '1 second'
+    WHERE m.id IN (
+      SELECT o.id
+      FROM message_outbox o
+      WHERE (o.status = 'pending' AND o.next_attempt_at <= NOW())
+         OR (o.status = 'sending' AND o.locked_until < NOW())
+      ORDER BY o.next_attempt_at
+      LIMIT p_limit
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING m.*;
+END;
+$$ LANGUAGE 'plpgsql';
+
+-- Only the service role (API routes) may claim messages
+REVOKE EXECUTE ON FUNCTION claim_outbox_messages(INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,4 @@
+-- Store template button parameters with queued template messages
+-- (copy-code / one-tap OTP buttons, URL suffixes, quick reply payloads)
+
+ALTER TABLE message_outbox ADD COLUMN IF NOT EXISTS template_buttons JSONB NOT NULL DEFAULT '[]'::jsonb;
@@ -0,0 +1,34 @@
+-- Create login_approvals table for "Was this you?" login confirmations
+-- A password login waits here until the account owner taps "Yes, it's me" or
+-- "No, block this" on WhatsApp. The browser that entered the password polls with
+-- a random token (stored hashed) and only gets a session once the login is approved.
+
+CREATE TABLE IF NOT EXISTS login_approvals (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  token_hash VARCHAR(64) NOT NULL UNIQUE,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'denied', 'completed')),
+  ip_address VARCHAR(64),
+  user_agent TEXT,
+  city VARCHAR(100),
+  country VARCHAR(2),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  decided_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Create index on user for a user's recent login attempts
+CREATE INDEX IF NOT EXISTS idx_login_approvals_user_id ON login_approvals(user_id, created_at DESC);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE login_approvals ENABLE ROW LEVEL SECURITY;
+
+-- Create policy for service role to manage login approvals (no client access)
+CREATE POLICY "Service role can manage login approvals" ON login_approvals
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- The confirmation is sent as an interactive message (reply buttons)
+ALTER TABLE outbound_messages DROP CONSTRAINT IF EXISTS outbound_messages_message_type_check;
+ALTER TABLE outbound_messages ADD CONSTRAINT outbound_messages_message_type_check
+  CHECK (message_type IN ('text', 'template', 'interactive'));
@@ -0,0 +1,10 @@
+-- Password resets started from WhatsApp (RESET command)
+-- The bot replies with a one-time link; only the hash of its token is stored.
+-- The verification itself is created already verified, since the request came
+-- from the account's own number.
+
+ALTER TABLE verification_codes ADD COLUMN IF NOT EXISTS reset_link_hash VARCHAR(64);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_verification_codes_reset_link_hash
+  ON verification_codes(reset_link_hash)
+  WHERE reset_link_hash IS NOT NULL;
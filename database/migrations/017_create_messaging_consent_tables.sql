@@ -0,0 +1,113 @@
+-- Create messaging consent tables for WhatsApp messaging
+-- messaging_consent holds each number's current state with where it came from
+-- (numbers without a row haven't opted out); messaging_consent_events is the
+-- append-only history of every change, for compliance reviews.
+-- source: 'keyword' (STOP/START to the bot), 'verification' (the user messaged
+-- the bot to verify their number) or 'admin' (changed by staff, see scripts/consent.js)
+
+CREATE TABLE IF NOT EXISTS messaging_consent (
+  whatsapp_number VARCHAR(20) PRIMARY KEY,
+  status VARCHAR(20) NOT NULL CHECK (status IN ('opted_in', 'opted_out')),
+  source VARCHAR(20) NOT NULL CHECK (source IN ('keyword', 'verification', 'admin')),
+  opted_in_at TIMESTAMP WITH TIME ZONE,
+  opted_out_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE messaging_consent ENABLE ROW LEVEL SECURITY;
+
+-- Create policy for service role to manage messaging consent (no client access)
+CREATE POLICY "Service role can manage messaging consent" ON messaging_consent
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE TABLE IF NOT EXISTS messaging_consent_events (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  whatsapp_number VARCHAR(20) NOT NULL,
+  status VARCHAR(20) NOT NULL CHECK (status IN ('opted_in', 'opted_out')),
+  previous_status VARCHAR(20) CHECK (previous_status IN ('opted_in', 'opted_out')),
+  source VARCHAR(20) NOT NULL CHECK (source IN ('keyword', 'verification', 'admin')),
+  -- What caused the change: the inbound message id, or who made it for 'admin'
+  reference VARCHAR(255),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- History of one number
+CREATE INDEX IF NOT EXISTS idx_messaging_consent_events_number ON messaging_consent_events(whatsapp_number, created_at);
+
+-- Exports by date range
+CREATE INDEX IF NOT EXISTS idx_messaging_consent_events_created_at ON messaging_consent_events(created_at);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE messaging_consent_events ENABLE ROW LEVEL SECURITY;
+
+-- Create policy for service role to manage consent events (no client access)
+CREATE POLICY "Service role can manage messaging consent events" ON messaging_consent_events
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- The audit trail is append-only, even for the service role
+CREATE OR REPLACE FUNCTION prevent_consent_event_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'messaging_consent_events is append-only';
+END;
+$$ LANGUAGE 'plpgsql';
+
+DROP TRIGGER IF EXISTS messaging_consent_events_append_only ON messaging_consent_events;
+CREATE TRIGGER messaging_consent_events_append_only
+    BEFORE UPDATE OR DELETE ON messaging_consent_events
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_consent_event_changes();
+
+-- Record a consent change and its audit event in one transaction
+-- With p_only_if_absent, numbers that already have a record are left alone
+-- (verification only opts in numbers that never said STOP or START).
+-- Returns true if the consent record was written.
+CREATE OR REPLACE FUNCTION set_messaging_consent(
+  p_whatsapp_number VARCHAR,
+  p_status VARCHAR,
+  p_source VARCHAR,
+  p_reference VARCHAR,
+  p_only_if_absent BOOLEAN
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+    v_previous VARCHAR;
+BEGIN
+    SELECT status INTO v_previous
+    FROM messaging_consent
+    WHERE whatsapp_number = p_whatsapp_number
+    FOR UPDATE;
+
+    IF FOUND AND p_only_if_absent THEN
+        RETURN FALSE;
+    END IF;
+
+    INSERT INTO messaging_consent (whatsapp_number, status, source, opted_in_at, opted_out_at, updated_at)
+    VALUES (
+      p_whatsapp_number,
+      p_status,
+      p_source,
+      CASE WHEN p_status = 'opted_in' THEN NOW() END,
+      CASE WHEN p_status = 'opted_out' THEN NOW() END,
+      NOW()
+    )
+    ON CONFLICT (whatsapp_number) DO UPDATE
+    SET status = EXCLUDED.status,
+        source = EXCLUDED.source,
+        opted_in_at = COALESCE(EXCLUDED.opted_in_at, messaging_consent.opted_in_at),
+        opted_out_at = COALESCE(EXCLUDED.opted_out_at, messaging_consent.opted_out_at),
+        updated_at = NOW();
+
+    INSERT INTO messaging_consent_events (whatsapp_number, status, previous_status, source, reference)
+    VALUES (p_whatsapp_number, p_status, v_previous, p_source, p_reference);
+
+    RETURN TRUE;
+END;
+$$ LANGUAGE 'plpgsql';
+
+-- Only the service role (API routes) may change consent
+REVOKE EXECUTE ON FUNCTION set_messaging_consent(VARCHAR, VARCHAR, VARCHAR, VARCHAR, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+-- Queued messages remember whether the user asked for them (sent even after STOP)
+ALTER TABLE message_outbox ADD COLUMN IF NOT EXISTS user_requested BOOLEAN NOT NULL DEFAULT false;
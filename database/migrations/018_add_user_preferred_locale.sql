@@ -0,0 +1,7 @@
+-- Language the WhatsApp bot answers a registered user in
+-- Set by the LANGUAGE chat command; NULL means it is guessed from the number's
+-- country calling code or the message itself (see lib/i18n)
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS preferred_locale VARCHAR(5)
+  CHECK (preferred_locale IN ('en', 'es', 'pt'));
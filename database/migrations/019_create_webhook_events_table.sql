@@ -0,0 +1,83 @@
+-- Create webhook_events table: every WhatsApp webhook delivery that reached signature
+-- checking, with its raw body, so failures can be investigated and replayed
+-- (see scripts/webhook-events.js)
+-- status: received -> processed or failed; rejected = bad signature (never processed)
+
+CREATE TABLE IF NOT EXISTS webhook_events (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  provider VARCHAR(20) NOT NULL,
+  request_url TEXT NOT NULL,
+  raw_body TEXT NOT NULL,
+  signature_valid BOOLEAN NOT NULL,
+  signature_error TEXT,
+  status VARCHAR(20) NOT NULL DEFAULT 'received' CHECK (status IN ('received', 'processed', 'failed', 'rejected')),
+  -- Inbound message ids in the delivery, and what happened to them
+  message_ids TEXT[] NOT NULL DEFAULT '{}',
+  summary JSONB,
+  error TEXT,
+  replay_count INTEGER NOT NULL DEFAULT 0,
+  received_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  processed_at TIMESTAMP WITH TIME ZONE,
+  last_replayed_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Listing failed deliveries, and pruning old ones
+CREATE INDEX IF NOT EXISTS idx_webhook_events_status ON webhook_events(status, received_at);
+CREATE INDEX IF NOT EXISTS idx_webhook_events_received_at ON webhook_events(received_at);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE webhook_events ENABLE ROW LEVEL SECURITY;
+
+-- Create policy for service role to manage webhook events (no client access)
+CREATE POLICY "Service role can manage webhook events" ON webhook_events
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Inbound messages already handled, by provider message id (durable dedupe across
+-- instances and restarts: providers redeliver, and one message may arrive twice)
+-- status: processing while an instance handles it, then processed. A message that
+-- fails is removed again so a redelivery or replay can retry it.
+CREATE TABLE IF NOT EXISTS inbound_message_receipts (
+  message_id VARCHAR(255) PRIMARY KEY,
+  webhook_event_id UUID REFERENCES webhook_events(id) ON DELETE SET NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'processed')),
+  claimed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  processed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_inbound_message_receipts_claimed_at ON inbound_message_receipts(claimed_at);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE inbound_message_receipts ENABLE ROW LEVEL SECURITY;
+
+-- Create policy for service role to manage receipts (no client access)
+CREATE POLICY "Service role can manage inbound message receipts" ON inbound_message_receipts
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Claim an inbound message for processing
+-- Returns false if it was already processed, or another instance is processing it.
+-- A 'processing' claim older than p_stale_seconds belongs to an instance that died
+-- mid-message and is taken over.
+CREATE OR REPLACE FUNCTION claim_inbound_message(
+  p_message_id VARCHAR,
+  p_webhook_event_id UUID,
+  p_stale_seconds INTEGER
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+    v_claimed VARCHAR;
+BEGIN
+    INSERT INTO inbound_message_receipts (message_id, webhook_event_id, status, claimed_at)
+    VALUES (p_message_id, p_webhook_event_id, 'processing', NOW())
+    ON CONFLICT (message_id) DO UPDATE
+    SET webhook_event_id = EXCLUDED.webhook_event_id,
+        claimed_at = NOW()
+    WHERE inbound_message_receipts.status = 'processing'
+      AND inbound_message_receipts.claimed_at < NOW() - p_stale_seconds * INTERVAL '1 second'
+    RETURNING message_id INTO v_claimed;
+
+    RETURN v_claimed IS NOT NULL;
+END;
+$$ LANGUAGE 'plpgsql';
+
+-- Only the service role (API routes) may claim messages
+REVOKE EXECUTE ON FUNCTION claim_inbound_message(VARCHAR, UUID, INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,51 @@
+-- Check outbound codes atomically and make them single-use
+-- consumed_at: when the code was accepted by /api/verify-code; it can't be used again
+-- (the row stays, marked verified, for set-password and the session lookup)
+
+ALTER TABLE verification_codes
+  ADD COLUMN IF NOT EXISTS consumed_at TIMESTAMP WITH TIME ZONE;
+
+-- Check one guess against an outbound code
+-- The row is locked, so concurrent guesses are counted one by one and only one of
+-- them can consume the code.
+-- Returns 'verified' (code accepted and consumed), 'invalid' (wrong code, attempt
+-- counted) or 'expired' (unknown, expired, already used or out of attempts)
+CREATE OR REPLACE FUNCTION verify_outbound_code(
+  p_id UUID,
+  p_code VARCHAR,
+  p_max_attempts INTEGER
+)
+RETURNS VARCHAR AS $$
+DECLARE
+    v_code VARCHAR;
+    v_attempts INTEGER;
+BEGIN
+    SELECT code, attempts INTO v_code, v_attempts
+    FROM verification_codes
+    WHERE id = p_id
+      AND delivery_mode = 'outbound'
+      AND expires_at > NOW()
+      AND consumed_at IS NULL
+    FOR UPDATE;
+
+    IF NOT FOUND OR v_attempts >= p_max_attempts THEN
+        RETURN 'expired';
+    END IF;
+
+    IF v_code <> p_code THEN
+        UPDATE verification_codes SET attempts = attempts + 1 WHERE id = p_id;
+        RETURN 'invalid';
+    END IF;
+
+    UPDATE verification_codes
+    SET verified = true,
+        verified_at = COALESCE(verified_at, NOW()),
+        consumed_at = NOW()
+    WHERE id = p_id;
+
+    RETURN 'verified';
+END;
+$$ LANGUAGE 'plpgsql';
+
+-- Only the service role (API routes) may check codes
+REVOKE EXECUTE ON FUNCTION verify_outbound_code(UUID, VARCHAR, INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,14 @@
+-- Stop browsers from reading verification codes
+-- 002 let anyone SELECT every row (codes included) for the realtime subscription in
+-- lib/use-verification-status.ts. Browsers now only see `id` and `verified`, and only
+-- for the verification their Supabase token was issued for (the verification_id claim,
+-- see generateSupabaseVerificationToken in lib/supabase-jwt.ts).
+
+DROP POLICY IF EXISTS "Anyone can read verification status" ON verification_codes;
+
+-- Column-level privileges: client roles never see the code, name or number
+REVOKE SELECT, INSERT, UPDATE, DELETE ON verification_codes FROM anon, authenticated;
+GRANT SELECT (id, verified) ON verification_codes TO authenticated;
+
+CREATE POLICY "Browsers can read their own verification status" ON verification_codes
+  FOR SELECT TO authenticated USING (id::text = auth.jwt() ->> 'verification_id');
@@ -0,0 +1,56 @@
+-- Let the account lockout backoff wear off
+-- lockout_count used to grow until the next successful login, so an account that was
+-- guessed at once stayed on long locks for good. After a quiet period (no failed login,
+-- and no lock in force) the next failure starts over: first attempt, first lock length.
+
+DROP FUNCTION IF EXISTS record_failed_login(UUID, INTEGER, INTEGER, INTEGER);
+
+-- Count one failed login and lock the account once the limit is reached
+-- Runs as a single transaction so concurrent guesses can't skip the lock
+CREATE OR REPLACE FUNCTION record_failed_login(
+  p_user_id UUID,
+  p_max_attempts INTEGER,
+  p_base_lock_seconds INTEGER,
+  p_max_lock_seconds INTEGER,
+  p_quiet_seconds INTEGER
+)
+RETURNS TABLE (locked BOOLEAN, locked_until TIMESTAMP WITH TIME ZONE, lockout_count INTEGER) AS $$
+DECLARE
+  v_attempts INTEGER;
+  v_lockouts INTEGER;
+  v_locked_until TIMESTAMP WITH TIME ZONE;
+BEGIN
+    -- GREATEST ignores NULLs; quiet since the last failure or the end of the last lock
+    UPDATE users AS u
+    SET failed_login_attempts = CASE
+          WHEN GREATEST(u.last_failed_login_at, u.locked_until) < NOW() - p_quiet_seconds * INTERVAL '1 second' THEN 1
+          ELSE u.failed_login_attempts + 1
+        END,
+        lockout_count = CASE
+          WHEN GREATEST(u.last_failed_login_at, u.locked_until) < NOW() - p_quiet_seconds * INTERVAL '1 second' THEN 0
+          ELSE u.lockout_count
+        END,
+        last_failed_login_at = NOW()
+    WHERE u.id = p_user_id
+    RETURNING u.failed_login_attempts, u.lockout_count INTO v_attempts, v_lockouts;
+
+    IF v_attempts IS NULL OR v_attempts < p_max_attempts THEN
+      RETURN QUERY SELECT FALSE, NULL::TIMESTAMP WITH TIME ZONE, COALESCE(v_lockouts, 0);
+      RETURN;
+    END IF;
+
+    -- 1st lock: base, 2nd: 2x base, 3rd: 4x base ... capped at the maximum
+    v_locked_until := NOW() + LEAST(p_base_lock_seconds * POWER(2, LEAST(v_lockouts, 20)), p_max_lock_seconds) * INTERVAL '1 second';
+
+    UPDATE users AS u
+    SET failed_login_attempts = 0,
+        lockout_count = u.lockout_count + 1,
+        locked_until = v_locked_until
+    WHERE u.id = p_user_id;
+
+    RETURN QUERY SELECT TRUE, v_locked_until, v_lockouts + 1;
+END;
+$$ LANGUAGE 'plpgsql';
+
+-- Only the service role may record failed logins
+REVOKE EXECUTE ON FUNCTION record_failed_login(UUID, INTEGER, INTEGER, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,6 @@
+-- Stop keeping deliveries with a bad signature
+-- Anyone can POST to the webhook, so storing every rejected request let the table grow
+-- without bound. They are now only logged (invalid_signature security event); the ones
+-- stored so far are deleted. Only verified deliveries are written from now on.
+
+DELETE FROM webhook_events WHERE status = 'rejected';
@@ -0,0 +1,43 @@
+-- Report the newest request in a sliding window log as well as the oldest
+-- The oldest entry only says when the next slot frees up; the limit is fully reset
+-- (RateLimit-Reset) once the newest entry has left the window as well.
+-- The return type changes, so the function is dropped and created again.
+
+DROP FUNCTION IF EXISTS rate_limit_sliding_log(VARCHAR, INTEGER, INTEGER, BOOLEAN);
+
+-- Sliding window log: allow at most p_limit requests in any p_window_ms span
+-- Requests for the same key are serialized with an advisory lock; rejected requests aren't logged
+CREATE OR REPLACE FUNCTION rate_limit_sliding_log(p_key VARCHAR, p_window_ms INTEGER, p_limit INTEGER, p_peek BOOLEAN DEFAULT FALSE)
+RETURNS TABLE (allowed BOOLEAN, count INTEGER, oldest_at TIMESTAMP WITH TIME ZONE, newest_at TIMESTAMP WITH TIME ZONE) AS $$
+DECLARE
+  v_count INTEGER;
+  v_oldest TIMESTAMP WITH TIME ZONE;
+  v_newest TIMESTAMP WITH TIME ZONE;
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext('rate_limit:' || p_key));
+
+    DELETE FROM rate_limit_events e
+    WHERE e.key = p_key AND e.created_at <= NOW() - p_window_ms * INTERVAL '1 millisecond';
+
+    SELECT COUNT(*), MIN(e.created_at), MAX(e.created_at) INTO v_count, v_oldest, v_newest
+    FROM rate_limit_events e
+    WHERE e.key = p_key;
+
+    IF p_peek OR v_count >= p_limit THEN
+      RETURN QUERY SELECT v_count < p_limit, v_count, v_oldest, v_newest;
+      RETURN;
+    END IF;
+
+    INSERT INTO rate_limit_events (key, created_at) VALUES (p_key, NOW());
+
+    -- Occasionally drop logs of keys that have gone quiet
+    IF random() < 0.01 THEN
+      DELETE FROM rate_limit_events e WHERE e.created_at < NOW() - INTERVAL '1 day';
+    END IF;
+
+    RETURN QUERY SELECT TRUE, v_count + 1, COALESCE(v_oldest, NOW()), NOW();
+END;
+$$ LANGUAGE 'plpgsql';
+
+-- Only the service role may count requests
+REVOKE EXECUTE ON FUNCTION rate_limit_sliding_log(VARCHAR, INTEGER, INTEGER, BOOLEAN) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,170 @@
+/**
+ * Account Lockout
+ * Locks an account after repeated wrong passwords, doubling the lock each time
+ * it happens again before a successful login or a quiet day. The owner is told on
+ * WhatsApp and can unlock early by replying "UNLOCK <code>" from their own number.
+ * Login responses never say an account is locked (that would reveal it exists).
+ */
+
+import { createHash } from 'crypto';
+import { getSupabaseAdmin } from './supabaseAdmin';
+import { generateVerificationCode } from './utils';
+import { sendPurposeTemplate, sendWhatsAppMessage } from './whatsapp';
+import { normalizeWhatsAppNumber } from './sender-binding';
+
+// Wrong passwords allowed before the account locks
+export const MAX_FAILED_LOGIN_ATTEMPTS = 5;
+
+// First lock lasts 5 minutes, then 10, 20, ... up to a day
+const BASE_LOCK_SECONDS = 5 * 60;
+const MAX_LOCK_SECONDS = 24 * 60 * 60;
+
+// A day without failed logins (counted from the end of any lock) resets the backoff
+const LOCKOUT_QUIET_SECONDS = 24 * 60 * 60;
+
+// "UNLOCK AB12CD" (case-insensitive, code anywhere after the keyword)
+const UNLOCK_MESSAGE_PATTERN = /\bUNLOCK\s+([A-Z0-9]{6})\b/i;
+
+const DEFAULT_LOCKOUT_MESSAGE = '🔒 Your account was locked after {ATTEMPTS} failed sign-in attempts. It unlocks automatically at {UNTIL}.\n\nIf this was you, reply "UNLOCK {CODE}" to unlock it now. If it wasn\'t, your password is still safe - consider changing it.';
+
+export interface LockoutState {
+  locked_until: string | null;
+}
+
+export interface FailedLoginResult {
+  locked: boolean;
+  lockedUntil: Date | null;
+}
+
+function hashUnlockCode(code: string): string {
+  return createHash('sha256').update(code.toUpperCase()).digest('hex');
+}
+
+/**
+ * Seconds until a locked account unlocks (0 if it isn't locked)
+ */
+export function getLockoutRemainingSeconds(user: LockoutState): number {
+  if (!user.locked_until) {
+    return 0;
+  }
+
+  const remaining = new Date(user.locked_until).getTime() - Date.now();
+  return remaining > 0 ? Math.ceil(remaining / 1000) : 0;
+}
+
+/**
+ * Count a wrong password (atomically) and lock the account when the limit is reached
+ * @param userId - Account the password was tried against
+ * @returns Whether this attempt locked the account, and until when
+ */
+export async function recordFailedLogin(userId: string): Promise<FailedLoginResult> {
+  const supabaseAdmin = getSupabaseAdmin();
+  const { data, error } = await supabaseAdmin
+    .rpc('record_failed_login', {
+      p_user_id: userId,
+      p_max_attempts: MAX_FAILED_LOGIN_ATTEMPTS,
+      p_base_lock_seconds: BASE_LOCK_SECONDS,
+      p_max_lock_seconds: MAX_LOCK_SECONDS,
+      p_quiet_seconds: LOCKOUT_QUIET_SECONDS,
+    })
+    .single<{ locked: boolean; locked_until: string | null }>();
+
+  if (error || !data) {
+    throw error || new Error('record_failed_login returned no row');
+  }
+
+  return {
+    locked: data.locked,
+    lockedUntil: data.locked_until ? new Date(data.locked_until) : null,
+  };
+}
+
+/**
+ * Clear failed attempts, locks and the backoff after a login that got its session, or an unlock
+ */
+export async function clearFailedLogins(userId: string): Promise<void> {
+  const supabaseAdmin = getSupabaseAdmin();
+  const { error } = await supabaseAdmin
+    .from('users')
+    .update({
+      failed_login_attempts: 0,
+      lockout_count: 0,
+      locked_until: null,
+      unlock_code_hash: null,
+    })
+    .eq('id', userId);
+
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Tell the owner their account was locked and send them an unlock code
+ * Uses an approved template when WHATSAPP_LOCKOUT_TEMPLATE_NAME is set (body
+ * parameters: unlock code, unlock time), otherwise a plain text message
+ * @param userId - Locked account
+ * @param phone - The account's WhatsApp number
+ * @param lockedUntil - When the lock expires on its own
+ */
+export async function notifyAccountLocked(userId: string, phone: string, lockedUntil: Date): Promise<void> {
+  const code = generateVerificationCode();
+
+  const supabaseAdmin = getSupabaseAdmin();
+  const { error } = await supabaseAdmin
+    .from('users')
+    .update({ unlock_code_hash: hashUnlockCode(code) })
+    .eq('id', userId);
+
+  if (error) {
+    throw error;
+  }
+
+  const until = lockedUntil.toISOString().replace('T', ' ').substring(0, 16) + ' UTC';
+
+  if (await sendPurposeTemplate(phone, 'account_locked', { unlockCode: code, unlockTime: until })) {
+    return;
+  }
+
+  await sendWhatsAppMessage(
+    phone,
+    DEFAULT_LOCKOUT_MESSAGE
+      .replace('{ATTEMPTS}', String(MAX_FAILED_LOGIN_ATTEMPTS))
+      .replace('{UNTIL}', until)
+      .replace('{CODE}', code)
+  );
+}
+
+/**
+ * Pull an unlock code out of an inbound WhatsApp message
+ */
+export function extractUnlockCode(message: string): string | null {
+  const match = message.match(UNLOCK_MESSAGE_PATTERN);
+  return match ? match[1].toUpperCase() : null;
+}
+
+/**
+ * Unlock an account with the code from the lockout notice
+ * The account is looked up by the sender's number, so the code only works when
+ * it comes from the owner's own WhatsApp
+ * @param sender - `message.from` from the webhook payload
+ * @param code - Code from the message
+ * @returns True if an account was unlocked
+ */
+export async function unlockAccountWithCode(sender: string, code: string): Promise<boolean> {
+  const supabaseAdmin = getSupabaseAdmin();
+  const { data, error } = await supabaseAdmin
+    .from('users')
+    .select('id')
+    .eq('phone', normalizeWhatsAppNumber(sender))
+    .eq('unlock_code_hash', hashUnlockCode(code))
+    .gt('locked_until', new Date().toISOString())
+    .maybeSingle();
+
+  if (error || !data) {
+    return false;
+  }
+
+  await clearFailedLogins(data.id);
+  return true;
+}
@@ -0,0 +1,71 @@
+/**
+ * Authentication Cookie Helpers
+ * Single place for auth cookie names, flags and lifetimes (Edge Runtime compatible)
+ */
+
+import { NextResponse } from 'next/server';
+import { getTokenLifetimes } from './jwt-config';
+
+export const ACCESS_TOKEN_COOKIE = 'auth_token';
+export const REFRESH_TOKEN_COOKIE = 'refresh_token';
+export const OAUTH_SESSION_COOKIE = 'oauth_session';
+
+// Refresh cookie is only sent to API routes (refresh and logout need it, pages don't)
+const REFRESH_TOKEN_PATH = '/api';
+
+// Copy of the access token for the OIDC authorization endpoint only. Relying parties
+// send users there with a cross-site redirect, which never carries the Strict cookie,
+// so this one is SameSite=Lax (sent on top-level GET navigations) and scoped to that path.
+const OAUTH_SESSION_PATH = '/api/oauth/authorize';
+
+/**
+ * Set the access token cookie (Max-Age matches JWT_EXPIRES_IN)
+ * Also sets the OIDC authorization endpoint's copy of it.
+ * @param response - NextResponse object
+ * @param token - Signed access token
+ */
+export function setAccessTokenCookie(response: NextResponse, token: string): void {
+  const { accessTokenSeconds } = getTokenLifetimes();
+
+  response.headers.append(
+    'Set-Cookie',
+    `${ACCESS_TOKEN_COOKIE}=${token}; HttpOnly; Secure; Path=/; Max-Age=${accessTokenSeconds}; SameSite=Strict`
+  );
+  response.headers.append(
+    'Set-Cookie',
+    `${OAUTH_SESSION_COOKIE}=${token}; HttpOnly; Secure; Path=${OAUTH_SESSION_PATH}; Max-Age=${accessTokenSeconds}; SameSite=Lax`
+  );
+}
+
+/**
+ * Set the refresh token cookie (Max-Age matches JWT_REFRESH_EXPIRES_IN)
+ * @param response - NextResponse object
+ * @param token - Signed refresh token
+ */
+export function setRefreshTokenCookie(response: NextResponse, token: string): void {
+  const { refreshTokenSeconds } = getTokenLifetimes();
+
+  response.headers.append(
+    'Set-Cookie',
+    `${REFRESH_TOKEN_COOKIE}=${token}; HttpOnly; Secure; Path=${REFRESH_TOKEN_PATH}; Max-Age=${refreshTokenSeconds}; SameSite=Strict`
+  );
+}
+
+/**
+ * Clear the access (and OIDC session) and refresh cookies
+ * @param response - NextResponse object
+ */
+export function clearAuthCookies(response: NextResponse): void {
+  response.headers.append(
+    'Set-Cookie',
+    `${ACCESS_TOKEN_COOKIE}=; HttpOnly; Secure; Path=/; Max-Age=0; SameSite=Strict`
+  );
+  response.headers.append(
+    'Set-Cookie',
+    `${OAUTH_SESSION_COOKIE}=; HttpOnly; Secure; Path=${OAUTH_SESSION_PATH}; Max-Age=0; SameSite=Lax`
+  );
+  response.headers.append(
+    'Set-Cookie',
+    `${REFRESH_TOKEN_COOKIE}=; HttpOnly; Secure; Path=${REFRESH_TOKEN_PATH}; Max-Age=0; SameSite=Strict`
+  );
+}
@@ -0,0 +1,138 @@
+/**
+ * Built-in chat commands: HELP, STATUS, RESET, STOP, START and LANGUAGE
+ * Replies come from the message catalog in lib/i18n.
+ */
+
+import { getSupabaseAdmin } from '../supabaseAdmin';
+import { isOptedOut, setConsentStatus } from '../messaging-consent';
+import { RESET_LINK_TTL_MINUTES, startPasswordResetFromPhone } from '../phone-password-reset';
+import { sanitizeUserInput } from '../secure-error-handling-enhanced';
+import { isLocale, LOCALE_NAMES, setPreferredLocale, SUPPORTED_LOCALES, translate } from '../i18n';
+import { ChatCommand } from './types';
+
+const help: ChatCommand = {
+  name: 'HELP',
+  aliases: ['MENU'],
+  description: locale => translate(locale, 'help.description'),
+  handle: async ({ locale, reply, commands }) => {
+    const lines = commands
+      .filter(command => command.description)
+      .map(command => {
+        const description = typeof command.description === 'function' ? command.description(locale) : command.description;
+        return `*${command.name}* - ${description}`;
+      });
+
+    await reply(translate(locale, 'help.reply', { COMMANDS: lines.join('\n') }));
+  },
+};
+
+const status: ChatCommand = {
+  name: 'STATUS',
+  description: locale => translate(locale, 'status.description'),
+  handle: async ({ from, appUrl, locale, reply }) => {
+    const supabaseAdmin = getSupabaseAdmin();
+    const { data: user, error: userError } = await supabaseAdmin
+      .from('users')
+      .select('name, verified')
+      .eq('phone', from)
+      .maybeSingle();
+
+    if (userError) {
+      throw userError;
+    }
+
+    let text: string;
+    if (user?.verified) {
+      text = translate(locale, 'status.verified', { NAME: sanitizeUserInput(user.name) });
+    } else {
+      const { data: pending, error: pendingError } = await supabaseAdmin
+        .from('verification_codes')
+        .select('id')
+        .eq('whatsapp_number', from)
+        .eq('verified', false)
+        .gt('expires_at', new Date().toISOString())
+        .limit(1);
+
+      if (pendingError) {
+        throw pendingError;
+      }
+
+      text = pending && pending.length > 0
+        ? translate(locale, 'status.pending')
+        : translate(locale, 'status.unregistered', { URL: appUrl });
+    }
+
+    if (await isOptedOut(from)) {
+      text += `\n\n${translate(locale, 'status.optedOut')}`;
+    }
+
+    await reply(text);
+  },
+};
+
+const reset: ChatCommand = {
+  name: 'RESET',
+  description: locale => translate(locale, 'reset.description'),
+  handle: async ({ from, appUrl, locale, reply }) => {
+    const result = await startPasswordResetFromPhone(from, appUrl);
+
+    switch (result.status) {
+      case 'created':
+        await reply(translate(locale, 'reset.link', { MINUTES: RESET_LINK_TTL_MINUTES, LINK: result.link }));
+        break;
+
+      case 'no_account':
+        await reply(translate(locale, 'reset.noAccount', { URL: appUrl }));
+        break;
+
+      case 'rate_limited':
+        await reply(translate(locale, 'reset.rateLimited'));
+        break;
+    }
+  },
+};
+
+const stop: ChatCommand = {
+  name: 'STOP',
+  aliases: ['UNSUBSCRIBE'],
+  description: locale => translate(locale, 'stop.description'),
+  handle: async ({ from, messageId, locale, reply }) => {
+    await setConsentStatus(from, 'opted_out', { source: 'keyword', reference: messageId });
+    await reply(translate(locale, 'stop.reply'));
+  },
+};
+
+const start: ChatCommand = {
+  name: 'START',
+  aliases: ['SUBSCRIBE'],
+  description: locale => translate(locale, 'start.description'),
+  handle: async ({ from, messageId, locale, reply }) => {
+    await setConsentStatus(from, 'opted_in', { source: 'keyword', reference: messageId });
+    await reply(translate(locale, 'start.reply'));
+  },
+};
+
+const language: ChatCommand = {
+  name: 'LANGUAGE',
+  aliases: ['IDIOMA'],
+  description: locale => translate(locale, 'language.description'),
+  handle: async ({ from, args, appUrl, locale, reply }) => {
+    const chosen = args.split(/\s+/)[0].toLowerCase();
+
+    if (!isLocale(chosen)) {
+      const options = SUPPORTED_LOCALES.map(option => `${option.toUpperCase()} (${LOCALE_NAMES[option]})`);
+      await reply(translate(locale, 'language.usage', { LANGUAGES: options.join(', ') }));
+      return;
+    }
+
+    if (!(await setPreferredLocale(from, chosen))) {
+      await reply(translate(locale, 'language.noAccount', { URL: appUrl }));
+      return;
+    }
+
+    // Confirmed in the newly chosen language
+    await reply(translate(chosen, 'language.set'));
+  },
+};
+
+export const BUILTIN_COMMANDS: ChatCommand[] = [help, status, reset, stop, start, language];
@@ -0,0 +1,19 @@
+/**
+ * App-specific chat commands
+ * Add your own commands here; they are registered after the built-in ones, so a
+ * command with the same name (e.g. HELP) replaces the built-in. For example:
+ *
+ *   {
+ *     name: 'HOURS',
+ *     description: 'our opening hours',
+ *     handle: async ({ reply }) => reply('🕘 We are open Monday to Friday, 9:00-17:00.'),
+ *   },
+ *
+ * The description can also be a function of the reply locale (see lib/i18n), and
+ * handlers get the locale in their context.
+ * Commands can also be added at runtime with registerCommand() from lib/commands.
+ */
+
+import { ChatCommand } from './types';
+
+export const CUSTOM_COMMANDS: ChatCommand[] = [];
@@ -0,0 +1,69 @@
+/**
+ * Chat Command Router
+ * Matches the first word of an inbound WhatsApp message against the registered
+ * commands (case-insensitive, trailing punctuation ignored) and runs the handler.
+ * The built-in commands are registered first, then CUSTOM_COMMANDS (./custom.ts);
+ * a later registration of the same keyword replaces the earlier one.
+ */
+
+import { BUILTIN_COMMANDS } from './builtin';
+import { CUSTOM_COMMANDS } from './custom';
+import { ChatCommand, CommandContext } from './types';
+
+export * from './types';
+
+// Keyword (upper case) -> command
+const registry = new Map<string, ChatCommand>();
+
+/**
+ * Register a command under its name and aliases
+ */
+export function registerCommand(command: ChatCommand): void {
+  for (const keyword of [command.name, ...(command.aliases || [])]) {
+    registry.set(keyword.toUpperCase(), command);
+  }
+}
+
+/**
+ * Registered commands, each once, in registration order
+ */
+export function getRegisteredCommands(): ChatCommand[] {
+  return Array.from(new Set(registry.values()));
+}
+
+/**
+ * Find the command a message starts with
+ * @returns The command and the rest of the message, or null if the first word isn't a command
+ */
+export function matchCommand(text: string): { command: ChatCommand; args: string } | null {
+  const match = text.trim().match(/^(\S+)\s*([\s\S]*)$/);
+  if (!match) {
+    return null;
+  }
+
+  const keyword = match[1].replace(/[.!,;:]+$/, '').toUpperCase();
+  const command = registry.get(keyword);
+
+  return command ? { command, args: match[2].trim() } : null;
+}
+
+/**
+ * Run the command a message starts with
+ * @returns The name of the command that handled it, or null if it wasn't a command
+ * @throws Whatever the handler throws (the webhook reports the message as failed)
+ */
+export async function dispatchCommand(
+  text: string,
+  context: Omit<CommandContext, 'args' | 'commands'>
+): Promise<string | null> {
+  const matched = matchCommand(text);
+  if (!matched) {
+    return null;
+  }
+
+  await matched.command.handle({ ...context, args: matched.args, commands: getRegisteredCommands() });
+  return matched.command.name;
+}
+
+BUILTIN_COMMANDS.forEach(registerCommand);
+CUSTOM_COMMANDS.forEach(registerCommand);
@@ -0,0 +1,35 @@
+/**
+ * Chat Command Interface
+ * A command is a keyword the bot answers on WhatsApp ("HELP", "STATUS", ...).
+ * Built-in commands live in ./builtin.ts; register your own in ./custom.ts.
+ */
+
+import { OutboundMessageContext } from '../outbound-messages';
+import { Locale } from '../i18n';
+
+export interface CommandContext {
+  // Sender's number, digits only in international format
+  from: string;
+  messageId: string;
+  // Everything after the command word, trimmed
+  args: string;
+  // Public base URL of the app, for links in replies
+  appUrl: string;
+  // Language to reply in (see lib/i18n)
+  locale: Locale;
+  // Every registered command (for HELP)
+  commands: ChatCommand[];
+  /**
+   * Queue the reply to this message (one per inbound message, see lib/message-outbox)
+   */
+  reply(text: string, context?: OutboundMessageContext): Promise<void>;
+}
+
+export interface ChatCommand {
+  // Keyword matched (case-insensitively) against the first word of a message
+  name: string;
+  aliases?: string[];
+  // One line for HELP, fixed or per locale; commands without one aren't listed
+  description?: string | ((locale: Locale) => string);
+  handle(context: CommandContext): Promise<void>;
+}
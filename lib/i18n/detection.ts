@@ -0,0 +1,88 @@
+/**
+ * Locale Detection
+ * Guesses a sender's language from their number's country calling code or from
+ * the words in their message. Both are hints: a stored preference always wins
+ * (see ./preferences.ts).
+ */
+
+import { normalizeWhatsAppNumber } from '../sender-binding';
+import { Locale } from './types';
+
+// Country calling code -> locale, for countries where Spanish or Portuguese is the
+// main language (anything else has no locale of its own)
+const CALLING_CODE_LOCALES: Record<string, Locale> = {
+  // Spanish
+  '34': 'es', // Spain
+  '52': 'es', // Mexico
+  '53': 'es', // Cuba
+  '54': 'es', // Argentina
+  '56': 'es', // Chile
+  '57': 'es', // Colombia
+  '58': 'es', // Venezuela
+  '51': 'es', // Peru
+  '240': 'es', // Equatorial Guinea
+  '502': 'es', // Guatemala
+  '503': 'es', // El Salvador
+  '504': 'es', // Honduras
+  '505': 'es', // Nicaragua
+  '506': 'es', // Costa Rica
+  '507': 'es', // Panama
+  '591': 'es', // Bolivia
+  '593': 'es', // Ecuador
+  '595': 'es', // Paraguay
+  '598': 'es', // Uruguay
+  '1809': 'es', // Dominican Republic
+  '1829': 'es',
+  '1849': 'es',
+  // Portuguese
+  '55': 'pt', // Brazil
+  '351': 'pt', // Portugal
+  '238': 'pt', // Cape Verde
+  '239': 'pt', // São Tomé and Príncipe
+  '244': 'pt', // Angola
+  '245': 'pt', // Guinea-Bissau
+  '258': 'pt', // Mozambique
+  '670': 'pt', // Timor-Leste
+};
+
+// Common words that give a language away (words shared by Spanish and
+// Portuguese, like "código", are left out)
+const LOCALE_WORDS: Record<Locale, string[]> = {
+  en: ['hi', 'hello', 'thanks', 'thank', 'you', 'please', 'help', 'password', 'my', 'the', 'is', 'what', 'how', 'yes'],
+  es: ['hola', 'gracias', 'ayuda', 'buenos', 'buenas', 'días', 'contraseña', 'cuenta', 'quiero', 'necesito', 'qué', 'cómo', 'sí', 'el', 'mi', 'es', 'tengo', 'usted'],
+  pt: ['olá', 'oi', 'obrigado', 'obrigada', 'ajuda', 'bom', 'boa', 'dia', 'senha', 'conta', 'quero', 'preciso', 'você', 'não', 'sim', 'meu', 'minha', 'tenho', 'é'],
+};
+
+/**
+ * Locale of a number's country, by its calling code (longest match first)
+ * @returns null for countries without a translated locale
+ */
+export function localeFromPhoneNumber(phone: string): Locale | null {
+  const digits = normalizeWhatsAppNumber(phone);
+
+  for (let length = 4; length >= 1; length--) {
+    const locale = CALLING_CODE_LOCALES[digits.substring(0, length)];
+    if (locale) {
+      return locale;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Language of an inbound message, from the common words it contains
+ * @returns null when the message has no telling words or it's a tie
+ */
+export function detectMessageLocale(text: string): Locale | null {
+  const words = text.toLowerCase().match(/[a-zà-öø-ÿ]+/g) || [];
+  const scores = (Object.keys(LOCALE_WORDS) as Locale[])
+    .map(locale => ({ locale, score: words.filter(word => LOCALE_WORDS[locale].indexOf(word) !== -1).length }))
+    .sort((a, b) => b.score - a.score);
+
+  if (scores[0].score === 0 || scores[0].score === scores[1].score) {
+    return null;
+  }
+
+  return scores[0].locale;
+}
@@ -0,0 +1,34 @@
+/**
+ * Bot Message Catalog
+ * Every reply the WhatsApp bot sends is looked up here by message id, in the
+ * recipient's locale (see resolveLocale in ./preferences.ts), with its {PLACEHOLDERS}
+ * filled in. English (./messages/en.ts) defines the ids; every other locale must
+ * translate all of them.
+ */
+
+import { en } from './messages/en';
+import { es } from './messages/es';
+import { pt } from './messages/pt';
+import { Locale, MessageId, MessageParameters, Messages } from './types';
+
+export * from './types';
+export * from './locales';
+export { detectMessageLocale, localeFromPhoneNumber } from './detection';
+export { resolveLocale, setPreferredLocale } from './preferences';
+
+const CATALOG: Record<Locale, Messages> = { en, es, pt };
+
+/**
+ * Look up a message in a locale and fill in its placeholders
+ * A placeholder without a value is left as it is.
+ * @param locale - Recipient's locale
+ * @param id - Message id (see ./messages/en.ts)
+ * @param parameters - Values for {PLACEHOLDERS}, e.g. { NAME: 'Ana' }
+ */
+export function translate(locale: Locale, id: MessageId, parameters: MessageParameters = {}): string {
+  const message = CATALOG[locale][id];
+
+  return message.replace(/\{([A-Z_]+)\}/g, (placeholder, name: string) =>
+    name in parameters ? String(parameters[name]) : placeholder
+  );
+}
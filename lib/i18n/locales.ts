@@ -0,0 +1,26 @@
+/**
+ * Supported Locales
+ */
+
+import { Locale } from './types';
+
+export const SUPPORTED_LOCALES: Locale[] = ['en', 'es', 'pt'];
+
+// Each language's own name, for LANGUAGE
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  es: 'Español',
+  pt: 'Português',
+};
+
+export function isLocale(value: string): value is Locale {
+  return SUPPORTED_LOCALES.indexOf(value as Locale) !== -1;
+}
+
+/**
+ * Locale for senders nothing is known about (BOT_DEFAULT_LOCALE, or English)
+ */
+export function getDefaultLocale(): Locale {
+  const configured = (process.env.BOT_DEFAULT_LOCALE || '').toLowerCase();
+  return isLocale(configured) ? configured : 'en';
+}
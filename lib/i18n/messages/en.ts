@@ -0,0 +1,52 @@
+/**
+ * English bot replies (the reference catalog: every message id is defined here)
+ * Placeholders like {NAME} are filled in by translate().
+ */
+
+export const en = {
+  // "Was this you?" login confirmation buttons
+  'login.approved': '✅ Sign-in approved. You can continue in your browser.',
+  'login.denied': '🚫 Sign-in blocked - nobody was signed in.\n\nWhoever tried it knows your password. Reset it now ("Forgot your password?") to keep them out.',
+  'login.stale': '⌛ This sign-in request has expired or was already answered.',
+  'login.ambiguous': '⚠️ More than one sign-in to your account is waiting for an answer, so nothing was approved. If only one of them is yours, answer NO to the others (with their ids) and sign in again.',
+
+  // UNLOCK <code>
+  'unlock.success': '🔓 Your account is unlocked. You can sign in again.',
+  'unlock.invalid': '❌ Invalid or expired unlock code.',
+
+  // Verification codes
+  'verification.invalidFormat': '❌ Invalid code format: {CODE}\n\nPlease send a valid 6-character code with both letters and numbers.',
+  'verification.invalidCode': '❌ Invalid verification code. Please check and try again.',
+  'verification.wrongSender': '❌ This code was issued for a different WhatsApp number.\n\nPlease send it from the number you entered on the website.',
+  'verification.alreadyVerified': '✅ You are already verified! You can access the protected page.',
+  'verification.updateFailed': '❌ Error verifying your code. Please try again.',
+  'verification.success': '✅ Verification successful!\n\nWelcome, {NAME}! You can now access the protected page.',
+
+  'unrecognized': "🤔 Sorry, I didn't understand that.\n\nReply HELP to see what I can do, or send the code shown on the website to verify your number.",
+
+  // Chat commands (lib/commands/builtin.ts)
+  'help.description': 'show this list',
+  'help.reply': "🤖 Here's what you can send me:\n\n{COMMANDS}\n\nTo verify your number, send the code shown on the website.",
+
+  'status.description': 'check whether this number is registered',
+  'status.verified': '✅ This number is registered and verified (account: {NAME}).',
+  'status.pending': '⏳ This number has a verification in progress. Send the code shown on the website to finish it.',
+  'status.unregistered': "ℹ️ This number isn't registered yet. Sign up at {URL}",
+  'status.optedOut': '🔕 You have opted out of messages from us. Reply START to opt back in.',
+
+  'reset.description': 'get a link to choose a new password',
+  'reset.link': "🔑 Open this link to choose a new password (valid for {MINUTES} minutes, works once):\n\n{LINK}\n\nIf you didn't ask for this, ignore this message.",
+  'reset.noAccount': "ℹ️ There's no account for this number. Sign up at {URL}",
+  'reset.rateLimited': '⏳ Too many password reset requests. Please try again later.',
+
+  'stop.description': 'stop messages from us',
+  'stop.reply': "🔕 You won't get messages from us anymore, apart from codes you ask for. Reply START to opt back in.",
+
+  'start.description': 'get messages from us again',
+  'start.reply': "🔔 You're opted back in. Reply STOP at any time to stop messages.",
+
+  'language.description': 'choose the language of these messages',
+  'language.usage': '🌐 Send LANGUAGE followed by one of: {LANGUAGES}',
+  'language.set': "🌐 Done! I'll answer in English from now on.",
+  'language.noAccount': "ℹ️ Only registered numbers can save a language. Sign up at {URL}",
+};
@@ -0,0 +1,49 @@
+/**
+ * Spanish bot replies
+ */
+
+import { Messages } from '../types';
+
+export const es: Messages = {
+  'login.approved': '✅ Inicio de sesión aprobado. Puedes continuar en tu navegador.',
+  'login.denied': '🚫 Inicio de sesión bloqueado: nadie ha entrado en tu cuenta.\n\nQuien lo intentó conoce tu contraseña. Cámbiala ahora ("¿Olvidaste tu contraseña?") para mantenerle fuera.',
+  'login.stale': '⌛ Esta solicitud de inicio de sesión ha caducado o ya fue respondida.',
+  'login.ambiguous': '⚠️ Hay más de un inicio de sesión en tu cuenta esperando respuesta, así que no se aprobó ninguno. Si solo uno es tuyo, responde NO a los demás (con su código) y vuelve a iniciar sesión.',
+
+  'unlock.success': '🔓 Tu cuenta está desbloqueada. Ya puedes iniciar sesión.',
+  'unlock.invalid': '❌ Código de desbloqueo no válido o caducado.',
+
+  'verification.invalidFormat': '❌ Formato de código no válido: {CODE}\n\nEnvía un código de 6 caracteres que tenga letras y números.',
+  'verification.invalidCode': '❌ Código de verificación no válido. Revísalo e inténtalo de nuevo.',
+  'verification.wrongSender': '❌ Este código se generó para otro número de WhatsApp.\n\nEnvíalo desde el número que indicaste en la web.',
+  'verification.alreadyVerified': '✅ ¡Ya estás verificado! Puedes acceder a la página protegida.',
+  'verification.updateFailed': '❌ Error al verificar tu código. Inténtalo de nuevo.',
+  'verification.success': '✅ ¡Verificación completada!\n\nBienvenido/a, {NAME}. Ya puedes acceder a la página protegida.',
+
+  'unrecognized': '🤔 Lo siento, no te he entendido.\n\nResponde HELP para ver lo que puedo hacer, o envía el código que aparece en la web para verificar tu número.',
+
+  'help.description': 'ver esta lista',
+  'help.reply': '🤖 Esto es lo que me puedes enviar:\n\n{COMMANDS}\n\nPara verificar tu número, envía el código que aparece en la web.',
+
+  'status.description': 'comprobar si este número está registrado',
+  'status.verified': '✅ Este número está registrado y verificado (cuenta: {NAME}).',
+  'status.pending': '⏳ Este número tiene una verificación en curso. Envía el código que aparece en la web para completarla.',
+  'status.unregistered': 'ℹ️ Este número aún no está registrado. Regístrate en {URL}',
+  'status.optedOut': '🔕 Has dejado de recibir nuestros mensajes. Responde START para volver a recibirlos.',
+
+  'reset.description': 'recibir un enlace para elegir una contraseña nueva',
+  'reset.link': '🔑 Abre este enlace para elegir una contraseña nueva (válido durante {MINUTES} minutos, un solo uso):\n\n{LINK}\n\nSi no lo has pedido tú, ignora este mensaje.',
+  'reset.noAccount': 'ℹ️ No hay ninguna cuenta con este número. Regístrate en {URL}',
+  'reset.rateLimited': '⏳ Demasiadas solicitudes de cambio de contraseña. Inténtalo más tarde.',
+
+  'stop.description': 'dejar de recibir nuestros mensajes',
+  'stop.reply': '🔕 Ya no recibirás mensajes nuestros, salvo los códigos que pidas. Responde START para volver a recibirlos.',
+
+  'start.description': 'volver a recibir nuestros mensajes',
+  'start.reply': '🔔 Vuelves a recibir nuestros mensajes. Responde STOP cuando quieras para dejar de recibirlos.',
+
+  'language.description': 'elegir el idioma de estos mensajes',
+  'language.usage': '🌐 Envía LANGUAGE seguido de uno de estos: {LANGUAGES}',
+  'language.set': '🌐 ¡Hecho! A partir de ahora te responderé en español.',
+  'language.noAccount': 'ℹ️ Solo los números registrados pueden guardar un idioma. Regístrate en {URL}',
+};
@@ -0,0 +1,49 @@
+/**
+ * Portuguese bot replies
+ */
+
+import { Messages } from '../types';
+
+export const pt: Messages = {
+  'login.approved': '✅ Login aprovado. Você pode continuar no seu navegador.',
+  'login.denied': '🚫 Login bloqueado: ninguém entrou na sua conta.\n\nQuem tentou sabe a sua senha. Altere-a agora ("Esqueceu sua senha?") para impedir o acesso.',
+  'login.stale': '⌛ Este pedido de login expirou ou já foi respondido.',
+  'login.ambiguous': '⚠️ Há mais de um login na sua conta aguardando resposta, então nenhum foi aprovado. Se só um for seu, responda NO aos outros (com o código deles) e entre novamente.',
+
+  'unlock.success': '🔓 Sua conta foi desbloqueada. Você já pode entrar novamente.',
+  'unlock.invalid': '❌ Código de desbloqueio inválido ou expirado.',
+
+  'verification.invalidFormat': '❌ Formato de código inválido: {CODE}\n\nEnvie um código de 6 caracteres com letras e números.',
+  'verification.invalidCode': '❌ Código de verificação inválido. Confira e tente novamente.',
+  'verification.wrongSender': '❌ Este código foi gerado para outro número de WhatsApp.\n\nEnvie-o a partir do número informado no site.',
+  'verification.alreadyVerified': '✅ Você já está verificado! Pode acessar a página protegida.',
+  'verification.updateFailed': '❌ Erro ao verificar seu código. Tente novamente.',
+  'verification.success': '✅ Verificação concluída!\n\nBem-vindo(a), {NAME}! Agora você pode acessar a página protegida.',
+
+  'unrecognized': '🤔 Desculpe, não entendi.\n\nResponda HELP para ver o que posso fazer, ou envie o código mostrado no site para verificar seu número.',
+
+  'help.description': 'ver esta lista',
+  'help.reply': '🤖 Isto é o que você pode me enviar:\n\n{COMMANDS}\n\nPara verificar seu número, envie o código mostrado no site.',
+
+  'status.description': 'ver se este número está cadastrado',
+  'status.verified': '✅ Este número está cadastrado e verificado (conta: {NAME}).',
+  'status.pending': '⏳ Este número tem uma verificação em andamento. Envie o código mostrado no site para concluí-la.',
+  'status.unregistered': 'ℹ️ Este número ainda não está cadastrado. Cadastre-se em {URL}',
+  'status.optedOut': '🔕 Você optou por não receber nossas mensagens. Responda START para voltar a recebê-las.',
+
+  'reset.description': 'receber um link para criar uma nova senha',
+  'reset.link': '🔑 Abra este link para criar uma nova senha (válido por {MINUTES} minutos, uso único):\n\n{LINK}\n\nSe não foi você que pediu, ignore esta mensagem.',
+  'reset.noAccount': 'ℹ️ Não há conta para este número. Cadastre-se em {URL}',
+  'reset.rateLimited': '⏳ Muitos pedidos de redefinição de senha. Tente novamente mais tarde.',
+
+  'stop.description': 'parar de receber nossas mensagens',
+  'stop.reply': '🔕 Você não vai mais receber nossas mensagens, exceto os códigos que pedir. Responda START para voltar a recebê-las.',
+
+  'start.description': 'voltar a receber nossas mensagens',
+  'start.reply': '🔔 Você voltou a receber nossas mensagens. Responda STOP a qualquer momento para parar.',
+
+  'language.description': 'escolher o idioma destas mensagens',
+  'language.usage': '🌐 Envie LANGUAGE seguido de um destes: {LANGUAGES}',
+  'language.set': '🌐 Pronto! A partir de agora vou responder em português.',
+  'language.noAccount': 'ℹ️ Só números cadastrados podem salvar um idioma. Cadastre-se em {URL}',
+};
@@ -0,0 +1,55 @@
+/**
+ * Reply Locale
+ * Picks the language to answer a WhatsApp sender in, and stores the one they choose
+ * with LANGUAGE (users.preferred_locale, registered numbers only).
+ */
+
+import { getSupabaseAdmin } from '../supabaseAdmin';
+import { normalizeWhatsAppNumber } from '../sender-binding';
+import { detectMessageLocale, localeFromPhoneNumber } from './detection';
+import { getDefaultLocale, isLocale } from './locales';
+import { Locale } from './types';
+
+/**
+ * Locale to answer a sender in: their stored preference, else their number's
+ * country calling code, else the language of their message, else the default
+ * @param phone - Sender's WhatsApp number
+ * @param text - Text of the message being answered
+ */
+export async function resolveLocale(phone: string, text: string): Promise<Locale> {
+  const supabaseAdmin = getSupabaseAdmin();
+  const { data: user, error } = await supabaseAdmin
+    .from('users')
+    .select('preferred_locale')
+    .eq('phone', normalizeWhatsAppNumber(phone))
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  if (user?.preferred_locale && isLocale(user.preferred_locale)) {
+    return user.preferred_locale;
+  }
+
+  return localeFromPhoneNumber(phone) || detectMessageLocale(text) || getDefaultLocale();
+}
+
+/**
+ * Save the locale a registered number's owner chose
+ * @returns False if there's no account for the number
+ */
+export async function setPreferredLocale(phone: string, locale: Locale): Promise<boolean> {
+  const supabaseAdmin = getSupabaseAdmin();
+  const { data, error } = await supabaseAdmin
+    .from('users')
+    .update({ preferred_locale: locale })
+    .eq('phone', normalizeWhatsAppNumber(phone))
+    .select('id');
+
+  if (error) {
+    throw error;
+  }
+
+  return !!data && data.length > 0;
+}
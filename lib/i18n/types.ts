@@ -0,0 +1,16 @@
+/**
+ * Bot Message Catalog Types
+ */
+
+import { en } from './messages/en';
+
+export type Locale = 'en' | 'es' | 'pt';
+
+// Every message id, as defined by the English catalog
+export type MessageId = keyof typeof en;
+
+// A full translation: TypeScript flags a locale that misses a message
+export type Messages = Record<MessageId, string>;
+
+// Values for the {PLACEHOLDERS} in a message
+export type MessageParameters = Record<string, string | number>;
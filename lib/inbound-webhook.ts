@@ -0,0 +1,420 @@
+/**
+ * Inbound WhatsApp Webhook Processing
+ * Handles a verified webhook delivery: each inbound message (login confirmation
+ * buttons, UNLOCK, verification codes, chat commands) and each delivery status
+ * callback. Used by the webhook route for live deliveries and by the replay route
+ * for stored ones (see lib/webhook-events).
+ */
+
+import { getSupabaseAdmin } from './supabaseAdmin';
+import { extractVerificationCode } from './whatsapp';
+import { validateVerificationCode } from './security';
+import { DeliveryStatusUpdate, getMessagingProvider, InboundMessage, WebhookRequest } from './messaging';
+import { applyDeliveryStatus, OutboundMessageContext } from './outbound-messages';
+import { enqueueWhatsAppMessage } from './message-outbox';
+import { logSecurityEvent } from './webhook-security';
+import { hitRateLimit } from './rate-limit-store';
+import { extractUnlockCode, unlockAccountWithCode } from './account-lockout';
+import {
+  decideLoginApproval,
+  findPendingLoginApproval,
+  parseLoginApprovalButton,
+  parseLoginApprovalReply
+} from './login-approval';
+import { dispatchCommand } from './commands';
+import { resolveLocale, translate } from './i18n';
+import { isOptedOut, recordInitialOptIn } from './messaging-consent';
+import { checkSenderBinding, maskPhoneNumber } from './sender-binding';
+import {
+  claimInboundMessage,
+  completeInboundMessage,
+  completeWebhookEvent,
+  releaseInboundMessages
+} from './webhook-events';
+import { sanitizeUserInput } from './secure-error-handling-enhanced';
+
+// What happened to one inbound message ('failed' = unexpected error, 'rate_limited' =
+// sender over the limit; both give up their claim and are retried on redelivery or replay)
+export type MessageOutcome =
+  | 'duplicate'
+  | 'rate_limited'
+  | 'login_approved'
+  | 'login_denied'
+  | 'login_approval_rejected'
+  | 'login_approval_stale'
+  | 'login_approval_ambiguous'
+  | 'unlocked'
+  | 'unlock_rejected'
+  | 'invalid_code'
+  | 'sender_rejected'
+  | 'already_verified'
+  | 'verified'
+  | 'update_failed'
+  | 'command'
+  | 'unrecognized'
+  | 'ignored'
+  | 'failed';
+
+export interface WebhookDeliverySummary {
+  received: number;
+  outcomes: Partial<Record<MessageOutcome, number>>;
+  statuses: number;
+  statusesFailed: number;
+}
+
+export interface ProcessDeliveryOptions {
+  // Stored webhook_events row of the delivery
+  eventId: string;
+  // Public base URL of the app, for links in replies
+  appUrl: string;
+  // Replays only: the event's new replay count, and whether to handle messages
+  // that were already handled (their replies are still never queued twice)
+  replayCount?: number;
+  force?: boolean;
+}
+
+// One processing run of a delivery
+interface DeliveryRun {
+  eventId: string;
+  appUrl: string;
+  errors: string[];
+}
+
+/**
+ * Thrown for a verified delivery whose body can't be parsed; its event is already
+ * marked failed. Redelivering it won't help, so the webhook still acknowledges it.
+ */
+export class UnparseableDeliveryError extends Error {
+  constructor(reason: string) {
+    super(`Unparseable delivery: ${reason}`);
+    this.name = 'UnparseableDeliveryError';
+  }
+}
+
+// Rate limiting for WhatsApp messages (per sender, shared via the rate limit store)
+export const RATE_LIMIT_WINDOW = 60 * 1000; // 1 minute
+const MAX_MESSAGES_PER_MINUTE = 5; // Reduced from 10 for security
+
+/**
+ * Process a verified delivery and record the result on its webhook event
+ * Meta batches events: every message is handled on its own, so one bad message
+ * doesn't drop the rest of the delivery.
+ * @throws UnparseableDeliveryError when the body can't be parsed (the event is marked failed first)
+ */
+export async function processWebhookDelivery(
+  request: WebhookRequest,
+  options: ProcessDeliveryOptions
+): Promise<WebhookDeliverySummary> {
+  const run: DeliveryRun = { eventId: options.eventId, appUrl: options.appUrl, errors: [] };
+
+  let parsed;
+  try {
+    parsed = getMessagingProvider().parseWebhook(request);
+  } catch (error) {
+    const parseError = new UnparseableDeliveryError(error instanceof Error ? error.message : String(error));
+    await completeWebhookEvent(options.eventId, {
+      messageIds: [],
+      summary: {},
+      failed: true,
+      error: parseError.message,
+      replayCount: options.replayCount,
+    });
+    throw parseError;
+  }
+
+  const { messages, statuses } = parsed;
+  const messageIds = messages.map(message => message.id);
+
+  if (options.force) {
+    await releaseInboundMessages(messageIds);
+  }
+
+  const summary: WebhookDeliverySummary = { received: messages.length, outcomes: {}, statuses: statuses.length, statusesFailed: 0 };
+  for (const message of messages) {
+    const outcome = await processInboundMessage(message, run);
+    summary.outcomes[outcome] = (summary.outcomes[outcome] || 0) + 1;
+  }
+
+  // Delivery status callbacks for messages we sent
+  for (const status of statuses) {
+    if (!(await processDeliveryStatus(status, run))) {
+      summary.statusesFailed++;
+    }
+  }
+
+  if (messages.length > 0 || summary.statusesFailed > 0) {
+    console.log('WhatsApp webhook delivery processed:', summary);
+  }
+
+  await completeWebhookEvent(options.eventId, {
+    messageIds,
+    summary,
+    failed: !!summary.outcomes.failed || !!summary.outcomes.rate_limited || summary.statusesFailed > 0,
+    error: run.errors.length > 0 ? run.errors.join('\n') : undefined,
+    replayCount: options.replayCount,
+  });
+
+  return summary;
+}
+
+/**
+ * Handle one inbound message: dedupe, per-sender rate limit, then handleInboundMessage
+ * Never throws; unexpected errors are logged and reported as 'failed'.
+ */
+async function processInboundMessage(message: InboundMessage, run: DeliveryRun): Promise<MessageOutcome> {
+  const messageId = message.id;
+  let claimed = false;
+
+  try {
+    // Skip messages already handled, by an earlier delivery or another instance
+    if (!(await claimInboundMessage(messageId, run.eventId))) {
+      return 'duplicate';
+    }
+    claimed = true;
+
+    // Enhanced rate limiting check with stricter limits
+    const { count: messageCount } = await hitRateLimit(`whatsapp_message:${message.from}`, RATE_LIMIT_WINDOW);
+    if (messageCount > MAX_MESSAGES_PER_MINUTE) {
+      console.log(`Rate limit exceeded for phone ${maskPhoneNumber(message.from)}`);
+      await releaseInboundMessages([messageId]);
+      return 'rate_limited';
+    }
+
+    const outcome = await handleInboundMessage(message, run.appUrl);
+    await completeInboundMessage(messageId);
+    return outcome;
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    console.error(`Error processing WhatsApp message ${sanitizeUserInput(messageId)}:`, sanitizeUserInput(reason));
+    run.errors.push(`${messageId}: ${reason}`);
+
+    // Let a redelivery or replay try this message again (if this fails too, the
+    // claim goes stale and is taken over after a few minutes)
+    if (claimed) {
+      try {
+        await releaseInboundMessages([messageId]);
+      } catch (releaseError) {
+        console.error('Error releasing WhatsApp message claim:', sanitizeUserInput(releaseError instanceof Error ? releaseError.message : releaseError));
+      }
+    }
+    return 'failed';
+  }
+}
+
+/**
+ * Act on one claimed inbound message: a login confirmation button, UNLOCK, a
+ * verification code or a chat command (see lib/commands)
+ * @param appUrl - Public base URL of the app, for links in replies
+ * @throws On unexpected errors (the message is reported as failed)
+ */
+async function handleInboundMessage(message: InboundMessage, appUrl: string): Promise<MessageOutcome> {
+  const messageId = message.id;
+  const from = message.from;
+  const messageText = message.text;
+
+  // Replies are queued rather than sent inline (see lib/message-outbox); keyed by the
+  // inbound message, so a redelivered message can't queue a second reply. A reply
+  // answers the user's own message, so it goes out even after STOP.
+  const reply = (text: string, context: OutboundMessageContext = {}) =>
+    enqueueWhatsAppMessage(from, text, { idempotencyKey: `reply:${messageId}`, userRequested: true, ...context });
+
+  // Replies are in the sender's language (see lib/i18n)
+  const locale = await resolveLocale(from, messageText);
+
+  // "Was this you?" buttons on a pending password login, or "YES <id>" / "NO <id>"
+  // typed in answer to the plain-text question (only for providers without reply
+  // buttons). A typed YES never approves while another login is pending, so a login
+  // started at the same moment by someone else can't ride on the owner's answer.
+  let loginButton = message.buttonReply ? parseLoginApprovalButton(message.buttonReply.id) : null;
+  const typedAnswer = !message.buttonReply && !getMessagingProvider().replyButtons
+    ? parseLoginApprovalReply(messageText)
+    : null;
+
+  if (typedAnswer) {
+    const pending = await findPendingLoginApproval(from, typedAnswer.shortId);
+    if (!pending) {
+      await reply(translate(locale, 'login.stale'));
+      return 'login_approval_stale';
+    }
+
+    if (typedAnswer.action === 'approve' && pending.otherPending) {
+      logSecurityEvent('login_approval_ambiguous', {
+        approvalId: pending.approvalId,
+        sender: maskPhoneNumber(from),
+        messageId
+      });
+      await reply(translate(locale, 'login.ambiguous'));
+      return 'login_approval_ambiguous';
+    }
+
+    loginButton = { action: typedAnswer.action, approvalId: pending.approvalId };
+  }
+
+  if (loginButton) {
+    const decision = await decideLoginApproval(from, loginButton.approvalId, loginButton.action);
+
+    switch (decision) {
+      case 'approved':
+        await reply(translate(locale, 'login.approved'));
+        return 'login_approved';
+
+      case 'denied':
+        logSecurityEvent('login_denied', {
+          approvalId: loginButton.approvalId,
+          sender: maskPhoneNumber(from),
+          messageId
+        });
+        await reply(translate(locale, 'login.denied'));
+        return 'login_denied';
+
+      case 'rejected':
+        logSecurityEvent('sender_mismatch', {
+          approvalId: loginButton.approvalId,
+          action: 'rejected',
+          sender: maskPhoneNumber(from),
+          messageId
+        });
+        return 'login_approval_rejected';
+
+      case 'stale':
+        await reply(translate(locale, 'login.stale'));
+        return 'login_approval_stale';
+    }
+  }
+
+  // "UNLOCK <code>" from a lockout notice (checked first: the code would
+  // otherwise be mistaken for a verification code)
+  const unlockCode = extractUnlockCode(messageText);
+  if (unlockCode) {
+    const unlocked = await unlockAccountWithCode(from, unlockCode);
+    await reply(translate(locale, unlocked ? 'unlock.success' : 'unlock.invalid'));
+    return unlocked ? 'unlocked' : 'unlock_rejected';
+  }
+
+  // Extract verification code from message
+  const extractedCode = extractVerificationCode(messageText);
+
+  if (extractedCode) {
+    // Validate the extracted code
+    let code: string;
+    try {
+      code = validateVerificationCode(extractedCode);
+    } catch (error: any) {
+      console.log(`Invalid code format: ${extractedCode}`);
+      await reply(translate(locale, 'verification.invalidFormat', { CODE: extractedCode }));
+      return 'invalid_code';
+    }
+
+    // Look up code in database (only non-expired codes)
+    // Outbound codes can only be confirmed through /api/verify-code
+    const supabaseAdmin = getSupabaseAdmin();
+    const { data: verificationData, error: lookupError } = await supabaseAdmin
+      .from('verification_codes')
+      .select('*')
+      .eq('code', code)
+      .eq('delivery_mode', 'inbound')
+      .gt('expires_at', new Date().toISOString())
+      .single();
+
+    // Database lookup completed
+
+    // Bind the code to the number it was issued for
+    const binding = verificationData
+      ? checkSenderBinding(from, verificationData.whatsapp_number)
+      : null;
+
+    if (binding && !binding.matched) {
+      logSecurityEvent('sender_mismatch', {
+        verificationId: verificationData.id,
+        policy: binding.policy,
+        action: binding.allowed ? 'allowed' : 'rejected',
+        sender: maskPhoneNumber(from),
+        expected: maskPhoneNumber(verificationData.whatsapp_number),
+        messageId
+      });
+    }
+
+    if (lookupError || !verificationData) {
+      await reply(translate(locale, 'verification.invalidCode'));
+      return 'invalid_code';
+    } else if (binding && !binding.allowed) {
+      await reply(translate(locale, 'verification.wrongSender'));
+      return 'sender_rejected';
+    } else if (verificationData.verified) {
+      await reply(
+        translate(locale, 'verification.alreadyVerified'),
+        { verificationId: verificationData.id }
+      );
+      return 'already_verified';
+    } else {
+      // Valid code - mark as verified
+      const { error: updateError } = await supabaseAdmin
+        .from('verification_codes')
+        .update({ 
+          verified: true,
+          verified_at: new Date().toISOString()
+        })
+        .eq('code', code);
+
+      if (updateError) {
+        // Log error securely without exposing details
+        console.error('Error updating verification status:', sanitizeUserInput(updateError));
+        await reply(
+          translate(locale, 'verification.updateFailed'),
+          { verificationId: verificationData.id }
+        );
+        return 'update_failed';
+      } else {
+        // Messaging the bot to verify counts as opting in, unless the number
+        // already said STOP or START
+        try {
+          await recordInitialOptIn(from, { source: 'verification', reference: messageId });
+        } catch (consentError) {
+          console.error('Error recording messaging consent:', sanitizeUserInput(consentError instanceof Error ? consentError.message : consentError));
+        }
+
+        await reply(
+          translate(locale, 'verification.success', { NAME: sanitizeUserInput(verificationData.name) }),
+          { verificationId: verificationData.id }
+        );
+        return 'verified';
+      }
+    }
+  }
+
+  // HELP, STATUS, RESET, STOP, START and app-specific commands (first word of the
+  // message; a message with a verification code is always taken as verification)
+  if (await dispatchCommand(messageText, { from, messageId, appUrl, locale, reply })) {
+    return 'command';
+  }
+
+  // Nothing to answer for reactions, media without a caption and the like,
+  // or for numbers that opted out with STOP
+  if (!messageText.trim() || await isOptedOut(from)) {
+    return 'ignored';
+  }
+
+  console.log(`Unrecognized message from ${maskPhoneNumber(from)}`);
+  await reply(translate(locale, 'unrecognized'));
+  return 'unrecognized';
+}
+
+/**
+ * Record one delivery status callback
+ * @returns false if it couldn't be stored (the delivery should be retried)
+ */
+async function processDeliveryStatus(status: DeliveryStatusUpdate, run: DeliveryRun): Promise<boolean> {
+  try {
+    await applyDeliveryStatus(status);
+
+    if (status.status === 'failed') {
+      console.warn(`WhatsApp message to ${maskPhoneNumber(status.recipient)} failed: ${status.errorCode || 'unknown'} ${sanitizeUserInput(status.errorTitle || '')}`);
+    }
+    return true;
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    console.error(`Error recording delivery status for ${sanitizeUserInput(status.messageId)}:`, sanitizeUserInput(reason));
+    run.errors.push(`status ${status.messageId}: ${reason}`);
+    return false;
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * JSON Web Key Set
+ * Publishes the public half of asymmetric (ES256/RS256) signing keys so other
+ * services can verify tokens without the HMAC secret. HS256 keys are never published.
+ */
+
+import { createPublicKey } from 'crypto';
+import { getJWTKeyRing } from './jwt-config';
+
+export interface PublicJWK {
+  kid: string;
+  kty: string;
+  alg: string;
+  use: 'sig';
+  crv?: string;
+  x?: string;
+  y?: string;
+  n?: string;
+  e?: string;
+}
+
+/**
+ * Build the JWKS for all asymmetric keys in the key ring (active and verify-only)
+ * @returns JWKS document
+ */
+export function getPublicJWKS(): { keys: PublicJWK[] } {
+  const keys = getJWTKeyRing()
+    .filter(key => key.alg !== 'HS256' && key.publicKey)
+    .map(key => {
+      const jwk = createPublicKey(key.publicKey as string).export({ format: 'jwk' });
+
+      return {
+        kid: key.kid,
+        kty: jwk.kty as string,
+        alg: key.alg,
+        use: 'sig' as const,
+        ...(jwk.kty === 'EC' ? { crv: jwk.crv, x: jwk.x, y: jwk.y } : { n: jwk.n, e: jwk.e }),
+      };
+    });
+
+  return { keys };
+}
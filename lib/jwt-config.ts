@@ -11,38 +11,227 @@ export interface JWTPayload {
   exp?: number;
 }
 
+/**
+ * Refresh token payload
+ * jti identifies this token, fid the rotation family it belongs to
+ */
+export interface RefreshTokenPayload extends JWTPayload {
+  jti: string;
+  fid: string;
+}
+
+/**
+ * OpenID Connect access token payload (accepted only by /api/oauth/userinfo)
+ */
+export interface OIDCAccessTokenPayload {
+  sub: string;
+  scope: string;
+  client_id: string;
+  sid?: string;         // Login session behind the grant (checked by userinfo)
+  iat?: number;
+  exp?: number;
+}
+
+/**
+ * Signing key statuses:
+ * - active: signs new tokens (exactly one key) and verifies
+ * - verify: only verifies tokens signed before a rotation
+ */
+export type JWTKeyStatus = 'active' | 'verify';
+
+/**
+ * Signing algorithms:
+ * - HS256: shared secret (only this system can verify)
+ * - ES256 / RS256: private key signs, public key is published at /.well-known/jwks.json
+ */
+export type JWTAlgorithm = 'HS256' | 'ES256' | 'RS256';
+
+export const JWT_ALGORITHMS: JWTAlgorithm[] = ['HS256', 'ES256', 'RS256'];
+
+export interface JWTKey {
+  kid: string;
+  alg: JWTAlgorithm;
+  status: JWTKeyStatus;
+  secret?: string;      // HS256
+  privateKey?: string;  // ES256/RS256, PKCS#8 PEM (needed to sign)
+  publicKey?: string;   // ES256/RS256, SPKI PEM (needed to verify)
+}
+
 export interface JWTConfig {
-  secret: string;
+  keys: JWTKey[];
+  activeKey: JWTKey;
   expiresIn: string;
   refreshExpiresIn: string;
 }
 
+// Key id used when only JWT_SECRET is configured, and for tokens issued without a kid header
+export const DEFAULT_KEY_ID = 'default';
+
+const KEY_ID_PATTERN = /^[A-Za-z0-9._-]{1,64}$/;
+
 export function getJWTConfig(): JWTConfig {
+  const keys = getJWTKeyRing();
+
+  const config = {
+    keys,
+    activeKey: keys.find(key => key.status === 'active') as JWTKey,
+    expiresIn: process.env.JWT_EXPIRES_IN || '1h', // Reduced from 24h for security
+    refreshExpiresIn: process.env.JWT_REFRESH_EXPIRES_IN || '7d',
+  };
+
+  return config;
+}
+
+/**
+ * Load the signing key ring
+ * JWT_KEYS (JSON array of {kid, alg, status, secret | privateKey + publicKey}) takes precedence; otherwise
+ * JWT_SECRET is used as a single active key with kid "default"
+ * Edge Runtime compatible (no Node.js APIs)
+ */
+export function getJWTKeyRing(): JWTKey[] {
+  const keyRing = process.env.JWT_KEYS;
+
+  if (keyRing) {
+    return parseJWTKeyRing(keyRing);
+  }
+
   // CRITICAL: Never use default secrets in production
   const secret = process.env.JWT_SECRET;
   
   if (!secret) {
-    throw new Error('JWT_SECRET environment variable is required');
+    throw new Error('JWT_SECRET (or JWT_KEYS) environment variable is required');
   }
 
-  // Validate secret strength
+  validateJWTSecret(secret, 'JWT_SECRET');
+
+  return [{ kid: DEFAULT_KEY_ID, alg: 'HS256', secret, status: 'active' }];
+}
+
+/**
+ * Parse and validate a JWT_KEYS value
+ * @param value - JSON array of {kid, alg, status, secret | privateKey + publicKey}
+ * @returns Validated key ring
+ */
+export function parseJWTKeyRing(value: string): JWTKey[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    throw new Error('JWT_KEYS must be a JSON array of {"kid", "alg", "status", ...} objects');
+  }
+
+  if (!Array.isArray(parsed) || parsed.length === 0) {
+    throw new Error('JWT_KEYS must contain at least one key');
+  }
+
+  const keys = parsed.map((entry: any): JWTKey => {
+    if (!entry || typeof entry.kid !== 'string' || !KEY_ID_PATTERN.test(entry.kid)) {
+      throw new Error('Each JWT_KEYS entry needs a "kid" of letters, digits, ".", "_" or "-"');
+    }
+
+    if (entry.status !== 'active' && entry.status !== 'verify') {
+      throw new Error(`JWT key "${entry.kid}" must have status "active" or "verify"`);
+    }
+
+    // Keys without alg predate asymmetric signing and are HMAC secrets
+    const alg: JWTAlgorithm = entry.alg || 'HS256';
+    if (!JWT_ALGORITHMS.includes(alg)) {
+      throw new Error(`JWT key "${entry.kid}" has unsupported alg "${entry.alg}" (use ${JWT_ALGORITHMS.join(', ')})`);
+    }
+
+    if (alg === 'HS256') {
+      if (typeof entry.secret !== 'string') {
+        throw new Error(`JWT key "${entry.kid}" is missing its secret`);
+      }
+
+      validateJWTSecret(entry.secret, `JWT key "${entry.kid}"`);
+
+      return { kid: entry.kid, alg, secret: entry.secret, status: entry.status };
+    }
+
+    if (typeof entry.publicKey !== 'string' || !entry.publicKey.includes('BEGIN PUBLIC KEY')) {
+      throw new Error(`JWT key "${entry.kid}" needs a "publicKey" in SPKI PEM format`);
+    }
+
+    // Verify-only keys may omit the private key (e.g. on services that only verify)
+    if (entry.status === 'active' && (typeof entry.privateKey !== 'string' || !entry.privateKey.includes('BEGIN PRIVATE KEY'))) {
+      throw new Error(`Active JWT key "${entry.kid}" needs a "privateKey" in PKCS#8 PEM format`);
+    }
+
+    return {
+      kid: entry.kid,
+      alg,
+      status: entry.status,
+      privateKey: entry.privateKey,
+      publicKey: entry.publicKey,
+    };
+  });
+
+  const kids = new Set(keys.map(key => key.kid));
+  if (kids.size !== keys.length) {
+    throw new Error('JWT_KEYS contains duplicate kid values');
+  }
+
+  if (keys.filter(key => key.status === 'active').length !== 1) {
+    throw new Error('JWT_KEYS must contain exactly one key with status "active"');
+  }
+
+  return keys;
+}
+
+/**
+ * Find the key that verifies a token
+ * @param kid - kid header of the token (tokens issued before key rotation have none)
+ * @returns Matching key, or null if the kid is unknown or was retired
+ */
+export function getVerificationKey(kid: string | undefined): JWTKey | null {
+  const keyId = kid || DEFAULT_KEY_ID;
+  return getJWTKeyRing().find(key => key.kid === keyId) || null;
+}
+
+/**
+ * Validate secret strength
+ */
+function validateJWTSecret(secret: string, name: string): void {
   if (secret.length < 64) {
-    throw new Error('JWT_SECRET must be at least 64 characters long for security');
+    throw new Error(`${name} must be at least 64 characters long for security`);
   }
 
   // Validate secret contains sufficient entropy
   const entropy = calculateEntropy(secret);
   if (entropy < 4.0) {
-    throw new Error('JWT_SECRET must contain sufficient entropy (mix of letters, numbers, symbols)');
+    throw new Error(`${name} must contain sufficient entropy (mix of letters, numbers, symbols)`);
   }
+}
 
-  const config = {
-    secret: secret,
-    expiresIn: process.env.JWT_EXPIRES_IN || '1h', // Reduced from 24h for security
-    refreshExpiresIn: process.env.JWT_REFRESH_EXPIRES_IN || '7d',
+/**
+ * Get token lifetimes in seconds (used for cookie Max-Age)
+ * Does not require JWT_SECRET, so it is safe to call from cookie helpers
+ */
+export function getTokenLifetimes(): {
+  accessTokenSeconds: number;
+  refreshTokenSeconds: number;
+} {
+  return {
+    accessTokenSeconds: parseDurationToSeconds(process.env.JWT_EXPIRES_IN || '1h'),
+    refreshTokenSeconds: parseDurationToSeconds(process.env.JWT_REFRESH_EXPIRES_IN || '7d'),
   };
+}
 
-  return config;
+/**
+ * Convert a jsonwebtoken-style duration ("90", "15m", "1h", "7d") to seconds
+ */
+export function parseDurationToSeconds(duration: string): number {
+  const match = duration.trim().match(/^(\d+)\s*(s|m|h|d)?$/i);
+
+  if (!match) {
+    throw new Error(`Invalid token duration "${duration}" - use a number of seconds or a value like 15m, 1h, 7d`);
+  }
+
+  const value = parseInt(match[1], 10);
+  const multipliers: { [unit: string]: number } = { s: 1, m: 60, h: 60 * 60, d: 24 * 60 * 60 };
+
+  return value * multipliers[(match[2] || 's').toLowerCase()];
 }
 
 /**
@@ -3,7 +3,7 @@
  * Performs full cryptographic signature verification
  */
 
-import { JWTPayload } from '@/lib/jwt-config';
+import { JWTKey, JWTPayload, JWT_ALGORITHMS, getVerificationKey } from '@/lib/jwt-config';
 
 /**
  * Verify JWT token with full signature verification (Edge-compatible)
@@ -22,7 +22,7 @@ export function verifyAccessTokenSecure(token: string): JWTPayload | null {
 
     // Decode header to check algorithm
     const header = JSON.parse(atob(headerB64));
-    if (header.alg !== 'HS256') {
+    if (!JWT_ALGORITHMS.includes(header.alg)) {
       return null;
     }
 
@@ -66,35 +66,18 @@ async function verifyJWTSignature(token: string): Promise<boolean> {
 
     const [headerB64, payloadB64, signatureB64] = parts;
     
-    // Get JWT secret
-    const secret = process.env.JWT_SECRET;
-    if (!secret) {
-      console.error('JWT_SECRET not configured');
+    // Get the key named by the token's kid header
+    const key = getTokenKey(JSON.parse(atob(headerB64)));
+    if (!key) {
       return false;
     }
 
-    // Create HMAC key from secret
-    const encoder = new TextEncoder();
-    const keyData = encoder.encode(secret);
-    const cryptoKey = await crypto.subtle.importKey(
-      'raw',
-      keyData,
-      { name: 'HMAC', hash: 'SHA-256' },
-      false,
-      ['verify']
-    );
-
     // Prepare data for verification
     const data = `${headerB64}.${payloadB64}`;
     const signature = Uint8Array.from(atob(signatureB64), c => c.charCodeAt(0));
 
     // Verify signature
-    const isValid = await crypto.subtle.verify(
-      'HMAC',
-      cryptoKey,
-      signature,
-      encoder.encode(data)
-    );
+    const isValid = await verifyWithKey(key, signature, data);
 
     return isValid;
   } catch (error) {
@@ -132,7 +115,7 @@ export async function verifyAccessTokenMiddleware(token: string): Promise<JWTPay
 
     // Decode header to check algorithm
     const header = JSON.parse(base64urlDecode(headerB64));
-    if (header.alg !== 'HS256') {
+    if (!JWT_ALGORITHMS.includes(header.alg)) {
       return null;
     }
 
@@ -183,30 +166,29 @@ async function verifyJWTSignatureSync(token: string): Promise<boolean> {
     }
 
     const [headerB64, payloadB64, signatureB64] = parts;
+
+    // Helper function to decode base64url
+    const base64urlDecode = (str: string): string => {
+      // Convert base64url to base64
+      const base64 = str
+        .replace(/-/g, '+')
+        .replace(/_/g, '/');
+      
+      // Add padding if needed
+      const padded = base64 + '='.repeat((4 - base64.length % 4) % 4);
+      
+      return atob(padded);
+    };
     
-    // Get JWT secret
-    const secret = process.env.JWT_SECRET;
-    if (!secret) {
-      console.error('JWT_SECRET not configured');
+    // Get the key named by the token's kid header
+    const key = getTokenKey(JSON.parse(base64urlDecode(headerB64)));
+    if (!key) {
       return false;
     }
 
     // Decode and validate payload first
     let payload;
     try {
-      // Helper function to decode base64url
-      const base64urlDecode = (str: string): string => {
-        // Convert base64url to base64
-        const base64 = str
-          .replace(/-/g, '+')
-          .replace(/_/g, '/');
-        
-        // Add padding if needed
-        const padded = base64 + '='.repeat((4 - base64.length % 4) % 4);
-        
-        return atob(padded);
-      };
-      
       payload = JSON.parse(base64urlDecode(payloadB64));
       
       // Verify required fields exist
@@ -236,17 +218,6 @@ async function verifyJWTSignatureSync(token: string): Promise<boolean> {
 
     // CRITICAL: Verify cryptographic signature using Web Crypto API
     try {
-      // Create HMAC key from secret
-      const encoder = new TextEncoder();
-      const keyData = encoder.encode(secret);
-      const cryptoKey = await crypto.subtle.importKey(
-        'raw',
-        keyData,
-        { name: 'HMAC', hash: 'SHA-256' },
-        false,
-        ['verify']
-      );
-
       // Prepare data for verification
       const data = `${headerB64}.${payloadB64}`;
       
@@ -272,12 +243,7 @@ async function verifyJWTSignatureSync(token: string): Promise<boolean> {
       const signature = base64urlToUint8Array(signatureB64);
 
       // Verify signature
-      const isValid = await crypto.subtle.verify(
-        'HMAC',
-        cryptoKey,
-        signature,
-        encoder.encode(data)
-      );
+      const isValid = await verifyWithKey(key, signature, data);
 
       return isValid;
     } catch (error) {
@@ -289,4 +255,95 @@ async function verifyJWTSignatureSync(token: string): Promise<boolean> {
     console.error('JWT signature verification error:', error);
     return false;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Look up the verification key for a token in the JWT key ring
+ * @param header - Decoded JWT header (kid is absent on tokens issued before key rotation)
+ * @returns Key or null if the kid is unknown, retired, uses another algorithm or the key ring is misconfigured
+ */
+function getTokenKey(header: { alg?: string; kid?: string }): JWTKey | null {
+  try {
+    const key = getVerificationKey(header.kid);
+    if (!key) {
+      console.warn('JWT signed with unknown or retired key:', header.kid);
+      return null;
+    }
+
+    // SECURITY: The algorithm comes from the key, never from the token alone
+    if (key.alg !== header.alg) {
+      console.warn('JWT algorithm does not match key:', header.kid);
+      return null;
+    }
+
+    return key;
+  } catch (error) {
+    console.error('JWT key ring not configured:', error);
+    return null;
+  }
+}
+
+/**
+ * Verify a JWS signature with Web Crypto for any supported key ring algorithm
+ * ES256 signatures are raw r||s (64 bytes), which is what Web Crypto expects
+ * @param key - Key ring entry matching the token's kid
+ * @param signature - Decoded signature bytes
+ * @param data - Signing input ("header.payload")
+ * @returns True if signature is valid
+ */
+async function verifyWithKey(key: JWTKey, signature: BufferSource, data: string): Promise<boolean> {
+  const encoder = new TextEncoder();
+
+  if (key.alg === 'HS256') {
+    // Create HMAC key from secret
+    const cryptoKey = await crypto.subtle.importKey(
+      'raw',
+      encoder.encode(key.secret),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['verify']
+    );
+
+    return crypto.subtle.verify('HMAC', cryptoKey, signature, encoder.encode(data));
+  }
+
+  const spki = pemToArrayBuffer(key.publicKey as string);
+
+  if (key.alg === 'ES256') {
+    const cryptoKey = await crypto.subtle.importKey(
+      'spki',
+      spki,
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      false,
+      ['verify']
+    );
+
+    return crypto.subtle.verify({ name: 'ECDSA', hash: 'SHA-256' }, cryptoKey, signature, encoder.encode(data));
+  }
+
+  const cryptoKey = await crypto.subtle.importKey(
+    'spki',
+    spki,
+    { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+    false,
+    ['verify']
+  );
+
+  return crypto.subtle.verify('RSASSA-PKCS1-v1_5', cryptoKey, signature, encoder.encode(data));
+}
+
+/**
+ * Convert a PEM-encoded key to DER bytes
+ */
+function pemToArrayBuffer(pem: string): ArrayBuffer {
+  const base64 = pem
+    .replace(/-----(BEGIN|END) [A-Z ]+-----/g, '')
+    .replace(/\s+/g, '');
+
+  const binaryString = atob(base64);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
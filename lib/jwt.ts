@@ -3,9 +3,18 @@
  */
 
 const jwt = require('jsonwebtoken');
-import { getJWTConfig, JWTPayload } from './jwt-config';
+import { DEFAULT_KEY_ID, getJWTConfig, JWTKey, JWTPayload, OIDCAccessTokenPayload, RefreshTokenPayload } from './jwt-config';
 
-const { secret: JWT_SECRET, expiresIn: JWT_EXPIRES_IN, refreshExpiresIn: JWT_REFRESH_EXPIRES_IN } = getJWTConfig();
+const { keys: JWT_KEYS, activeKey: JWT_ACTIVE_KEY, expiresIn: JWT_EXPIRES_IN, refreshExpiresIn: JWT_REFRESH_EXPIRES_IN } = getJWTConfig();
+
+// Refresh tokens use their own audience so they can never be replayed as access tokens
+const REFRESH_TOKEN_AUDIENCE = 'auth-refresh';
+
+// OIDC access tokens are for other apps calling /api/oauth/userinfo, never for this app's session
+const OIDC_ACCESS_TOKEN_AUDIENCE = 'oidc-userinfo';
+
+// ID tokens are short-lived; relying parties create their own sessions from them
+const ID_TOKEN_EXPIRES_IN = '10m';
 
 /**
  * Generate access token with proper JWT signing
@@ -13,7 +22,9 @@ const { secret: JWT_SECRET, expiresIn: JWT_EXPIRES_IN, refreshExpiresIn: JWT_REF
  * @returns Signed JWT token
  */
 export function generateAccessToken(payload: Omit<JWTPayload, 'iat' | 'exp'>): string {
-  return jwt.sign(payload, JWT_SECRET, {
+  return jwt.sign(payload, getSigningKey(JWT_ACTIVE_KEY), {
+    algorithm: JWT_ACTIVE_KEY.alg,
+    keyid: JWT_ACTIVE_KEY.kid,
     expiresIn: JWT_EXPIRES_IN,
     issuer: 'whatsapp-auth-system',
     audience: 'auth-app'
@@ -23,16 +34,82 @@ export function generateAccessToken(payload: Omit<JWTPayload, 'iat' | 'exp'>): s
 /**
  * Generate refresh token with longer expiration
  * @param payload - Token payload (without iat/exp)
+ * @param rotation - Token id and rotation family id
  * @returns Signed JWT refresh token
  */
-export function generateRefreshToken(payload: Omit<JWTPayload, 'iat' | 'exp'>): string {
-  return jwt.sign(payload, JWT_SECRET, {
+export function generateRefreshToken(
+  payload: Omit<JWTPayload, 'iat' | 'exp'>,
+  rotation: { jti: string; familyId: string }
+): string {
+  return jwt.sign({ ...payload, fid: rotation.familyId }, getSigningKey(JWT_ACTIVE_KEY), {
+    algorithm: JWT_ACTIVE_KEY.alg,
+    keyid: JWT_ACTIVE_KEY.kid,
     expiresIn: JWT_REFRESH_EXPIRES_IN,
     issuer: 'whatsapp-auth-system',
-    audience: 'auth-app'
+    audience: REFRESH_TOKEN_AUDIENCE,
+    jwtid: rotation.jti
   });
 }
 
+/**
+ * Secret (HS256) or private key (ES256/RS256) used to sign with a key ring entry
+ */
+function getSigningKey(key: JWTKey): string {
+  return (key.alg === 'HS256' ? key.secret : key.privateKey) as string;
+}
+
+/**
+ * Secret (HS256) or public key (ES256/RS256) used to verify with a key ring entry
+ */
+function getVerifyingKey(key: JWTKey): string {
+  return (key.alg === 'HS256' ? key.secret : key.publicKey) as string;
+}
+
+/**
+ * Pick the key ring entry named by the token's kid header
+ * Tokens issued before key rotation have no kid and map to the "default" key
+ * @param token - JWT to inspect (signature is not checked here)
+ * @returns Verification key or null if the kid is unknown or retired
+ */
+function resolveVerificationKey(token: string): JWTKey | null {
+  const decoded = jwt.decode(token, { complete: true });
+  if (!decoded || !decoded.header) {
+    return null;
+  }
+
+  const keyId = decoded.header.kid || DEFAULT_KEY_ID;
+  return JWT_KEYS.find((key: JWTKey) => key.kid === keyId) || null;
+}
+
+/**
+ * Verify refresh token signature, audience and expiry
+ * @param token - JWT refresh token to verify
+ * @returns Decoded payload or null if invalid
+ */
+export function verifyRefreshToken(token: string): RefreshTokenPayload | null {
+  try {
+    const key = resolveVerificationKey(token);
+    if (!key) {
+      return null;
+    }
+
+    const decoded = jwt.verify(token, getVerifyingKey(key), {
+      algorithms: [key.alg],
+      issuer: 'whatsapp-auth-system',
+      audience: REFRESH_TOKEN_AUDIENCE
+    }) as RefreshTokenPayload;
+
+    if (!decoded.jti || !decoded.fid) {
+      return null;
+    }
+
+    return decoded;
+  } catch (error) {
+    console.error('Refresh token verification error:', error);
+    return null;
+  }
+}
+
 /**
  * Verify access token with proper validation
  * @param token - JWT token to verify
@@ -40,7 +117,13 @@ export function generateRefreshToken(payload: Omit<JWTPayload, 'iat' | 'exp'>):
  */
 export function verifyAccessToken(token: string): JWTPayload | null {
   try {
-    const decoded = jwt.verify(token, JWT_SECRET, {
+    const key = resolveVerificationKey(token);
+    if (!key) {
+      return null;
+    }
+
+    const decoded = jwt.verify(token, getVerifyingKey(key), {
+      algorithms: [key.alg],
       issuer: 'whatsapp-auth-system',
       audience: 'auth-app'
     }) as JWTPayload;
@@ -52,18 +135,87 @@ export function verifyAccessToken(token: string): JWTPayload | null {
   }
 }
 
+/**
+ * Generate an OpenID Connect ID token for a relying party
+ * ID tokens must be verifiable from the public JWKS, so the active key has to be ES256/RS256
+ * (a "verify" key may still hold a private key, but relying parties drop it after rotation)
+ * @param claims - Identity claims (sub, name, phone_number, nonce, auth_time, ...)
+ * @param clientId - Relying party client_id (audience)
+ * @param issuer - OIDC issuer URL
+ * @returns Signed ID token
+ */
+export function generateIdToken(
+  claims: Record<string, unknown>,
+  clientId: string,
+  issuer: string
+): string {
+  if (JWT_ACTIVE_KEY.alg === 'HS256') {
+    throw new Error('OpenID Connect ID tokens require the active key in JWT_KEYS to be ES256 or RS256');
+  }
+
+  return jwt.sign(claims, getSigningKey(JWT_ACTIVE_KEY), {
+    algorithm: JWT_ACTIVE_KEY.alg,
+    keyid: JWT_ACTIVE_KEY.kid,
+    expiresIn: ID_TOKEN_EXPIRES_IN,
+    issuer,
+    audience: clientId
+  });
+}
+
+/**
+ * Generate an access token for the OIDC userinfo endpoint
+ * @param payload - Subject, granted scope and client
+ * @returns Signed JWT access token
+ */
+export function generateOIDCAccessToken(payload: Omit<OIDCAccessTokenPayload, 'iat' | 'exp'>): string {
+  return jwt.sign(payload, getSigningKey(JWT_ACTIVE_KEY), {
+    algorithm: JWT_ACTIVE_KEY.alg,
+    keyid: JWT_ACTIVE_KEY.kid,
+    expiresIn: JWT_EXPIRES_IN,
+    issuer: 'whatsapp-auth-system',
+    audience: OIDC_ACCESS_TOKEN_AUDIENCE
+  });
+}
+
+/**
+ * Verify an OIDC access token presented to the userinfo endpoint
+ * @param token - Bearer token
+ * @returns Decoded payload or null if invalid
+ */
+export function verifyOIDCAccessToken(token: string): OIDCAccessTokenPayload | null {
+  try {
+    const key = resolveVerificationKey(token);
+    if (!key) {
+      return null;
+    }
+
+    return jwt.verify(token, getVerifyingKey(key), {
+      algorithms: [key.alg],
+      issuer: 'whatsapp-auth-system',
+      audience: OIDC_ACCESS_TOKEN_AUDIENCE
+    }) as OIDCAccessTokenPayload;
+  } catch (error) {
+    console.error('OIDC access token verification error:', error);
+    return null;
+  }
+}
+
 /**
  * Generate token pair (access + refresh)
  * @param payload - User data for token
+ * @param rotation - Refresh token id and rotation family id
  * @returns Object with access and refresh tokens
  */
-export function generateTokenPair(payload: Omit<JWTPayload, 'iat' | 'exp'>): {
+export function generateTokenPair(
+  payload: Omit<JWTPayload, 'iat' | 'exp'>,
+  rotation: { jti: string; familyId: string }
+): {
   accessToken: string;
   refreshToken: string;
 } {
   return {
     accessToken: generateAccessToken(payload),
-    refreshToken: generateRefreshToken(payload)
+    refreshToken: generateRefreshToken(payload, rotation)
   };
 }
 
@@ -0,0 +1,325 @@
+/**
+ * Login Approval ("Was this you?")
+ * With LOGIN_APPROVAL_MODE=whatsapp a correct password isn't enough: the owner is
+ * asked on WhatsApp, with "Yes, it's me" / "No, block this" reply buttons, and the
+ * login stays pending until they tap one (or, where the provider can't send buttons,
+ * type "YES <id>" / "NO <id>" with the login's short id). The browser polls with a one-time token and gets its session only after
+ * "Yes"; "No" turns the attempt away.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { getSupabaseAdmin } from './supabaseAdmin';
+import { sendPurposeTemplate, sendWhatsAppInteractive } from './whatsapp';
+import { normalizeWhatsAppNumber } from './sender-binding';
+import { parseUserAgent } from './user-agent';
+import { SessionClientInfo } from './sessions';
+
+export type LoginApprovalMode = 'off' | 'whatsapp';
+
+export type LoginApprovalStatus = 'pending' | 'approved' | 'denied' | 'completed';
+
+export type LoginApprovalAction = 'approve' | 'deny';
+
+// What a button tap did ('rejected' = not the owner's number, 'stale' = already decided or expired)
+export type LoginApprovalDecision = 'approved' | 'denied' | 'rejected' | 'stale';
+
+export interface PendingLoginApproval {
+  // Handed to the browser once; only its hash is stored
+  token: string;
+  expiresAt: Date;
+}
+
+// How long the owner has to answer before the login has to be started again
+export const LOGIN_APPROVAL_TTL_SECONDS = 5 * 60;
+
+// Reply button ids: "login_approve:<approval id>" / "login_deny:<approval id>"
+const BUTTON_ID_PATTERN = /^login_(approve|deny):([0-9a-f-]{36})$/i;
+
+// Typed answers, for providers that send the question as plain text (Twilio without a
+// template): "YES AB12CD" / "NO AB12CD", naming the login by its short id
+const TEXT_REPLY_PATTERN = /^\s*(yes|no)\s+([0-9a-f]{6})\s*[.!]?\s*$/i;
+
+const LOGIN_APPROVAL_MESSAGE = '🔐 Someone entered your password to sign in from {DEVICE} ({LOCATION}).\n\nWas this you?';
+
+const LOGIN_APPROVAL_TEXT_REPLIES = '\n\nReply "YES {ID}" if it was you, or "NO {ID}" to block it.';
+
+export function getLoginApprovalMode(): LoginApprovalMode {
+  return process.env.LOGIN_APPROVAL_MODE === 'whatsapp' ? 'whatsapp' : 'off';
+}
+
+function hashApprovalToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Readable device and location for the confirmation message
+ */
+function describeLogin(client: SessionClientInfo): { device: string; location: string } {
+  const { browser, os } = parseUserAgent(client.userAgent);
+  const place = [client.city, client.country].filter(Boolean).join(', ');
+
+  return {
+    device: `${browser} on ${os}`,
+    location: [place, client.ipAddress].filter(Boolean).join(' · ') || 'unknown location',
+  };
+}
+
+/**
+ * Park a password login until the owner confirms it on WhatsApp, and ask them
+ * Uses an approved template when WHATSAPP_LOGIN_TEMPLATE_NAME is set (reaches the
+ * owner outside the 24-hour window), otherwise an interactive message
+ * @param userId - Account whose password was entered
+ * @param phone - The account's WhatsApp number
+ * @param client - IP address, user agent and location of the login request
+ * @throws When the question couldn't be sent (the pending login is discarded)
+ */
+export async function requestLoginApproval(
+  userId: string,
+  phone: string,
+  client: SessionClientInfo
+): Promise<PendingLoginApproval> {
+  const token = randomBytes(32).toString('hex');
+  const expiresAt = new Date(Date.now() + LOGIN_APPROVAL_TTL_SECONDS * 1000);
+
+  const supabaseAdmin = getSupabaseAdmin();
+  const { data, error } = await supabaseAdmin
+    .from('login_approvals')
+    .insert({
+      user_id: userId,
+      token_hash: hashApprovalToken(token),
+      ip_address: client.ipAddress,
+      user_agent: client.userAgent,
+      city: client.city,
+      country: client.country,
+      expires_at: expiresAt.toISOString(),
+    })
+    .select('id')
+    .single();
+
+  if (error || !data) {
+    throw error || new Error('Login approval was not created');
+  }
+
+  const approveId = `login_approve:${data.id}`;
+  const denyId = `login_deny:${data.id}`;
+  const { device, location } = describeLogin(client);
+
+  try {
+    const sent = await sendPurposeTemplate(phone, 'login_confirmation', { device, location, approveId, denyId }, { userRequested: true });
+    if (!sent) {
+      const body = LOGIN_APPROVAL_MESSAGE.replace('{DEVICE}', device).replace('{LOCATION}', location);
+      await sendWhatsAppInteractive(phone, {
+        body,
+        buttons: [
+          { id: approveId, title: "Yes, it's me" },
+          { id: denyId, title: 'No, block this' },
+        ],
+        textFallback: body + LOGIN_APPROVAL_TEXT_REPLIES.replace(/\{ID\}/g, getLoginApprovalShortId(data.id)),
+      }, { userRequested: true });
+    }
+  } catch (sendError) {
+    await supabaseAdmin.from('login_approvals').delete().eq('id', data.id);
+    throw sendError;
+  }
+
+  return { token, expiresAt };
+}
+
+/**
+ * Read a login confirmation button id
+ * @returns null for any other button
+ */
+export function parseLoginApprovalButton(buttonId: string): { action: LoginApprovalAction; approvalId: string } | null {
+  const match = buttonId.match(BUTTON_ID_PATTERN);
+  return match ? { action: match[1].toLowerCase() as LoginApprovalAction, approvalId: match[2].toLowerCase() } : null;
+}
+
+/**
+ * Short id of a login, for typed answers (first 6 characters of its id)
+ */
+function getLoginApprovalShortId(approvalId: string): string {
+  return approvalId.substring(0, 6).toUpperCase();
+}
+
+/**
+ * Read a typed "YES <id>" / "NO <id>" answer
+ * @returns null for any other text
+ */
+export function parseLoginApprovalReply(text: string): { action: LoginApprovalAction; shortId: string } | null {
+  const match = text.match(TEXT_REPLY_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  return {
+    action: match[1].toLowerCase() === 'yes' ? 'approve' : 'deny',
+    shortId: match[2].toUpperCase(),
+  };
+}
+
+/**
+ * Find the pending login a typed answer names, among the sender's own
+ * @param sender - `message.from` from the webhook payload
+ * @param shortId - Short id from the answer
+ * @returns The approval id, and whether other logins of the account are pending too
+ *          (a typed answer must not approve then), or null if none matches
+ */
+export async function findPendingLoginApproval(
+  sender: string,
+  shortId: string
+): Promise<{ approvalId: string; otherPending: boolean } | null> {
+  const supabaseAdmin = getSupabaseAdmin();
+  const { data: owner, error: ownerError } = await supabaseAdmin
+    .from('users')
+    .select('id')
+    .eq('phone', normalizeWhatsAppNumber(sender))
+    .maybeSingle();
+
+  if (ownerError) {
+    throw ownerError;
+  }
+
+  if (!owner) {
+    return null;
+  }
+
+  const { data: pending, error } = await supabaseAdmin
+    .from('login_approvals')
+    .select('id')
+    .eq('user_id', owner.id)
+    .eq('status', 'pending')
+    .gt('expires_at', new Date().toISOString());
+
+  if (error) {
+    throw error;
+  }
+
+  const approvals: { id: string }[] = pending || [];
+  const matches = approvals.filter(approval => getLoginApprovalShortId(approval.id) === shortId);
+  if (matches.length !== 1) {
+    return null;
+  }
+
+  return { approvalId: matches[0].id, otherPending: approvals.length > 1 };
+}
+
+/**
+ * Record the owner's answer to a pending login
+ * Only counts when it comes from the account's own number, and only once
+ * @param sender - `message.from` from the webhook payload
+ * @param approvalId - Login the button was sent for
+ * @param action - Which button was tapped (or answer typed)
+ */
+export async function decideLoginApproval(
+  sender: string,
+  approvalId: string,
+  action: LoginApprovalAction
+): Promise<LoginApprovalDecision> {
+  const supabaseAdmin = getSupabaseAdmin();
+  const { data: approval, error: lookupError } = await supabaseAdmin
+    .from('login_approvals')
+    .select('id, user_id')
+    .eq('id', approvalId)
+    .maybeSingle();
+
+  if (lookupError) {
+    throw lookupError;
+  }
+
+  if (!approval) {
+    return 'stale';
+  }
+
+  const { data: owner, error: ownerError } = await supabaseAdmin
+    .from('users')
+    .select('phone')
+    .eq('id', approval.user_id)
+    .single();
+
+  if (ownerError || !owner) {
+    throw ownerError || new Error('Login approval has no account');
+  }
+
+  if (normalizeWhatsAppNumber(owner.phone) !== normalizeWhatsAppNumber(sender)) {
+    return 'rejected';
+  }
+
+  // Atomic: only a pending, unexpired login can be decided
+  const { data: decided, error: updateError } = await supabaseAdmin
+    .from('login_approvals')
+    .update({
+      status: action === 'approve' ? 'approved' : 'denied',
+      decided_at: new Date().toISOString(),
+    })
+    .eq('id', approvalId)
+    .eq('status', 'pending')
+    .gt('expires_at', new Date().toISOString())
+    .select('id');
+
+  if (updateError) {
+    throw updateError;
+  }
+
+  if (!decided || decided.length === 0) {
+    return 'stale';
+  }
+
+  return action === 'approve' ? 'approved' : 'denied';
+}
+
+/**
+ * Check on a pending login from the browser that started it
+ * An approved login is handed out exactly once: it is marked completed here and the
+ * caller issues the session.
+ * @param token - Token returned when the login was parked
+ * @returns The login's status ('expired' once the owner ran out of time) and its user,
+ *          or null for an unknown or already completed token
+ */
+export async function claimLoginApproval(
+  token: string
+): Promise<{ status: Exclude<LoginApprovalStatus, 'completed'> | 'expired'; userId: string } | null> {
+  const supabaseAdmin = getSupabaseAdmin();
+  const { data: approval, error } = await supabaseAdmin
+    .from('login_approvals')
+    .select('id, user_id, status, expires_at')
+    .eq('token_hash', hashApprovalToken(token))
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  if (!approval || approval.status === 'completed') {
+    return null;
+  }
+
+  if (approval.status === 'denied') {
+    return { status: 'denied', userId: approval.user_id };
+  }
+
+  if (new Date(approval.expires_at).getTime() <= Date.now()) {
+    return { status: 'expired', userId: approval.user_id };
+  }
+
+  if (approval.status === 'pending') {
+    return { status: 'pending', userId: approval.user_id };
+  }
+
+  const { data: completed, error: completeError } = await supabaseAdmin
+    .from('login_approvals')
+    .update({ status: 'completed', completed_at: new Date().toISOString() })
+    .eq('id', approval.id)
+    .eq('status', 'approved')
+    .select('id');
+
+  if (completeError) {
+    throw completeError;
+  }
+
+  // Another poll got there first
+  if (!completed || completed.length === 0) {
+    return null;
+  }
+
+  return { status: 'approved', userId: approval.user_id };
+}
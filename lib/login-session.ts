@@ -0,0 +1,66 @@
+/**
+ * Password Login Sessions
+ * Issues the session, access token and refresh token for a successful password
+ * login - straight from /api/auth-password, or from /api/login-approval once the
+ * owner confirmed the login on WhatsApp.
+ */
+
+import { NextResponse } from 'next/server';
+import { generateSecureToken } from '../utils/secureAuth';
+import { setAccessTokenCookie, setRefreshTokenCookie } from './auth-cookies';
+import { issueRefreshToken } from './refresh-tokens';
+import { createSession, SessionClientInfo } from './sessions';
+import { clearFailedLogins } from './account-lockout';
+
+export interface LoginUser {
+  id: string;
+  name: string;
+  phone: string;
+}
+
+/**
+ * Start a session for a user and return the login response with its cookies
+ * @param user - The authenticated user
+ * @param client - IP address, user agent and location of the login request
+ */
+export async function createLoginResponse(user: LoginUser, client: SessionClientInfo): Promise<NextResponse> {
+  // Only a login that gets its session resets the failed attempts and the lockout
+  // backoff; a correct password the owner then turns away on WhatsApp doesn't
+  await clearFailedLogins(user.id);
+
+  // Register a new session with a cryptographically secure random session ID
+  // CRITICAL: Never use predictable user IDs as tokens
+  const sessionId = await createSession(user.id, client);
+
+  // Generate JWT with the session ID (revocable via the sessions table)
+  const secureToken = generateSecureToken({
+    code: sessionId, // Use cryptographically secure random session ID
+    name: user.name,
+    whatsappNumber: user.phone,
+    verified: true,
+  });
+
+  // Long-lived refresh token starts a new rotation family for this login
+  const refreshToken = await issueRefreshToken({
+    userId: sessionId,
+    username: user.name,
+    phone: user.phone,
+    role: 'user'
+  });
+
+  const response = NextResponse.json({
+    success: true,
+    message: 'Authentication successful',
+    user: {
+      id: user.id,
+      name: user.name,
+      phone: user.phone
+    }
+  });
+
+  // Short-lived access cookie plus refresh cookie (rotated via /api/token/refresh)
+  setAccessTokenCookie(response, secureToken);
+  setRefreshTokenCookie(response, refreshToken);
+
+  return response;
+}
@@ -0,0 +1,261 @@
+/**
+ * Message Outbox
+ * Durable queue for WhatsApp replies. The webhook enqueues instead of sending inline,
+ * so a Graph API failure no longer fails the webhook (which made Meta redeliver and the
+ * reply get lost or duplicated). The outbox worker sends due messages, retrying with
+ * exponential backoff and dead-lettering a message after max_attempts failures.
+ *
+ * Delivery is at-least-once: a worker that dies between sending and marking a message
+ * sent leaves it to be retried once its lock expires.
+ */
+
+import { getSupabaseAdmin } from './supabaseAdmin';
+import { sendWhatsAppMessage, sendWhatsAppTemplate } from './whatsapp';
+import { RateLimitExceededError } from './rate-limiting';
+import { RecipientOptedOutError } from './messaging-consent';
+import { OutboundMessageContext } from './outbound-messages';
+import { TemplateButton, TemplateMessage } from './messaging';
+import { sanitizeUserInput } from './secure-error-handling-enhanced';
+
+export type OutboxStatus = 'pending' | 'sending' | 'sent' | 'dead';
+
+export interface OutboxMessage {
+  id: string;
+  idempotency_key: string;
+  whatsapp_number: string;
+  message_type: 'text' | 'template';
+  body: string | null;
+  template_name: string | null;
+  template_language: string | null;
+  template_parameters: string[];
+  template_buttons: TemplateButton[];
+  verification_id: string | null;
+  user_requested: boolean;
+  status: OutboxStatus;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  locked_until: string | null;
+  last_error: string | null;
+  provider_message_id: string | null;
+  created_at: string;
+  sent_at: string | null;
+  dead_at: string | null;
+}
+
+export interface EnqueueOptions extends OutboundMessageContext {
+  // The same key is only ever queued once (e.g. "reply:<inbound message id>")
+  idempotencyKey: string;
+}
+
+export interface OutboxRunSummary {
+  claimed: number;
+  sent: number;
+  retried: number;
+  dead: number;
+}
+
+// Failed sends are retried after 30s, 1m, 2m, 4m ... up to an hour apart
+export const OUTBOX_MAX_ATTEMPTS = 5;
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+// How long a worker owns a claimed message before another may take it over
+const CLAIM_LOCK_SECONDS = 60;
+
+// Dead messages are deleted after this long. Replies can carry codes and password
+// reset links, so nothing stays in the table readable for longer than needed (sent
+// messages lose their text as soon as they go out).
+const DEAD_MESSAGE_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Delay before the next attempt after `attempts` failures
+ */
+export function getOutboxRetryDelayMs(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * Math.pow(2, Math.max(attempts - 1, 0)), MAX_RETRY_DELAY_MS);
+}
+
+async function enqueue(row: Partial<OutboxMessage> & { idempotency_key: string; whatsapp_number: string }): Promise<void> {
+  const supabaseAdmin = getSupabaseAdmin();
+  const { error } = await supabaseAdmin
+    .from('message_outbox')
+    .upsert({ ...row, max_attempts: OUTBOX_MAX_ATTEMPTS }, { onConflict: 'idempotency_key', ignoreDuplicates: true });
+
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Queue a plain text message (a no-op if the idempotency key was queued before)
+ */
+export async function enqueueWhatsAppMessage(to: string, body: string, options: EnqueueOptions): Promise<void> {
+  await enqueue({
+    idempotency_key: options.idempotencyKey,
+    whatsapp_number: to,
+    message_type: 'text',
+    body,
+    verification_id: options.verificationId || null,
+    user_requested: options.userRequested || false,
+  });
+}
+
+/**
+ * Queue a template message (a no-op if the idempotency key was queued before)
+ */
+export async function enqueueWhatsAppTemplate(to: string, template: TemplateMessage, options: EnqueueOptions): Promise<void> {
+  await enqueue({
+    idempotency_key: options.idempotencyKey,
+    whatsapp_number: to,
+    message_type: 'template',
+    template_name: template.name,
+    template_language: template.language,
+    template_parameters: template.bodyParameters,
+    template_buttons: template.buttons || [],
+    verification_id: options.verificationId || null,
+    user_requested: options.userRequested || false,
+  });
+}
+
+async function updateOutboxMessage(id: string, changes: Partial<OutboxMessage>): Promise<void> {
+  const supabaseAdmin = getSupabaseAdmin();
+  const { error } = await supabaseAdmin
+    .from('message_outbox')
+    .update(changes)
+    .eq('id', id);
+
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Send one claimed message and record the outcome
+ */
+async function deliverOutboxMessage(message: OutboxMessage): Promise<'sent' | 'retried' | 'dead'> {
+  const context = { verificationId: message.verification_id || undefined, userRequested: message.user_requested };
+
+  try {
+    const result = message.message_type === 'template'
+      ? await sendWhatsAppTemplate(
+          message.whatsapp_number,
+          {
+            name: message.template_name!,
+            language: message.template_language || 'en_US',
+            bodyParameters: message.template_parameters,
+            buttons: message.template_buttons,
+          },
+          context
+        )
+      : await sendWhatsAppMessage(message.whatsapp_number, message.body || '', context);
+
+    await updateOutboxMessage(message.id, {
+      status: 'sent',
+      provider_message_id: result.messageId,
+      sent_at: new Date().toISOString(),
+      locked_until: null,
+      last_error: null,
+      // The idempotency key still blocks a second send; the content isn't needed anymore
+      body: null,
+      template_parameters: [],
+      template_buttons: [],
+    });
+    return 'sent';
+  } catch (error) {
+    // Our own outbound limit isn't a failed attempt: wait it out
+    if (error instanceof RateLimitExceededError) {
+      await updateOutboxMessage(message.id, {
+        status: 'pending',
+        next_attempt_at: new Date(Date.now() + error.retryAfter * 1000).toISOString(),
+        locked_until: null,
+      });
+      return 'retried';
+    }
+
+    // The recipient said STOP after this was queued: retrying won't help
+    if (error instanceof RecipientOptedOutError) {
+      await updateOutboxMessage(message.id, {
+        status: 'dead',
+        last_error: error.message,
+        dead_at: new Date().toISOString(),
+        locked_until: null,
+      });
+      return 'dead';
+    }
+
+    const attempts = message.attempts + 1;
+    const lastError = String(sanitizeUserInput(error instanceof Error ? error.message : error)).slice(0, 500);
+
+    if (attempts >= message.max_attempts) {
+      console.error(`Outbox message ${message.id} dead after ${attempts} attempts: ${lastError}`);
+      await updateOutboxMessage(message.id, {
+        status: 'dead',
+        attempts,
+        last_error: lastError,
+        dead_at: new Date().toISOString(),
+        locked_until: null,
+      });
+      return 'dead';
+    }
+
+    await updateOutboxMessage(message.id, {
+      status: 'pending',
+      attempts,
+      last_error: lastError,
+      next_attempt_at: new Date(Date.now() + getOutboxRetryDelayMs(attempts)).toISOString(),
+      locked_until: null,
+    });
+    return 'retried';
+  }
+}
+
+/**
+ * Delete messages that have been dead for longer than the retention period
+ */
+async function purgeDeadMessages(): Promise<void> {
+  const supabaseAdmin = getSupabaseAdmin();
+  const { error } = await supabaseAdmin
+    .from('message_outbox')
+    .delete()
+    .eq('status', 'dead')
+    .lt('dead_at', new Date(Date.now() - DEAD_MESSAGE_RETENTION_MS).toISOString());
+
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Claim and send due messages (run by the outbox worker)
+ * Also deletes messages that have been dead for a day.
+ * @param limit - Maximum messages to handle in this run
+ */
+export async function processOutbox(limit: number = 20): Promise<OutboxRunSummary> {
+  const supabaseAdmin = getSupabaseAdmin();
+
+  try {
+    await purgeDeadMessages();
+  } catch (purgeError) {
+    console.error('Failed to purge dead outbox messages:', sanitizeUserInput(purgeError));
+  }
+  const { data, error } = await supabaseAdmin
+    .rpc('claim_outbox_messages', { p_limit: limit, p_lock_seconds: CLAIM_LOCK_SECONDS });
+
+  if (error) {
+    throw error;
+  }
+
+  const claimed: OutboxMessage[] = data || [];
+  const summary: OutboxRunSummary = { claimed: claimed.length, sent: 0, retried: 0, dead: 0 };
+
+  for (const message of claimed) {
+    try {
+      summary[await deliverOutboxMessage(message)]++;
+    } catch (updateError) {
+      // Couldn't record the outcome; the lock expires and the message is picked up again
+      console.error(`Failed to update outbox message ${message.id}:`, sanitizeUserInput(updateError));
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,87 @@
+/**
+ * Messaging Consent
+ * Per-number consent to WhatsApp messages from the app: opted in or out, where the
+ * decision came from and when. Every change is also written to an append-only audit
+ * trail (messaging_consent_events). A number without a record hasn't opted out.
+ *
+ * Outbound sends check it (see lib/whatsapp): nothing goes to an opted-out number
+ * unless the user just asked for that message, like a verification code or a reply
+ * to their own message.
+ */
+
+import { getSupabaseAdmin } from './supabaseAdmin';
+import { normalizeWhatsAppNumber } from './sender-binding';
+
+export type ConsentStatus = 'opted_in' | 'opted_out';
+
+// keyword: STOP/START to the bot, verification: messaged the bot to verify their
+// number, admin: changed by staff (scripts/consent.js)
+export type ConsentSource = 'keyword' | 'verification' | 'admin';
+
+export interface ConsentChange {
+  source: ConsentSource;
+  // What caused it: the inbound message id, or who made an admin change
+  reference?: string;
+}
+
+/**
+ * Error thrown when a message would go to a number that opted out
+ */
+export class RecipientOptedOutError extends Error {
+  constructor() {
+    super('Recipient opted out of WhatsApp messages');
+    this.name = 'RecipientOptedOutError';
+  }
+}
+
+async function writeConsent(phone: string, status: ConsentStatus, change: ConsentChange, onlyIfAbsent: boolean): Promise<boolean> {
+  const supabaseAdmin = getSupabaseAdmin();
+  const { data, error } = await supabaseAdmin
+    .rpc('set_messaging_consent', {
+      p_whatsapp_number: normalizeWhatsAppNumber(phone),
+      p_status: status,
+      p_source: change.source,
+      p_reference: change.reference || null,
+      p_only_if_absent: onlyIfAbsent,
+    });
+
+  if (error) {
+    throw error;
+  }
+
+  return data === true;
+}
+
+/**
+ * Record an opt-in or opt-out (with its audit event)
+ */
+export async function setConsentStatus(phone: string, status: ConsentStatus, change: ConsentChange): Promise<void> {
+  await writeConsent(phone, status, change, false);
+}
+
+/**
+ * Record an opt-in for a number that has no consent record yet
+ * A number that said STOP keeps its opt-out.
+ * @returns True if the opt-in was recorded
+ */
+export async function recordInitialOptIn(phone: string, change: ConsentChange): Promise<boolean> {
+  return writeConsent(phone, 'opted_in', change, true);
+}
+
+/**
+ * Check whether a number has opted out of messages from the app
+ */
+export async function isOptedOut(phone: string): Promise<boolean> {
+  const supabaseAdmin = getSupabaseAdmin();
+  const { data, error } = await supabaseAdmin
+    .from('messaging_consent')
+    .select('status')
+    .eq('whatsapp_number', normalizeWhatsAppNumber(phone))
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data?.status === 'opted_out';
+}
@@ -0,0 +1,51 @@
+/**
+ * Messaging provider selection
+ * MESSAGING_PROVIDER picks the adapter: meta (default), twilio or mock.
+ * The mock accepts unsigned webhooks, so it is refused in production.
+ */
+
+import { MessagingProvider, MessagingProviderName } from './types';
+import { MetaMessagingProvider } from './meta';
+import { TwilioMessagingProvider } from './twilio';
+import { MockMessagingProvider } from './mock';
+
+export * from './types';
+export { getMockOutbox, clearMockOutbox } from './mock';
+
+let provider: MessagingProvider | null = null;
+
+/**
+ * Get the configured provider name (defaults to meta)
+ */
+export function getMessagingProviderName(): MessagingProviderName {
+  const configured = process.env.MESSAGING_PROVIDER?.toLowerCase();
+  return configured === 'twilio' || configured === 'mock' ? configured : 'meta';
+}
+
+function createMessagingProvider(name: MessagingProviderName): MessagingProvider {
+  switch (name) {
+    case 'twilio':
+      return new TwilioMessagingProvider();
+
+    case 'mock':
+      if (process.env.NODE_ENV === 'production') {
+        throw new Error('MESSAGING_PROVIDER=mock is not allowed in production');
+      }
+      return new MockMessagingProvider();
+
+    default:
+      // WHATSAPP_API_URL points the Graph API at the local simulator in development
+      return new MetaMessagingProvider(process.env.WHATSAPP_API_URL || undefined);
+  }
+}
+
+/**
+ * Get the configured provider (created once per instance)
+ */
+export function getMessagingProvider(): MessagingProvider {
+  if (!provider) {
+    provider = createMessagingProvider(getMessagingProviderName());
+  }
+
+  return provider;
+}
@@ -0,0 +1,204 @@
+/**
+ * Meta WhatsApp Cloud API adapter
+ * Sends through the Graph API and handles Meta's signed (x-hub-signature-256) webhooks
+ */
+
+import axios from 'axios';
+import { NextResponse } from 'next/server';
+import { getServerEnv } from '../server-env';
+import { verifyWebhookSignatureDetailed } from '../security';
+import { normalizeWhatsAppNumber } from '../sender-binding';
+import {
+  DeliveryStatus,
+  DeliveryStatusUpdate,
+  InboundMessage,
+  InteractiveMessage,
+  MessagingProvider,
+  ParsedWebhook,
+  SendResult,
+  TemplateButton,
+  TemplateMessage,
+  WebhookRequest,
+  WebhookVerificationResult,
+} from './types';
+
+const WHATSAPP_API_URL = 'https://graph.facebook.com/v18.0';
+
+const DELIVERY_STATUSES: DeliveryStatus[] = ['sent', 'delivered', 'read', 'failed'];
+
+export class MetaMessagingProvider implements MessagingProvider {
+  readonly name = 'meta';
+  readonly signatureHeader = 'x-hub-signature-256';
+  readonly replyButtons = true;
+
+  constructor(private readonly apiUrl: string = WHATSAPP_API_URL) {}
+
+  async sendText(to: string, body: string): Promise<SendResult> {
+    return this.send({
+      messaging_product: 'whatsapp',
+      to: to,
+      type: 'text',
+      text: { body },
+    });
+  }
+
+  async sendTemplate(to: string, template: TemplateMessage): Promise<SendResult> {
+    const components: Record<string, unknown>[] = [];
+
+    if (template.bodyParameters.length > 0) {
+      components.push({
+        type: 'body',
+        parameters: template.bodyParameters.map(text => ({ type: 'text', text })),
+      });
+    }
+
+    for (const button of template.buttons || []) {
+      components.push(this.buttonComponent(button));
+    }
+
+    return this.send({
+      messaging_product: 'whatsapp',
+      to: to,
+      type: 'template',
+      template: {
+        name: template.name,
+        language: { code: template.language },
+        components,
+      },
+    });
+  }
+
+  async sendInteractive(to: string, message: InteractiveMessage): Promise<SendResult> {
+    return this.send({
+      messaging_product: 'whatsapp',
+      to: to,
+      type: 'interactive',
+      interactive: {
+        type: 'button',
+        body: { text: message.body },
+        action: {
+          buttons: message.buttons.map(button => ({ type: 'reply', reply: { id: button.id, title: button.title } })),
+        },
+      },
+    });
+  }
+
+  /**
+   * Copy-code and one-tap buttons of authentication templates are both sent as a
+   * URL button whose parameter is the code
+   */
+  private buttonComponent(button: TemplateButton): Record<string, unknown> {
+    switch (button.type) {
+      case 'otp':
+        return { type: 'button', sub_type: 'url', index: String(button.index), parameters: [{ type: 'text', text: button.code }] };
+
+      case 'url':
+        return { type: 'button', sub_type: 'url', index: String(button.index), parameters: [{ type: 'text', text: button.text }] };
+
+      case 'quick_reply':
+        return { type: 'button', sub_type: 'quick_reply', index: String(button.index), parameters: [{ type: 'payload', payload: button.payload }] };
+    }
+  }
+
+  private async send(payload: Record<string, unknown>): Promise<SendResult> {
+    const PHONE_NUMBER_ID = getServerEnv('WHATSAPP_PHONE_NUMBER_ID');
+    const ACCESS_TOKEN = getServerEnv('WHATSAPP_ACCESS_TOKEN');
+
+    const response = await axios.post(
+      `${this.apiUrl}/${PHONE_NUMBER_ID}/messages`,
+      payload,
+      {
+        headers: {
+          'Authorization': `Bearer ${ACCESS_TOKEN}`,
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+
+    return { messageId: response.data?.messages?.[0]?.id || null };
+  }
+
+  verifyWebhook(request: WebhookRequest): WebhookVerificationResult {
+    const appSecret = getServerEnv('WHATSAPP_APP_SECRET');
+    return verifyWebhookSignatureDetailed(request.rawBody, request.headers.get(this.signatureHeader), appSecret);
+  }
+
+  parseWebhook(request: WebhookRequest): ParsedWebhook {
+    const body = JSON.parse(request.rawBody);
+    const messages: InboundMessage[] = [];
+    const statuses: DeliveryStatusUpdate[] = [];
+
+    if (body.object !== 'whatsapp_business_account') {
+      return { messages, statuses };
+    }
+
+    for (const entry of body.entry || []) {
+      for (const change of entry.changes || []) {
+        for (const message of change.value?.messages || []) {
+          messages.push({
+            id: message.id,
+            from: normalizeWhatsAppNumber(message.from),
+            text: message.text?.body || '',
+            ...this.parseButtonReply(message),
+          });
+        }
+
+        for (const status of change.value?.statuses || []) {
+          // Other values (e.g. "deleted") aren't delivery progress
+          if (!DELIVERY_STATUSES.includes(status.status)) {
+            continue;
+          }
+
+          statuses.push({
+            messageId: status.id,
+            status: status.status,
+            recipient: normalizeWhatsAppNumber(status.recipient_id || ''),
+            timestamp: new Date(Number(status.timestamp) * 1000).toISOString(),
+            ...(status.errors?.[0] && {
+              errorCode: String(status.errors[0].code),
+              errorTitle: status.errors[0].title,
+            }),
+          });
+        }
+      }
+    }
+
+    return { messages, statuses };
+  }
+
+  /**
+   * Taps on an interactive message's reply button arrive as interactive.button_reply,
+   * taps on a template's quick reply button as button (with the payload it was sent with)
+   */
+  private parseButtonReply(message: any): Pick<InboundMessage, 'text' | 'buttonReply'> | undefined {
+    const reply = message.interactive?.type === 'button_reply'
+      ? message.interactive.button_reply
+      : message.type === 'button' && message.button
+        ? { id: message.button.payload, title: message.button.text }
+        : null;
+
+    if (!reply?.id) {
+      return undefined;
+    }
+
+    return {
+      text: String(reply.title || ''),
+      buttonReply: { id: String(reply.id), title: String(reply.title || '') },
+    };
+  }
+
+  verifySubscription(searchParams: URLSearchParams): string | null {
+    const mode = searchParams.get('hub.mode');
+    const token = searchParams.get('hub.verify_token');
+
+    if (mode === 'subscribe' && token && token === process.env.WHATSAPP_VERIFY_TOKEN) {
+      return searchParams.get('hub.challenge');
+    }
+
+    return null;
+  }
+
+  acknowledgeWebhook(response: NextResponse): NextResponse {
+    return response;
+  }
+}
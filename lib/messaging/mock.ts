@@ -0,0 +1,109 @@
+/**
+ * In-process mock adapter (development only)
+ * Outbound messages are logged and kept in memory instead of being sent.
+ * Inbound webhooks are unsigned JSON: {"from": "15551234567", "text": "AB12CD", "id": "optional"}
+ * (a button tap adds "buttonId": "<reply button id>")
+ */
+
+import { randomBytes } from 'crypto';
+import { NextResponse } from 'next/server';
+import { normalizeWhatsAppNumber } from '../sender-binding';
+import {
+  InteractiveMessage,
+  MessagingProvider,
+  ParsedWebhook,
+  SendResult,
+  TemplateMessage,
+  WebhookRequest,
+  WebhookVerificationResult,
+} from './types';
+
+export interface MockOutboundMessage {
+  messageId: string;
+  to: string;
+  text?: string;
+  template?: TemplateMessage;
+  interactive?: InteractiveMessage;
+  sentAt: string;
+}
+
+// Newest last; capped so a long dev session doesn't grow without bound
+const MAX_MOCK_MESSAGES = 200;
+const mockOutbox: MockOutboundMessage[] = [];
+
+/**
+ * Messages "sent" through the mock provider (optionally only those to one number)
+ */
+export function getMockOutbox(to?: string): MockOutboundMessage[] {
+  return to ? mockOutbox.filter(message => message.to === normalizeWhatsAppNumber(to)) : [...mockOutbox];
+}
+
+export function clearMockOutbox(): void {
+  mockOutbox.length = 0;
+}
+
+export class MockMessagingProvider implements MessagingProvider {
+  readonly name = 'mock';
+  readonly signatureHeader = null;
+  readonly replyButtons = true;
+
+  async sendText(to: string, body: string): Promise<SendResult> {
+    return this.record({ to, text: body });
+  }
+
+  async sendTemplate(to: string, template: TemplateMessage): Promise<SendResult> {
+    return this.record({ to, template });
+  }
+
+  async sendInteractive(to: string, message: InteractiveMessage): Promise<SendResult> {
+    return this.record({ to, interactive: message });
+  }
+
+  private record(message: { to: string; text?: string; template?: TemplateMessage; interactive?: InteractiveMessage }): SendResult {
+    const messageId = `mock.${randomBytes(8).toString('hex')}`;
+    const to = normalizeWhatsAppNumber(message.to);
+
+    mockOutbox.push({ ...message, to, messageId, sentAt: new Date().toISOString() });
+    if (mockOutbox.length > MAX_MOCK_MESSAGES) {
+      mockOutbox.shift();
+    }
+
+    const content = message.text
+      ?? (message.interactive && `${message.interactive.body} ${message.interactive.buttons.map(button => `[${button.title}]`).join(' ')}`)
+      ?? `[template ${message.template?.name}] ${message.template?.bodyParameters.join(', ')}`;
+    console.log(`📤 [mock WhatsApp] to ${to}: ${content}`);
+
+    return { messageId };
+  }
+
+  verifyWebhook(request: WebhookRequest): WebhookVerificationResult {
+    return { isValid: true, metadata: { payloadLength: request.rawBody.length, timestamp: new Date().toISOString() } };
+  }
+
+  parseWebhook(request: WebhookRequest): ParsedWebhook {
+    const body = JSON.parse(request.rawBody);
+    const inbound = Array.isArray(body) ? body : [body];
+
+    return {
+      messages: inbound
+        .filter(message => message?.from)
+        .map(message => ({
+          id: message.id || `mock.${randomBytes(8).toString('hex')}`,
+          from: normalizeWhatsAppNumber(String(message.from)),
+          text: String(message.text || ''),
+          ...(message.buttonId && {
+            buttonReply: { id: String(message.buttonId), title: String(message.text || '') },
+          }),
+        })),
+      statuses: [],
+    };
+  }
+
+  verifySubscription(searchParams: URLSearchParams): string | null {
+    return searchParams.get('hub.challenge');
+  }
+
+  acknowledgeWebhook(response: NextResponse): NextResponse {
+    return response;
+  }
+}
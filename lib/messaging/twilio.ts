@@ -0,0 +1,213 @@
+/**
+ * Twilio WhatsApp adapter
+ * Sends through Twilio's Messages API and handles Twilio's form-encoded,
+ * X-Twilio-Signature signed webhooks. Templates are Twilio Content API
+ * templates, addressed by Content SID (or a name mapped in TWILIO_CONTENT_SIDS).
+ */
+
+import axios from 'axios';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { NextResponse } from 'next/server';
+import { getServerEnv } from '../server-env';
+import { normalizeWhatsAppNumber } from '../sender-binding';
+import {
+  DeliveryStatus,
+  InteractiveMessage,
+  MessagingProvider,
+  ParsedWebhook,
+  SendResult,
+  TemplateMessage,
+  WebhookRequest,
+  WebhookVerificationResult,
+} from './types';
+
+const TWILIO_API_URL = 'https://api.twilio.com/2010-04-01';
+
+// Twilio's MessageStatus values that report delivery progress (queued/sending are skipped)
+const TWILIO_DELIVERY_STATUSES: Record<string, DeliveryStatus> = {
+  sent: 'sent',
+  delivered: 'delivered',
+  read: 'read',
+  failed: 'failed',
+  undelivered: 'failed',
+};
+
+/**
+ * Twilio addresses WhatsApp numbers as "whatsapp:+<digits>"
+ */
+function toTwilioAddress(phone: string): string {
+  return phone.startsWith('whatsapp:') ? phone : `whatsapp:+${normalizeWhatsAppNumber(phone)}`;
+}
+
+export class TwilioMessagingProvider implements MessagingProvider {
+  readonly name = 'twilio';
+  readonly signatureHeader = 'x-twilio-signature';
+  readonly replyButtons = false;
+
+  async sendText(to: string, body: string): Promise<SendResult> {
+    return this.send({ To: toTwilioAddress(to), Body: body });
+  }
+
+  async sendTemplate(to: string, template: TemplateMessage): Promise<SendResult> {
+    // Content variables are numbered like the template's {{1}}, {{2}} placeholders.
+    // Buttons are part of the Content template itself (twilio/authentication fills
+    // its copy-code button from {{1}}); only quick reply ids are variables, numbered
+    // on from the body's (a twilio/quick-reply template with ids "{{3}}", "{{4}}"...).
+    const values = [
+      ...template.bodyParameters,
+      ...(template.buttons || []).flatMap(button => (button.type === 'quick_reply' ? [button.payload] : [])),
+    ];
+    const variables: Record<string, string> = {};
+    values.forEach((value, index) => {
+      variables[String(index + 1)] = value;
+    });
+
+    return this.send({
+      To: toTwilioAddress(to),
+      ContentSid: this.getContentSid(template.name),
+      ContentVariables: JSON.stringify(variables),
+    });
+  }
+
+  /**
+   * Twilio only sends reply buttons as twilio/quick-reply Content templates, which
+   * have to be created (and for WhatsApp, approved) ahead of time, so the message
+   * goes out as plain text: its text fallback, or the body with the button titles listed
+   */
+  async sendInteractive(to: string, message: InteractiveMessage): Promise<SendResult> {
+    const text = message.textFallback
+      || [message.body, '', ...message.buttons.map(button => `• ${button.title}`)].join('\n');
+
+    return this.sendText(to, text);
+  }
+
+  /**
+   * Resolve a template name to a Content SID ("HX..." values are used as-is)
+   */
+  private getContentSid(name: string): string {
+    if (name.startsWith('HX')) {
+      return name;
+    }
+
+    const mapping = process.env.TWILIO_CONTENT_SIDS ? JSON.parse(process.env.TWILIO_CONTENT_SIDS) : {};
+    if (!mapping[name]) {
+      throw new Error(`No Twilio Content SID configured for template "${name}" (set TWILIO_CONTENT_SIDS)`);
+    }
+
+    return mapping[name];
+  }
+
+  private async send(params: Record<string, string>): Promise<SendResult> {
+    const accountSid = getServerEnv('TWILIO_ACCOUNT_SID');
+    const authToken = getServerEnv('TWILIO_AUTH_TOKEN');
+    const from = process.env.TWILIO_WHATSAPP_FROM;
+
+    if (!from) {
+      throw new Error("Required environment variable 'TWILIO_WHATSAPP_FROM' is not set");
+    }
+
+    const response = await axios.post(
+      `${TWILIO_API_URL}/Accounts/${accountSid}/Messages.json`,
+      new URLSearchParams({ From: toTwilioAddress(from), ...params }).toString(),
+      {
+        auth: { username: accountSid, password: authToken },
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      }
+    );
+
+    return { messageId: response.data?.sid || null };
+  }
+
+  /**
+   * Twilio signs the full webhook URL followed by every POST parameter
+   * (sorted by name, name and value concatenated) with HMAC-SHA1 of the auth token
+   */
+  verifyWebhook(request: WebhookRequest): WebhookVerificationResult {
+    const authToken = getServerEnv('TWILIO_AUTH_TOKEN');
+    const signature = request.headers.get(this.signatureHeader);
+    const timestamp = new Date().toISOString();
+
+    if (!signature) {
+      return { isValid: false, error: 'Missing X-Twilio-Signature', metadata: { timestamp } };
+    }
+
+    // Behind proxies the request URL can differ from the one configured in Twilio
+    const url = process.env.TWILIO_WEBHOOK_URL || request.url;
+    const params = new URLSearchParams(request.rawBody);
+    const signedData = Array.from(params.keys())
+      .filter((key, index, keys) => keys.indexOf(key) === index)
+      .sort()
+      .reduce((data, key) => data + params.getAll(key).map(value => key + value).join(''), url);
+
+    const expected = Buffer.from(createHmac('sha1', authToken).update(signedData, 'utf8').digest('base64'));
+    const presented = Buffer.from(signature);
+    const isValid = presented.length === expected.length && timingSafeEqual(presented, expected);
+
+    return {
+      isValid,
+      ...(!isValid && { error: 'Twilio signature mismatch' }),
+      metadata: { payloadLength: request.rawBody.length, timestamp },
+    };
+  }
+
+  parseWebhook(request: WebhookRequest): ParsedWebhook {
+    const params = new URLSearchParams(request.rawBody);
+    const id = params.get('MessageSid');
+    const from = params.get('WaId') || params.get('From');
+
+    // Status callbacks carry MessageStatus instead of a Body
+    const status = TWILIO_DELIVERY_STATUSES[params.get('MessageStatus') || ''];
+    if (id && status && !params.has('Body')) {
+      return {
+        messages: [],
+        statuses: [{
+          messageId: id,
+          status,
+          recipient: normalizeWhatsAppNumber(params.get('To') || ''),
+          timestamp: new Date().toISOString(),
+          ...(params.get('ErrorCode') && {
+            errorCode: params.get('ErrorCode')!,
+            errorTitle: params.get('ErrorMessage') || undefined,
+          }),
+        }],
+      };
+    }
+
+    if (!id || !from || !params.has('Body')) {
+      return { messages: [], statuses: [] };
+    }
+
+    return {
+      messages: [{
+        id,
+        from: normalizeWhatsAppNumber(from),
+        text: params.get('Body') || '',
+        // Taps on a quick reply button carry its id and title
+        ...(params.get('ButtonPayload') && {
+          buttonReply: { id: params.get('ButtonPayload')!, title: params.get('ButtonText') || '' },
+        }),
+      }],
+      statuses: [],
+    };
+  }
+
+  verifySubscription(): string | null {
+    // Twilio has no subscription handshake
+    return null;
+  }
+
+  /**
+   * Twilio reads the webhook response as TwiML; reply with an empty document
+   * (replies are sent through the API instead)
+   */
+  acknowledgeWebhook(response: NextResponse): NextResponse {
+    if (!response.ok) {
+      return response;
+    }
+
+    return new NextResponse('<?xml version="1.0" encoding="UTF-8"?><Response></Response>', {
+      status: 200,
+      headers: { 'Content-Type': 'text/xml' },
+    });
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * Messaging Provider Interface
+ * Everything the app needs from a WhatsApp provider: sending, verifying and
+ * parsing inbound webhooks. Adapters live next to this file; pick one with
+ * MESSAGING_PROVIDER (see ./index.ts).
+ */
+
+import { NextResponse } from 'next/server';
+
+export type MessagingProviderName = 'meta' | 'twilio' | 'mock';
+
+/**
+ * Value for a dynamic template button, addressed by the button's position
+ * - otp: the code behind an authentication template's copy-code or one-tap autofill button
+ * - url: the variable suffix of a URL button
+ * - quick_reply: the payload returned when the user taps the button
+ */
+export type TemplateButton =
+  | { type: 'otp'; index: number; code: string }
+  | { type: 'url'; index: number; text: string }
+  | { type: 'quick_reply'; index: number; payload: string };
+
+export interface TemplateMessage {
+  // Template name (Twilio: Content SID, or a name mapped in TWILIO_CONTENT_SIDS)
+  name: string;
+  language: string;
+  bodyParameters: string[];
+  buttons?: TemplateButton[];
+}
+
+/**
+ * Reply button of an interactive message (WhatsApp allows up to three)
+ * The id comes back in the user's reply when they tap the button.
+ */
+export interface ReplyButton {
+  id: string;
+  // Shown on the button, at most 20 characters
+  title: string;
+}
+
+export interface InteractiveMessage {
+  body: string;
+  buttons: ReplyButton[];
+  // Sent as plain text by providers that can't send reply buttons without a template
+  // (Twilio); should tell the user what to type instead of tapping
+  textFallback?: string;
+}
+
+export interface SendResult {
+  // Provider message id (Meta wamid, Twilio SID), if the provider returned one
+  messageId: string | null;
+}
+
+export interface InboundMessage {
+  id: string;
+  // Sender's number, digits only in international format
+  from: string;
+  text: string;
+  // Set when the user tapped a reply button (interactive message or template quick reply)
+  buttonReply?: ReplyButton;
+}
+
+// Delivery progress of an outbound message, as reported by the provider
+export type DeliveryStatus = 'sent' | 'delivered' | 'read' | 'failed';
+
+export interface DeliveryStatusUpdate {
+  // Provider message id returned when the message was sent
+  messageId: string;
+  status: DeliveryStatus;
+  recipient: string;
+  timestamp: string;
+  errorCode?: string;
+  errorTitle?: string;
+}
+
+export interface ParsedWebhook {
+  messages: InboundMessage[];
+  statuses: DeliveryStatusUpdate[];
+}
+
+/**
+ * What the provider needs to check a webhook delivery
+ */
+export interface WebhookRequest {
+  rawBody: string;
+  headers: Headers;
+  url: string;
+}
+
+export interface WebhookVerificationResult {
+  isValid: boolean;
+  error?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface MessagingProvider {
+  readonly name: MessagingProviderName;
+
+  // Header carrying the webhook signature (null if deliveries aren't signed)
+  readonly signatureHeader: string | null;
+
+  // Whether sendInteractive shows reply buttons; if not, it sends the text fallback
+  // and the user types their answer instead
+  readonly replyButtons: boolean;
+
+  /**
+   * Send a plain text message (WhatsApp only delivers these inside the 24-hour window)
+   * @param to - Recipient, digits only in international format
+   */
+  sendText(to: string, body: string): Promise<SendResult>;
+
+  /**
+   * Send a pre-approved template message (deliverable outside the 24-hour window)
+   */
+  sendTemplate(to: string, template: TemplateMessage): Promise<SendResult>;
+
+  /**
+   * Send a message with reply buttons (like text, only inside the 24-hour window)
+   */
+  sendInteractive(to: string, message: InteractiveMessage): Promise<SendResult>;
+
+  /**
+   * Check the signature of a webhook delivery
+   * @throws When the provider's webhook secret is not configured
+   */
+  verifyWebhook(request: WebhookRequest): WebhookVerificationResult;
+
+  /**
+   * Extract inbound messages and delivery status callbacks from a verified delivery
+   */
+  parseWebhook(request: WebhookRequest): ParsedWebhook;
+
+  /**
+   * Answer a webhook subscription handshake (GET)
+   * @returns Body to echo back, or null to reject
+   */
+  verifySubscription(searchParams: URLSearchParams): string | null;
+
+  /**
+   * Adapt the route's response to what the provider expects back
+   */
+  acknowledgeWebhook(response: NextResponse): NextResponse;
+}
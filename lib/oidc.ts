@@ -0,0 +1,239 @@
+/**
+ * OpenID Connect Provider
+ * Lets other apps use this system as their identity provider ("Sign in with WhatsApp")
+ * via the authorization code flow with PKCE. Clients are registered with
+ * scripts/oauth-client.js and redirect URIs must match the allowlist exactly.
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseAdmin } from './supabaseAdmin';
+
+export const OIDC_SCOPES = ['openid', 'profile', 'phone'];
+
+// Authorization codes are exchanged immediately by the client's backend
+const AUTHORIZATION_CODE_LIFETIME_SECONDS = 60;
+
+// RFC 7636: 43-128 characters from the unreserved set
+const CODE_VERIFIER_PATTERN = /^[A-Za-z0-9\-._~]{43,128}$/;
+
+export interface OAuthClient {
+  client_id: string;
+  client_secret_hash: string | null;
+  name: string;
+  redirect_uris: string[];
+}
+
+export interface AuthorizationCodeRecord {
+  client_id: string;
+  user_id: string;
+  session_id: string | null;
+  redirect_uri: string;
+  scope: string;
+  nonce: string | null;
+  code_challenge: string;
+  auth_time: string;
+}
+
+export interface OIDCUser {
+  id: string;
+  name: string;
+  phone: string;
+  verified: boolean;
+}
+
+/**
+ * Get the issuer URL (OIDC_ISSUER, or the request origin when unset)
+ * Set OIDC_ISSUER in production so the issuer never depends on the Host header
+ */
+export function getOIDCIssuer(request: NextRequest): string {
+  return (process.env.OIDC_ISSUER || request.nextUrl.origin).replace(/\/+$/, '');
+}
+
+/**
+ * SHA-256 hex digest (client secrets and authorization codes are stored hashed)
+ */
+export function hashOAuthSecret(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+/**
+ * Look up an active client
+ * @param clientId - client_id from the request
+ * @returns Client or null if unknown or revoked
+ */
+export async function getOAuthClient(clientId: string | null): Promise<OAuthClient | null> {
+  if (!clientId) {
+    return null;
+  }
+
+  const supabaseAdmin = getSupabaseAdmin();
+  const { data: client, error } = await supabaseAdmin
+    .from('oauth_clients')
+    .select('client_id, client_secret_hash, name, redirect_uris')
+    .eq('client_id', clientId)
+    .is('revoked_at', null)
+    .single();
+
+  if (error || !client) {
+    return null;
+  }
+
+  return client;
+}
+
+/**
+ * Check a redirect URI against the client's allowlist (exact match, no wildcards)
+ */
+export function isAllowedRedirectUri(client: OAuthClient, redirectUri: string | null): boolean {
+  return !!redirectUri && client.redirect_uris.includes(redirectUri);
+}
+
+/**
+ * Authenticate a client at the token endpoint
+ * Confidential clients must present their secret; public clients (no secret) rely on PKCE alone
+ * @param client - Registered client
+ * @param clientSecret - Secret from Basic auth or the form body
+ * @returns True if the client is authenticated
+ */
+export function authenticateClient(client: OAuthClient, clientSecret: string | null): boolean {
+  if (!client.client_secret_hash) {
+    return !clientSecret;
+  }
+
+  if (!clientSecret) {
+    return false;
+  }
+
+  const presented = Buffer.from(hashOAuthSecret(clientSecret));
+  const expected = Buffer.from(client.client_secret_hash);
+
+  return presented.length === expected.length && timingSafeEqual(presented, expected);
+}
+
+/**
+ * Check a PKCE code verifier against the S256 challenge from /authorize
+ */
+export function verifyPKCE(codeVerifier: string | null, codeChallenge: string): boolean {
+  if (!codeVerifier || !CODE_VERIFIER_PATTERN.test(codeVerifier)) {
+    return false;
+  }
+
+  const computed = createHash('sha256').update(codeVerifier).digest('base64url');
+  return computed === codeChallenge;
+}
+
+/**
+ * Issue a single-use authorization code
+ * @param record - What the code grants
+ * @returns Authorization code to send to the client's redirect URI
+ */
+export async function createAuthorizationCode(record: AuthorizationCodeRecord): Promise<string> {
+  const code = randomBytes(32).toString('base64url');
+
+  const supabaseAdmin = getSupabaseAdmin();
+  const { error } = await supabaseAdmin
+    .from('oauth_authorization_codes')
+    .insert({
+      ...record,
+      code_hash: hashOAuthSecret(code),
+      code_challenge_method: 'S256',
+      expires_at: new Date(Date.now() + AUTHORIZATION_CODE_LIFETIME_SECONDS * 1000).toISOString(),
+    });
+
+  if (error) {
+    throw error;
+  }
+
+  return code;
+}
+
+/**
+ * Redeem an authorization code (atomically, so it can only be used once)
+ * @param code - Code from the token request
+ * @returns What the code grants, or null if unknown, expired or already used
+ */
+export async function consumeAuthorizationCode(code: string): Promise<AuthorizationCodeRecord | null> {
+  const supabaseAdmin = getSupabaseAdmin();
+  const { data, error } = await supabaseAdmin
+    .from('oauth_authorization_codes')
+    .update({ used_at: new Date().toISOString() })
+    .eq('code_hash', hashOAuthSecret(code))
+    .is('used_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .select('client_id, user_id, session_id, redirect_uri, scope, nonce, code_challenge, auth_time');
+
+  if (error || !data || data.length === 0) {
+    return null;
+  }
+
+  return data[0];
+}
+
+/**
+ * Load the user an ID token or userinfo response is about
+ */
+export async function getOIDCUser(userId: string): Promise<OIDCUser | null> {
+  const supabaseAdmin = getSupabaseAdmin();
+  const { data: user, error } = await supabaseAdmin
+    .from('users')
+    .select('id, name, phone, verified')
+    .eq('id', userId)
+    .single();
+
+  if (error || !user) {
+    return null;
+  }
+
+  return user;
+}
+
+/**
+ * Build the identity claims released for a granted scope
+ * @param user - Authenticated user
+ * @param scope - Space-separated granted scopes
+ */
+export function buildUserClaims(user: OIDCUser, scope: string): Record<string, unknown> {
+  const scopes = scope.split(' ');
+  const claims: Record<string, unknown> = { sub: user.id };
+
+  if (scopes.includes('profile')) {
+    claims.name = user.name;
+  }
+
+  if (scopes.includes('phone')) {
+    claims.phone_number = user.phone;
+    claims.phone_number_verified = user.verified;
+  }
+
+  return claims;
+}
+
+/**
+ * OAuth 2.0 error response (RFC 6749 section 5.2)
+ */
+export function oauthErrorResponse(error: string, description: string, status: number = 400): NextResponse {
+  return NextResponse.json(
+    { error, error_description: description },
+    { status, headers: { 'Cache-Control': 'no-store', 'Pragma': 'no-cache' } }
+  );
+}
+
+/**
+ * Redirect back to the client with an error (only after the redirect URI was validated)
+ */
+export function oauthErrorRedirect(
+  redirectUri: string,
+  error: string,
+  description: string,
+  state: string | null
+): NextResponse {
+  const url = new URL(redirectUri);
+  url.searchParams.set('error', error);
+  url.searchParams.set('error_description', description);
+  if (state) {
+    url.searchParams.set('state', state);
+  }
+
+  return NextResponse.redirect(url);
+}
@@ -0,0 +1,42 @@
+/**
+ * OTP Delivery Configuration
+ * Controls how verification codes reach the user:
+ * - inbound:  the browser shows the code and the user sends it to the bot
+ * - outbound: the server pushes the code to the user's WhatsApp and the
+ *             user types it into the verify-code page
+ */
+
+import { sendPurposeTemplate, sendWhatsAppMessage } from './whatsapp';
+
+export type OTPDeliveryMode = 'inbound' | 'outbound';
+
+// Maximum wrong guesses allowed against a single outbound code
+export const MAX_CODE_ATTEMPTS = 5;
+
+const DEFAULT_OTP_MESSAGE = 'Your verification code is {CODE}. It expires in 10 minutes. Do not share this code with anyone.';
+
+/**
+ * Get the configured OTP delivery mode (defaults to inbound)
+ */
+export function getOTPDeliveryMode(): OTPDeliveryMode {
+  return process.env.OTP_DELIVERY_MODE === 'outbound' ? 'outbound' : 'inbound';
+}
+
+/**
+ * Push a verification code to the user's WhatsApp number
+ * Uses the registered authentication template when WHATSAPP_OTP_TEMPLATE_NAME is set
+ * (with its copy-code or one-tap button, see WHATSAPP_OTP_TEMPLATE_BUTTON),
+ * otherwise a plain text message (only delivered inside the 24-hour window).
+ * The user asked for the code, so it is sent even if the number opted out.
+ * @param to - WhatsApp number (digits only)
+ * @param code - Verification code to deliver
+ * @param verificationId - Verification the code belongs to (for delivery tracking)
+ */
+export async function deliverVerificationCode(to: string, code: string, verificationId?: string): Promise<void> {
+  if (await sendPurposeTemplate(to, 'verification_code', { code }, { verificationId, userRequested: true })) {
+    return;
+  }
+
+  const messageTemplate = process.env.WHATSAPP_OTP_MESSAGE || DEFAULT_OTP_MESSAGE;
+  await sendWhatsAppMessage(to, messageTemplate.replace('{CODE}', code), { verificationId, userRequested: true });
+}
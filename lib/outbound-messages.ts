@@ -0,0 +1,131 @@
+/**
+ * Outbound Message Tracking
+ * Records every WhatsApp message the app sends under the provider's message id,
+ * and moves it along sent -> delivered -> read (or failed) as the provider's
+ * status callbacks arrive on the webhook.
+ */
+
+import { getSupabaseAdmin } from './supabaseAdmin';
+import { DeliveryStatus, DeliveryStatusUpdate, MessagingProviderName, SendResult } from './messaging';
+import { sanitizeUserInput } from './secure-error-handling-enhanced';
+
+export type OutboundMessageStatus = 'accepted' | DeliveryStatus;
+
+export interface OutboundMessageContext {
+  // The verification this message belongs to (code delivery or a reply to it)
+  verificationId?: string;
+  // The user just asked for this message (a code, a reply to their own message),
+  // so it is sent even if they opted out (see lib/messaging-consent)
+  userRequested?: boolean;
+}
+
+export interface OutboundMessageRecord {
+  provider: MessagingProviderName;
+  to: string;
+  type: 'text' | 'template' | 'interactive';
+  templateName?: string;
+  result: SendResult;
+  context?: OutboundMessageContext;
+}
+
+export interface MessageDeliveryStatus {
+  status: OutboundMessageStatus;
+  errorCode: string | null;
+  errorTitle: string | null;
+  updatedAt: string;
+}
+
+// Callbacks can arrive out of order (read before delivered); a status only
+// replaces the ones before it. Failed can follow anything short of read.
+const STATUS_PRECEDENCE: Record<DeliveryStatus, OutboundMessageStatus[]> = {
+  sent: ['accepted'],
+  delivered: ['accepted', 'sent'],
+  read: ['accepted', 'sent', 'delivered'],
+  failed: ['accepted', 'sent', 'delivered'],
+};
+
+/**
+ * Store a message the provider accepted
+ * Best effort: the message is already on its way, so a storage error is only logged
+ */
+export async function recordOutboundMessage(record: OutboundMessageRecord): Promise<void> {
+  try {
+    const supabaseAdmin = getSupabaseAdmin();
+    const { error } = await supabaseAdmin
+      .from('outbound_messages')
+      .insert({
+        provider: record.provider,
+        provider_message_id: record.result.messageId,
+        whatsapp_number: record.to,
+        message_type: record.type,
+        template_name: record.templateName || null,
+        verification_id: record.context?.verificationId || null,
+      });
+
+    if (error) {
+      throw error;
+    }
+  } catch (error) {
+    console.error('Failed to record outbound message:', sanitizeUserInput(error));
+  }
+}
+
+/**
+ * Apply a delivery status callback to the matching outbound message
+ * Messages sent before tracking existed (or by another system) are ignored.
+ */
+export async function applyDeliveryStatus(update: DeliveryStatusUpdate): Promise<void> {
+  const supabaseAdmin = getSupabaseAdmin();
+
+  // Always keep when each step happened, even if a later status already arrived
+  const { error: timestampError } = await supabaseAdmin
+    .from('outbound_messages')
+    .update({ [`${update.status}_at`]: update.timestamp })
+    .eq('provider_message_id', update.messageId);
+
+  if (timestampError) {
+    throw timestampError;
+  }
+
+  const { error } = await supabaseAdmin
+    .from('outbound_messages')
+    .update({
+      status: update.status,
+      status_updated_at: new Date().toISOString(),
+      ...(update.status === 'failed' && {
+        error_code: update.errorCode || null,
+        error_title: update.errorTitle || null,
+      }),
+    })
+    .eq('provider_message_id', update.messageId)
+    .in('status', STATUS_PRECEDENCE[update.status]);
+
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Delivery status of the latest message sent for a verification (null if none was sent)
+ */
+export async function getVerificationDeliveryStatus(verificationId: string): Promise<MessageDeliveryStatus | null> {
+  const supabaseAdmin = getSupabaseAdmin();
+  const { data, error } = await supabaseAdmin
+    .from('outbound_messages')
+    .select('status, error_code, error_title, status_updated_at')
+    .eq('verification_id', verificationId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error || !data) {
+    return null;
+  }
+
+  return {
+    status: data.status,
+    errorCode: data.error_code,
+    errorTitle: data.error_title,
+    updatedAt: data.status_updated_at,
+  };
+}
@@ -0,0 +1,140 @@
+/**
+ * Password Reset from WhatsApp
+ * "RESET" sent to the bot from an account's own number starts a password reset
+ * without the browser round trip: the message itself proves the number, so the
+ * reset verification is created already verified and the bot replies with a
+ * one-time link to /reset-password/continue that leads to the set-password page.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { getSupabaseAdmin } from './supabaseAdmin';
+import { generateVerificationCode } from './utils';
+import { checkCompositeRateLimit } from './rate-limiting';
+import { normalizeWhatsAppNumber } from './sender-binding';
+
+// Same lifetime as a reset code requested from the website
+export const RESET_LINK_TTL_MINUTES = 10;
+
+export type PhoneResetResult =
+  | { status: 'created'; link: string }
+  | { status: 'no_account' }
+  | { status: 'rate_limited'; retryAfter: number };
+
+export interface RedeemedResetLink {
+  code: string;
+  name: string;
+  whatsappNumber: string;
+}
+
+function hashResetLinkToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+async function generateUniqueCode(): Promise<string> {
+  const supabaseAdmin = getSupabaseAdmin();
+  let code = generateVerificationCode();
+
+  for (let attempts = 0; attempts < 10; attempts++) {
+    const { data } = await supabaseAdmin
+      .from('verification_codes')
+      .select('code')
+      .eq('code', code)
+      .maybeSingle();
+
+    if (!data) {
+      break;
+    }
+    code = generateVerificationCode();
+  }
+
+  return code;
+}
+
+/**
+ * Start a password reset for the account registered to a number
+ * Counts against the same per-number and per-account limits as /api/reset-password
+ * @param phone - `message.from` from the webhook payload
+ * @param appUrl - Public base URL of the app, for the link
+ */
+export async function startPasswordResetFromPhone(phone: string, appUrl: string): Promise<PhoneResetResult> {
+  const whatsappNumber = normalizeWhatsAppNumber(phone);
+
+  const rateLimit = await checkCompositeRateLimit('passwordReset', { phone: whatsappNumber });
+  if (!rateLimit.allowed) {
+    return { status: 'rate_limited', retryAfter: rateLimit.retryAfter || 3600 };
+  }
+
+  const supabaseAdmin = getSupabaseAdmin();
+  const { data: user, error: userError } = await supabaseAdmin
+    .from('users')
+    .select('id, name')
+    .eq('phone', whatsappNumber)
+    .eq('verified', true)
+    .maybeSingle();
+
+  if (userError) {
+    throw userError;
+  }
+
+  if (!user) {
+    return { status: 'no_account' };
+  }
+
+  const accountRateLimit = await checkCompositeRateLimit('passwordReset', { account: user.id });
+  if (!accountRateLimit.allowed) {
+    return { status: 'rate_limited', retryAfter: accountRateLimit.retryAfter || 3600 };
+  }
+
+  const token = randomBytes(32).toString('hex');
+  const now = new Date();
+
+  const { error } = await supabaseAdmin
+    .from('verification_codes')
+    .insert({
+      code: await generateUniqueCode(),
+      name: user.name,
+      whatsapp_number: whatsappNumber,
+      verified: true,
+      verified_at: now.toISOString(),
+      expires_at: new Date(now.getTime() + RESET_LINK_TTL_MINUTES * 60 * 1000).toISOString(),
+      delivery_mode: 'inbound',
+      reset_link_hash: hashResetLinkToken(token),
+    });
+
+  if (error) {
+    throw error;
+  }
+
+  return {
+    status: 'created',
+    link: `${appUrl.replace(/\/+$/, '')}/reset-password/continue?token=${token}`,
+  };
+}
+
+/**
+ * Exchange a reset link token for its verification (once)
+ * @returns The verification to continue the reset with, or null if the link is
+ *          unknown, already used or expired
+ */
+export async function redeemPasswordResetLink(token: string): Promise<RedeemedResetLink | null> {
+  const supabaseAdmin = getSupabaseAdmin();
+
+  // Clearing the hash is what makes the link single-use
+  const { data, error } = await supabaseAdmin
+    .from('verification_codes')
+    .update({ reset_link_hash: null })
+    .eq('reset_link_hash', hashResetLinkToken(token))
+    .eq('verified', true)
+    .gt('expires_at', new Date().toISOString())
+    .select('code, name, whatsapp_number');
+
+  if (error) {
+    throw error;
+  }
+
+  if (!data || data.length === 0) {
+    return null;
+  }
+
+  return { code: data[0].code, name: data[0].name, whatsappNumber: data[0].whatsapp_number };
+}
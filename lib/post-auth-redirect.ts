@@ -0,0 +1,55 @@
+/**
+ * Post-login Redirect (client-side)
+ * Remembers where to send the user after login or signup, e.g. back to
+ * /api/oauth/authorize when another app started "Sign in with WhatsApp".
+ * Stored in sessionStorage so it survives the multi-page signup flow.
+ */
+
+const STORAGE_KEY = 'post_auth_redirect';
+
+/**
+ * Only allow same-origin relative paths
+ */
+function isSafeRedirectPath(value: string | null): value is string {
+  return !!value && value.startsWith('/') && !value.startsWith('//') && !value.startsWith('/\\');
+}
+
+/**
+ * Remember the `next` query parameter of the current page, if any
+ */
+export function rememberPostAuthRedirect(): void {
+  if (typeof window === 'undefined') return;
+
+  const next = new URLSearchParams(window.location.search).get('next');
+  if (isSafeRedirectPath(next)) {
+    sessionStorage.setItem(STORAGE_KEY, next);
+  }
+}
+
+/**
+ * Take the remembered redirect (it is cleared so it is only used once)
+ * @returns Relative path or null if none was remembered
+ */
+export function consumePostAuthRedirect(): string | null {
+  if (typeof window === 'undefined') return null;
+
+  const next = sessionStorage.getItem(STORAGE_KEY);
+  sessionStorage.removeItem(STORAGE_KEY);
+
+  return isSafeRedirectPath(next) ? next : null;
+}
+
+/**
+ * Navigate to the remembered redirect, or fall back to the given page
+ * Uses a full navigation because the target may be an API route that redirects
+ * @param fallback - Navigation used when there is no remembered redirect
+ */
+export function continueAfterAuth(fallback: () => void): void {
+  const next = consumePostAuthRedirect();
+
+  if (next) {
+    window.location.assign(next);
+  } else {
+    fallback();
+  }
+}
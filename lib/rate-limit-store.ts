@@ -0,0 +1,547 @@
+/**
+ * Rate Limit Stores
+ * Counters shared by every rate limit in the app. The in-memory store only
+ * counts per instance; on Vercel use the Postgres (Supabase) or Redis store so
+ * all instances share one count.
+ *
+ * RATE_LIMIT_STORE selects the store: memory, postgres or redis
+ * (default: redis when REDIS_URL is set, otherwise memory).
+ */
+
+import { getSupabaseAdmin } from './supabaseAdmin';
+import { RedisClient } from './redis-client';
+
+export interface RateLimitCounter {
+  count: number;
+  resetTime: number;
+}
+
+export interface SlidingLogResult {
+  allowed: boolean;
+  // Requests in the window (including this one when allowed)
+  count: number;
+  // Time of the oldest request still in the window (the next slot frees up a window later)
+  oldestTime: number;
+  // Time of the newest request in the window (the log is empty a window later)
+  newestTime: number;
+}
+
+export interface TokenBucketResult {
+  allowed: boolean;
+  // Tokens left after this request (fractional while refilling)
+  tokens: number;
+}
+
+export interface RateLimitStore {
+  readonly name: string;
+
+  /**
+   * Count a request against a fixed window (atomically across instances)
+   * @param key - Rate limit key
+   * @param windowMs - Window length, starting with the first request
+   * @returns Count in the current window (including this request) and when it resets
+   */
+  hit(key: string, windowMs: number): Promise<RateLimitCounter>;
+
+  /**
+   * Read a counter without counting a request
+   * @returns Counter, or null if there is no open window
+   */
+  get(key: string): Promise<RateLimitCounter | null>;
+
+  /**
+   * Sliding window log: allow at most `limit` requests in any `windowMs` span
+   * Rejected requests are not logged
+   * @param peek - Report the state without logging a request
+   */
+  slidingLog(key: string, windowMs: number, limit: number, peek?: boolean): Promise<SlidingLogResult>;
+
+  /**
+   * Token bucket: `capacity` tokens, refilled at `capacity` per `windowMs`
+   * @param peek - Report the state without taking a token
+   */
+  tokenBucket(key: string, capacity: number, windowMs: number, peek?: boolean): Promise<TokenBucketResult>;
+
+  /**
+   * Clear a key (all algorithms)
+   */
+  reset(key: string): Promise<void>;
+}
+
+export type RateLimitStoreType = 'memory' | 'postgres' | 'redis';
+
+/**
+ * Rate limiting algorithms:
+ * - fixed-window:       counter reset every window (cheap, but allows a double burst at the boundary)
+ * - sliding-window-log: timestamps of recent requests, never more than the limit in any window
+ * - token-bucket:       bursts up to the limit, then a steady refill of limit per window
+ */
+export type RateLimitAlgorithm = 'fixed-window' | 'sliding-window-log' | 'token-bucket';
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // When the full quota is available again
+  resetTime: number;
+  // Seconds until the next request would be allowed (only when not allowed)
+  retryAfter?: number;
+}
+
+/**
+ * Per-instance store (development, single instance deployments and fallback)
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = 'memory';
+  private counters = new Map<string, RateLimitCounter>();
+  private logs = new Map<string, { windowMs: number; times: number[] }>();
+  private buckets = new Map<string, { windowMs: number; tokens: number; updatedAt: number }>();
+
+  constructor() {
+    // Clean up expired entries every 5 minutes
+    const interval = setInterval(() => this.cleanup(), 5 * 60 * 1000);
+    interval.unref?.();
+  }
+
+  async hit(key: string, windowMs: number): Promise<RateLimitCounter> {
+    const now = Date.now();
+    const counter = this.counters.get(key);
+
+    if (!counter || now >= counter.resetTime) {
+      const fresh = { count: 1, resetTime: now + windowMs };
+      this.counters.set(key, fresh);
+      return { ...fresh };
+    }
+
+    counter.count++;
+    return { ...counter };
+  }
+
+  async get(key: string): Promise<RateLimitCounter | null> {
+    const counter = this.counters.get(key);
+    if (!counter || Date.now() >= counter.resetTime) {
+      return null;
+    }
+
+    return { ...counter };
+  }
+
+  async slidingLog(key: string, windowMs: number, limit: number, peek: boolean = false): Promise<SlidingLogResult> {
+    const now = Date.now();
+    const times = (this.logs.get(key)?.times || []).filter(time => time > now - windowMs);
+    const allowed = times.length < limit;
+
+    if (allowed && !peek) {
+      times.push(now);
+    }
+    this.logs.set(key, { windowMs, times });
+
+    return { allowed, count: times.length, oldestTime: times[0] ?? now, newestTime: times[times.length - 1] ?? now };
+  }
+
+  async tokenBucket(key: string, capacity: number, windowMs: number, peek: boolean = false): Promise<TokenBucketResult> {
+    const now = Date.now();
+    const bucket = this.buckets.get(key);
+    let tokens = bucket
+      ? Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) * capacity / windowMs)
+      : capacity;
+    const allowed = tokens >= 1;
+
+    if (!peek) {
+      if (allowed) {
+        tokens -= 1;
+      }
+      this.buckets.set(key, { windowMs, tokens, updatedAt: now });
+    }
+
+    return { allowed, tokens };
+  }
+
+  async reset(key: string): Promise<void> {
+    this.counters.delete(key);
+    this.logs.delete(key);
+    this.buckets.delete(key);
+  }
+
+  private cleanup(): void {
+    const now = Date.now();
+
+    this.counters.forEach((counter, key) => {
+      if (now >= counter.resetTime) {
+        this.counters.delete(key);
+      }
+    });
+
+    // A log is empty, and a bucket full again, once a whole window has passed
+    this.logs.forEach((log, key) => {
+      if (log.times.length === 0 || log.times[log.times.length - 1] <= now - log.windowMs) {
+        this.logs.delete(key);
+      }
+    });
+
+    this.buckets.forEach((bucket, key) => {
+      if (bucket.updatedAt <= now - bucket.windowMs) {
+        this.buckets.delete(key);
+      }
+    });
+  }
+}
+
+/**
+ * Shared store in the rate_limits table
+ * Counting goes through the rate_limit_hit() function, a single INSERT ... ON CONFLICT
+ * upsert, so concurrent requests on different instances never lose an increment
+ */
+export class PostgresRateLimitStore implements RateLimitStore {
+  readonly name = 'postgres';
+
+  async hit(key: string, windowMs: number): Promise<RateLimitCounter> {
+    const supabaseAdmin = getSupabaseAdmin();
+    const { data, error } = await supabaseAdmin
+      .rpc('rate_limit_hit', { p_key: key, p_window_ms: windowMs })
+      .single<{ count: number; reset_at: string }>();
+
+    if (error || !data) {
+      throw error || new Error('rate_limit_hit returned no row');
+    }
+
+    return { count: data.count, resetTime: new Date(data.reset_at).getTime() };
+  }
+
+  async get(key: string): Promise<RateLimitCounter | null> {
+    const supabaseAdmin = getSupabaseAdmin();
+    const { data, error } = await supabaseAdmin
+      .from('rate_limits')
+      .select('count, reset_at')
+      .eq('key', key)
+      .gt('reset_at', new Date().toISOString())
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data ? { count: data.count, resetTime: new Date(data.reset_at).getTime() } : null;
+  }
+
+  async slidingLog(key: string, windowMs: number, limit: number, peek: boolean = false): Promise<SlidingLogResult> {
+    const supabaseAdmin = getSupabaseAdmin();
+    const { data, error } = await supabaseAdmin
+      .rpc('rate_limit_sliding_log', { p_key: key, p_window_ms: windowMs, p_limit: limit, p_peek: peek })
+      .single<{ allowed: boolean; count: number; oldest_at: string | null; newest_at: string | null }>();
+
+    if (error || !data) {
+      throw error || new Error('rate_limit_sliding_log returned no row');
+    }
+
+    return {
+      allowed: data.allowed,
+      count: data.count,
+      oldestTime: data.oldest_at ? new Date(data.oldest_at).getTime() : Date.now(),
+      newestTime: data.newest_at ? new Date(data.newest_at).getTime() : Date.now(),
+    };
+  }
+
+  async tokenBucket(key: string, capacity: number, windowMs: number, peek: boolean = false): Promise<TokenBucketResult> {
+    const supabaseAdmin = getSupabaseAdmin();
+    const { data, error } = await supabaseAdmin
+      .rpc('rate_limit_take_token', { p_key: key, p_capacity: capacity, p_window_ms: windowMs, p_peek: peek })
+      .single<{ allowed: boolean; tokens: number }>();
+
+    if (error || !data) {
+      throw error || new Error('rate_limit_take_token returned no row');
+    }
+
+    return { allowed: data.allowed, tokens: data.tokens };
+  }
+
+  async reset(key: string): Promise<void> {
+    const supabaseAdmin = getSupabaseAdmin();
+
+    for (const table of ['rate_limits', 'rate_limit_events', 'rate_limit_buckets']) {
+      const { error } = await supabaseAdmin
+        .from(table)
+        .delete()
+        .eq('key', key);
+
+      if (error) {
+        throw error;
+      }
+    }
+  }
+}
+
+// INCR and set the expiry in one script so a crash can never leave a key without a TTL
+const REDIS_HIT_SCRIPT = `
+local count = redis.call('INCR', KEYS[1])
+local ttl = redis.call('PTTL', KEYS[1])
+if ttl < 0 then
+  redis.call('PEXPIRE', KEYS[1], ARGV[1])
+  ttl = tonumber(ARGV[1])
+end
+return {count, ttl}
+`;
+
+const REDIS_GET_SCRIPT = `
+return {redis.call('GET', KEYS[1]), redis.call('PTTL', KEYS[1])}
+`;
+
+// Sorted set of request times; ARGV: now, window, limit, peek, unique member
+const REDIS_SLIDING_LOG_SCRIPT = `
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now - window)
+local count = redis.call('ZCARD', KEYS[1])
+local allowed = count < tonumber(ARGV[3])
+if allowed and ARGV[4] ~= '1' then
+  redis.call('ZADD', KEYS[1], now, ARGV[5])
+  redis.call('PEXPIRE', KEYS[1], window)
+  count = count + 1
+end
+local oldest = redis.call('ZRANGE', KEYS[1], 0, 0, 'WITHSCORES')
+local newest = redis.call('ZRANGE', KEYS[1], -1, -1, 'WITHSCORES')
+return {allowed and 1 or 0, count, oldest[2] or tostring(now), newest[2] or tostring(now)}
+`;
+
+// Hash of tokens and last update; ARGV: now, capacity, window, peek
+const REDIS_TOKEN_BUCKET_SCRIPT = `
+local now = tonumber(ARGV[1])
+local capacity = tonumber(ARGV[2])
+local window = tonumber(ARGV[3])
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'updated_at')
+local tokens = tonumber(state[1]) or capacity
+local updated = tonumber(state[2]) or now
+tokens = math.min(capacity, tokens + math.max(0, now - updated) * capacity / window)
+local allowed = tokens >= 1
+if ARGV[4] ~= '1' then
+  if allowed then
+    tokens = tokens - 1
+  end
+  redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updated_at', now)
+  redis.call('PEXPIRE', KEYS[1], window)
+end
+return {allowed and 1 or 0, tostring(tokens)}
+`;
+
+/**
+ * Shared store in any server speaking the Redis protocol (Redis, Valkey, Upstash, ...)
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  readonly name = 'redis';
+  private client: RedisClient;
+
+  constructor(url: string, password?: string, private readonly prefix: string = 'ratelimit:') {
+    this.client = new RedisClient(url, password);
+  }
+
+  async hit(key: string, windowMs: number): Promise<RateLimitCounter> {
+    const reply = await this.client.command('EVAL', REDIS_HIT_SCRIPT, 1, this.prefix + key, windowMs);
+    const [count, ttl] = reply as [number, number];
+
+    return { count, resetTime: Date.now() + ttl };
+  }
+
+  async get(key: string): Promise<RateLimitCounter | null> {
+    const reply = await this.client.command('EVAL', REDIS_GET_SCRIPT, 1, this.prefix + key);
+    const [count, ttl] = reply as [string | null, number];
+
+    if (count === null || ttl < 0) {
+      return null;
+    }
+
+    return { count: Number(count), resetTime: Date.now() + ttl };
+  }
+
+  async slidingLog(key: string, windowMs: number, limit: number, peek: boolean = false): Promise<SlidingLogResult> {
+    const now = Date.now();
+    const member = `${now}-${Math.random().toString(36).slice(2)}`;
+    const reply = await this.client.command(
+      'EVAL', REDIS_SLIDING_LOG_SCRIPT, 1, `${this.prefix}log:${key}`, now, windowMs, limit, peek ? 1 : 0, member
+    );
+    const [allowed, count, oldest, newest] = reply as [number, number, string, string];
+
+    return { allowed: allowed === 1, count, oldestTime: Number(oldest), newestTime: Number(newest) };
+  }
+
+  async tokenBucket(key: string, capacity: number, windowMs: number, peek: boolean = false): Promise<TokenBucketResult> {
+    const reply = await this.client.command(
+      'EVAL', REDIS_TOKEN_BUCKET_SCRIPT, 1, `${this.prefix}bucket:${key}`, Date.now(), capacity, windowMs, peek ? 1 : 0
+    );
+    const [allowed, tokens] = reply as [number, string];
+
+    return { allowed: allowed === 1, tokens: Number(tokens) };
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.client.command('DEL', this.prefix + key, `${this.prefix}log:${key}`, `${this.prefix}bucket:${key}`);
+  }
+}
+
+/**
+ * Pick the store type from the environment
+ */
+export function getRateLimitStoreType(): RateLimitStoreType {
+  const configured = process.env.RATE_LIMIT_STORE?.toLowerCase();
+
+  if (configured === 'memory' || configured === 'postgres' || configured === 'redis') {
+    return configured;
+  }
+
+  if (configured) {
+    console.warn(`Unknown RATE_LIMIT_STORE "${configured}", using memory`);
+    return 'memory';
+  }
+
+  return process.env.REDIS_URL ? 'redis' : 'memory';
+}
+
+function createRateLimitStore(type: RateLimitStoreType): RateLimitStore {
+  switch (type) {
+    case 'postgres':
+      return new PostgresRateLimitStore();
+
+    case 'redis':
+      if (!process.env.REDIS_URL) {
+        console.warn('RATE_LIMIT_STORE=redis but REDIS_URL is not set, using memory');
+        return new MemoryRateLimitStore();
+      }
+      return new RedisRateLimitStore(process.env.REDIS_URL, process.env.REDIS_PASSWORD);
+
+    default:
+      return new MemoryRateLimitStore();
+  }
+}
+
+let rateLimitStore: RateLimitStore | null = null;
+let fallbackStore: RateLimitStore | null = null;
+
+/**
+ * Get the configured store (created once per instance)
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!rateLimitStore) {
+    rateLimitStore = createRateLimitStore(getRateLimitStoreType());
+  }
+
+  return rateLimitStore;
+}
+
+/**
+ * In-memory store used while the shared store is unreachable
+ */
+function getFallbackStore(): RateLimitStore {
+  if (!fallbackStore) {
+    fallbackStore = getRateLimitStore().name === 'memory' ? getRateLimitStore() : new MemoryRateLimitStore();
+  }
+
+  return fallbackStore;
+}
+
+/**
+ * Count a request in the configured store
+ * If a shared store fails, count per instance instead so an outage of the
+ * store degrades rate limiting rather than taking logins down with it
+ */
+export async function hitRateLimit(key: string, windowMs: number): Promise<RateLimitCounter> {
+  const store = getRateLimitStore();
+
+  try {
+    return await store.hit(key, windowMs);
+  } catch (error) {
+    console.error(`Rate limit store "${store.name}" failed, counting in memory:`, error);
+    return getFallbackStore().hit(key, windowMs);
+  }
+}
+
+/**
+ * Read a counter from the configured store (null if unavailable)
+ */
+export async function peekRateLimit(key: string): Promise<RateLimitCounter | null> {
+  try {
+    return await getRateLimitStore().get(key);
+  } catch (error) {
+    console.error('Rate limit store read failed:', error);
+    return getFallbackStore().get(key);
+  }
+}
+
+/**
+ * Apply one rate limit with the chosen algorithm
+ * Falls back to per-instance counting if the shared store fails (see hitRateLimit)
+ * @param key - Rate limit key
+ * @param algorithm - Algorithm to apply
+ * @param windowMs - Window length (token bucket: time to refill completely)
+ * @param limit - Requests allowed per window (token bucket: capacity)
+ * @param peek - Report the state without counting a request
+ */
+export async function consumeRateLimit(
+  key: string,
+  algorithm: RateLimitAlgorithm,
+  windowMs: number,
+  limit: number,
+  peek: boolean = false
+): Promise<RateLimitDecision> {
+  const store = getRateLimitStore();
+
+  try {
+    return await decide(store, key, algorithm, windowMs, limit, peek);
+  } catch (error) {
+    console.error(`Rate limit store "${store.name}" failed, counting in memory:`, error);
+    return decide(getFallbackStore(), key, algorithm, windowMs, limit, peek);
+  }
+}
+
+async function decide(
+  store: RateLimitStore,
+  key: string,
+  algorithm: RateLimitAlgorithm,
+  windowMs: number,
+  limit: number,
+  peek: boolean
+): Promise<RateLimitDecision> {
+  const now = Date.now();
+  let allowed: boolean;
+  let remaining: number;
+  let resetTime: number;
+  let nextAllowedTime: number;
+
+  switch (algorithm) {
+    case 'sliding-window-log': {
+      const log = await store.slidingLog(key, windowMs, limit, peek);
+      allowed = log.allowed;
+      remaining = Math.max(0, limit - log.count);
+      // Fully reset once the newest entry leaves the window; the next request fits when the oldest does
+      resetTime = log.count > 0 ? log.newestTime + windowMs : now;
+      nextAllowedTime = log.count > 0 ? log.oldestTime + windowMs : now;
+      break;
+    }
+
+    case 'token-bucket': {
+      const bucket = await store.tokenBucket(key, limit, windowMs, peek);
+      const msPerToken = windowMs / limit;
+      allowed = bucket.allowed;
+      remaining = Math.floor(bucket.tokens);
+      resetTime = now + Math.ceil((limit - bucket.tokens) * msPerToken);
+      nextAllowedTime = now + Math.ceil((1 - bucket.tokens) * msPerToken);
+      break;
+    }
+
+    default: {
+      const counter = peek
+        ? (await store.get(key)) || { count: 0, resetTime: now + windowMs }
+        : await store.hit(key, windowMs);
+      allowed = peek ? counter.count < limit : counter.count <= limit;
+      remaining = Math.max(0, limit - counter.count);
+      resetTime = counter.resetTime;
+      nextAllowedTime = resetTime;
+    }
+  }
+
+  return {
+    allowed,
+    limit,
+    remaining,
+    resetTime,
+    ...(!allowed && { retryAfter: Math.max(1, Math.ceil((nextAllowedTime - now) / 1000)) })
+  };
+}
@@ -1,16 +1,20 @@
 /**
- * Rate Limiting Implementation for Vercel Free Tier
- * Uses in-memory storage with cleanup to avoid external dependencies
+ * Rate Limiting Implementation
+ * Counters live in the configured RateLimitStore (see lib/rate-limit-store.ts),
+ * so every instance shares one count when a Postgres or Redis store is set up.
+ * Each limit picks its algorithm: fixed window, sliding window log or token bucket.
  */
 
-interface RateLimitEntry {
-  count: number;
-  resetTime: number;
-  lastRequest: number;
-}
+import { consumeRateLimit, RateLimitAlgorithm, RateLimitDecision } from './rate-limit-store';
+
+export type { RateLimitAlgorithm, RateLimitDecision } from './rate-limit-store';
 
-// In-memory rate limit store
-const rateLimitStore = new Map<string, RateLimitEntry>();
+export interface RateLimitRule {
+  windowMs: number;
+  maxRequests: number;
+  // Defaults to fixed-window
+  algorithm?: RateLimitAlgorithm;
+}
 
 // Rate limit configurations
 export const RATE_LIMITS = {
@@ -18,6 +22,7 @@ export const RATE_LIMITS = {
   api: {
     windowMs: 15 * 60 * 1000, // 15 minutes
     maxRequests: 50, // Reduced from 100 for security
+    algorithm: 'token-bucket', // OAuth clients legitimately burst, then settle
     keyGenerator: (request: Request) => {
       const ip = request.headers.get('x-forwarded-for') || 
                  request.headers.get('x-real-ip') || 
@@ -28,38 +33,26 @@ export const RATE_LIMITS = {
     }
   },
   
-  // Authentication endpoints
-  auth: {
+  // Outbound verification code entry
+  verifyCode: {
     windowMs: 15 * 60 * 1000, // 15 minutes
-    maxRequests: 5, // Reduced from 10 for security
+    maxRequests: 10,
+    algorithm: 'sliding-window-log', // No double burst of guesses at a window boundary
     keyGenerator: (request: Request) => {
-      const ip = request.headers.get('x-forwarded-for') || 
-                 request.headers.get('x-real-ip') || 
+      const ip = request.headers.get('x-forwarded-for') ||
+                 request.headers.get('x-real-ip') ||
                  'unknown';
       const userAgent = request.headers.get('user-agent') || 'unknown';
       // Combine IP and User-Agent for better fingerprinting
-      return `auth:${ip}:${userAgent.slice(0, 20)}`;
+      return `verify_code:${ip}:${userAgent.slice(0, 20)}`;
     }
   },
-  
-  // Password reset
-  passwordReset: {
-    windowMs: 60 * 60 * 1000, // 1 hour
-    maxRequests: 2, // Reduced from 3 for security
-    keyGenerator: (request: Request) => {
-      const ip = request.headers.get('x-forwarded-for') || 
-                 request.headers.get('x-real-ip') || 
-                 'unknown';
-      const userAgent = request.headers.get('user-agent') || 'unknown';
-      // Combine IP and User-Agent for better fingerprinting
-      return `password_reset:${ip}:${userAgent.slice(0, 20)}`;
-    }
-  },
-  
+
   // WhatsApp webhook
   webhook: {
     windowMs: 60 * 1000, // 1 minute
     maxRequests: 30, // Reduced from 50 for security
+    algorithm: 'token-bucket', // Meta delivers in bursts
     keyGenerator: (request: Request) => {
       const ip = request.headers.get('x-forwarded-for') || 
                  request.headers.get('x-real-ip') || 
@@ -69,7 +62,28 @@ export const RATE_LIMITS = {
       return `webhook:${ip}:${userAgent.slice(0, 20)}`;
     }
   }
-};
+} satisfies Record<string, RateLimitRule & { keyGenerator: (request: Request) => string }>;
+
+// Tightest limit seen while handling each request, for the RateLimit-* headers
+const requestRateLimits = new WeakMap<Request, RateLimitDecision>();
+
+/**
+ * Remember a decision for the response headers, keeping the most restrictive one
+ */
+function recordRateLimit(request: Request, decision: RateLimitDecision): void {
+  const current = requestRateLimits.get(request);
+
+  if (!current || (current.allowed && (!decision.allowed || decision.remaining < current.remaining))) {
+    requestRateLimits.set(request, decision);
+  }
+}
+
+/**
+ * Apply one rule to a key
+ */
+function applyRule(key: string, rule: RateLimitRule, peek: boolean = false): Promise<RateLimitDecision> {
+  return consumeRateLimit(key, rule.algorithm || 'fixed-window', rule.windowMs, rule.maxRequests, peek);
+}
 
 /**
  * Check if request is within rate limit
@@ -77,160 +91,212 @@ export const RATE_LIMITS = {
  * @param limitType - Type of rate limit to apply
  * @returns Rate limit status
  */
-export function checkRateLimit(
+export async function checkRateLimit(
   request: Request, 
   limitType: keyof typeof RATE_LIMITS
-): {
-  allowed: boolean;
-  remaining: number;
-  resetTime: number;
-  retryAfter?: number;
-} {
-  const config = RATE_LIMITS[limitType];
-  const key = config.keyGenerator(request);
-  const now = Date.now();
-  
-  // Clean up expired entries
-  cleanupExpiredEntries();
-  
-  const entry = rateLimitStore.get(key);
-  
-  if (!entry) {
-    // First request
-    rateLimitStore.set(key, {
-      count: 1,
-      resetTime: now + config.windowMs,
-      lastRequest: now
-    });
-    
-    return {
-      allowed: true,
-      remaining: config.maxRequests - 1,
-      resetTime: now + config.windowMs
-    };
-  }
-  
-  // Check if window has expired
-  if (now > entry.resetTime) {
-    // Reset the counter
-    rateLimitStore.set(key, {
-      count: 1,
-      resetTime: now + config.windowMs,
-      lastRequest: now
-    });
-    
-    return {
-      allowed: true,
-      remaining: config.maxRequests - 1,
-      resetTime: now + config.windowMs
-    };
+): Promise<RateLimitDecision> {
+  const config: RateLimitRule & { keyGenerator: (request: Request) => string } = RATE_LIMITS[limitType];
+  const decision = await applyRule(config.keyGenerator(request), config);
+
+  recordRateLimit(request, decision);
+  return decision;
+}
+
+// Composite limits: one request is counted against several subjects, each with
+// its own window, so neither rotating IPs nor spreading attempts across numbers
+// gets around them
+export type RateLimitScope = 'ip' | 'phone' | 'account' | 'global';
+
+export type RateLimitPolicy = Partial<Record<RateLimitScope, RateLimitRule>>;
+
+export type RateLimitSubjects = Partial<Record<RateLimitScope, string>>;
+
+// Scopes are checked in this order; the first exceeded one stops the request
+// (so an IP that is already blocked stops using up the target number's budget)
+const RATE_LIMIT_SCOPES: RateLimitScope[] = ['ip', 'phone', 'account', 'global'];
+
+export const COMPOSITE_RATE_LIMITS = {
+  // Password login
+  login: {
+    ip: { windowMs: 15 * 60 * 1000, maxRequests: 5 },
+    phone: { windowMs: 15 * 60 * 1000, maxRequests: 5, algorithm: 'sliding-window-log' },
+    account: { windowMs: 60 * 60 * 1000, maxRequests: 10 },
+    global: { windowMs: 60 * 1000, maxRequests: 300 }
+  },
+
+  // Signup verification codes
+  signup: {
+    ip: { windowMs: 60 * 60 * 1000, maxRequests: 10 },
+    phone: { windowMs: 60 * 60 * 1000, maxRequests: 3, algorithm: 'sliding-window-log' },
+    global: { windowMs: 60 * 1000, maxRequests: 100 }
+  },
+
+  // Password reset codes
+  passwordReset: {
+    ip: { windowMs: 60 * 60 * 1000, maxRequests: 2 },
+    phone: { windowMs: 60 * 60 * 1000, maxRequests: 3, algorithm: 'sliding-window-log' },
+    account: { windowMs: 24 * 60 * 60 * 1000, maxRequests: 5 },
+    global: { windowMs: 60 * 1000, maxRequests: 100 }
+  },
+
+  // Session exchange for a verified inbound code
+  verifyAndAuth: {
+    ip: { windowMs: 15 * 60 * 1000, maxRequests: 30 },
+    phone: { windowMs: 15 * 60 * 1000, maxRequests: 10 },
+    global: { windowMs: 60 * 1000, maxRequests: 300 }
+  },
+
+  // Every outbound WhatsApp message (codes, replies, notifications)
+  whatsappSend: {
+    phone: { windowMs: 60 * 60 * 1000, maxRequests: 10 },
+    global: { windowMs: 60 * 1000, maxRequests: 120, algorithm: 'token-bucket' }
   }
-  
-  // Check if limit exceeded
-  if (entry.count >= config.maxRequests) {
-    return {
-      allowed: false,
-      remaining: 0,
-      resetTime: entry.resetTime,
-      retryAfter: Math.ceil((entry.resetTime - now) / 1000)
-    };
+} satisfies Record<string, RateLimitPolicy>;
+
+export type CompositeRateLimitType = keyof typeof COMPOSITE_RATE_LIMITS;
+
+export interface CompositeRateLimitResult extends RateLimitDecision {
+  scope?: RateLimitScope;
+}
+
+/**
+ * Error thrown by code paths without a request to answer (e.g. outbound sends)
+ */
+export class RateLimitExceededError extends Error {
+  constructor(public readonly scope: RateLimitScope, public readonly retryAfter: number) {
+    super(`Rate limit exceeded (${scope})`);
+    this.name = 'RateLimitExceededError';
   }
-  
-  // Increment counter
-  entry.count++;
-  entry.lastRequest = now;
-  rateLimitStore.set(key, entry);
-  
-  return {
-    allowed: true,
-    remaining: config.maxRequests - entry.count,
-    resetTime: entry.resetTime
-  };
 }
 
 /**
- * Clean up expired rate limit entries
+ * Client IP for rate limiting (first x-forwarded-for hop, as set by Vercel)
  */
-function cleanupExpiredEntries(): void {
-  const now = Date.now();
-  const keysToDelete: string[] = [];
-  
-  rateLimitStore.forEach((entry, key) => {
-    if (now > entry.resetTime) {
-      keysToDelete.push(key);
+export function getClientIp(request: Request): string {
+  const forwardedFor = request.headers.get('x-forwarded-for');
+  return (forwardedFor && forwardedFor.split(',')[0].trim()) ||
+         request.headers.get('x-real-ip') ||
+         'unknown';
+}
+
+/**
+ * Subjects for a request: its IP and the global ceiling, plus whatever is known
+ * @param request - Request object
+ * @param subjects - Target phone number and/or account id
+ */
+export function getRateLimitSubjects(request: Request, subjects: RateLimitSubjects = {}): RateLimitSubjects {
+  return { ip: getClientIp(request), global: 'all', ...subjects };
+}
+
+/**
+ * Count a request against every scope of a policy that has a subject
+ * @param limitType - Policy to apply
+ * @param subjects - Identifier per scope; scopes without one are skipped, so a
+ *                   route can check the account once it has looked the user up
+ * @param request - Request to report the tightest limit for in its RateLimit-* headers
+ * @returns Whether the request is allowed and, if not, which scope blocked it
+ */
+export async function checkCompositeRateLimit(
+  limitType: CompositeRateLimitType,
+  subjects: RateLimitSubjects,
+  request?: Request
+): Promise<CompositeRateLimitResult> {
+  const policy: RateLimitPolicy = COMPOSITE_RATE_LIMITS[limitType];
+  let tightest: CompositeRateLimitResult | null = null;
+
+  for (const scope of RATE_LIMIT_SCOPES) {
+    const rule = policy[scope];
+    const subject = subjects[scope];
+    if (!rule || !subject) {
+      continue;
     }
-  });
-  
-  keysToDelete.forEach(key => rateLimitStore.delete(key));
+
+    const decision = await applyRule(`${limitType}:${scope}:${subject}`, rule);
+    if (request) {
+      recordRateLimit(request, decision);
+    }
+
+    if (!decision.allowed) {
+      return { ...decision, scope };
+    }
+
+    if (!tightest || decision.remaining < tightest.remaining) {
+      tightest = { ...decision, scope };
+    }
+  }
+
+  return tightest || { allowed: true, limit: 0, remaining: 0, resetTime: Date.now() };
 }
 
 /**
- * Get rate limit status for a key
- * @param key - Rate limit key
+ * Get rate limit status for a request without counting it
+ * @param request - Request object
+ * @param limitType - Type of rate limit to report
  * @returns Rate limit status
  */
-export function getRateLimitStatus(key: string): {
-  count: number;
-  remaining: number;
-  resetTime: number;
-  isLimited: boolean;
-} {
-  const entry = rateLimitStore.get(key);
-  
-  if (!entry) {
-    return {
-      count: 0,
-      remaining: 100, // Default limit
-      resetTime: Date.now() + 15 * 60 * 1000,
-      isLimited: false
-    };
-  }
-  
-  const now = Date.now();
-  const isExpired = now > entry.resetTime;
-  
-  if (isExpired) {
-    return {
-      count: 0,
-      remaining: 100,
-      resetTime: now + 15 * 60 * 1000,
-      isLimited: false
-    };
+export async function getRateLimitStatus(
+  request: Request,
+  limitType: keyof typeof RATE_LIMITS
+): Promise<RateLimitDecision> {
+  const config: RateLimitRule & { keyGenerator: (request: Request) => string } = RATE_LIMITS[limitType];
+  return applyRule(config.keyGenerator(request), config, true);
+}
+
+/**
+ * Set the standard RateLimit-Limit / RateLimit-Remaining / RateLimit-Reset headers
+ * (RateLimit-Reset is in seconds from now)
+ */
+export function applyRateLimitHeaders<T extends Response>(response: T, decision: RateLimitDecision): T {
+  response.headers.set('RateLimit-Limit', decision.limit.toString());
+  response.headers.set('RateLimit-Remaining', decision.remaining.toString());
+  response.headers.set('RateLimit-Reset', Math.max(0, Math.ceil((decision.resetTime - Date.now()) / 1000)).toString());
+
+  if (!decision.allowed && decision.retryAfter && !response.headers.has('Retry-After')) {
+    response.headers.set('Retry-After', decision.retryAfter.toString());
   }
-  
-  return {
-    count: entry.count,
-    remaining: Math.max(0, 100 - entry.count),
-    resetTime: entry.resetTime,
-    isLimited: entry.count >= 100
+
+  return response;
+}
+
+/**
+ * Wrap a route handler so every response carries the RateLimit-* headers of the
+ * tightest limit checked while handling it (successes as well as 429s)
+ */
+export function withRateLimitHeaders<Req extends Request, Args extends unknown[], Res extends Response>(
+  handler: (request: Req, ...args: Args) => Promise<Res>
+): (request: Req, ...args: Args) => Promise<Res> {
+  return async (request: Req, ...args: Args) => {
+    const response = await handler(request, ...args);
+    const decision = requestRateLimits.get(request);
+
+    return decision ? applyRateLimitHeaders(response, decision) : response;
   };
 }
 
 /**
  * Create rate limit response
- * @param retryAfter - Seconds to wait before retry
+ * @param decision - The limit that was exceeded
  * @returns Rate limit exceeded response
  */
-export function createRateLimitResponse(retryAfter: number): Response {
-  return new Response(
-    JSON.stringify({
-      success: false,
-      error: 'Rate limit exceeded',
-      code: 'RATE_LIMIT_EXCEEDED',
-      retryAfter
-    }),
-    {
-      status: 429,
-      headers: {
-        'Content-Type': 'application/json',
-        'Retry-After': retryAfter.toString(),
-        'X-RateLimit-Limit': '100',
-        'X-RateLimit-Remaining': '0',
-        'X-RateLimit-Reset': new Date(Date.now() + retryAfter * 1000).toISOString()
+export function createRateLimitResponse(decision: RateLimitDecision): Response {
+  const retryAfter = decision.retryAfter || Math.max(1, Math.ceil((decision.resetTime - Date.now()) / 1000));
+
+  return applyRateLimitHeaders(
+    new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Rate limit exceeded',
+        code: 'RATE_LIMIT_EXCEEDED',
+        retryAfter
+      }),
+      {
+        status: 429,
+        headers: {
+          'Content-Type': 'application/json',
+          'Retry-After': retryAfter.toString()
+        }
       }
-    }
+    ),
+    decision
   );
 }
-
-// Clean up expired entries every 5 minutes
-setInterval(cleanupExpiredEntries, 5 * 60 * 1000);
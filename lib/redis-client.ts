@@ -0,0 +1,221 @@
+/**
+ * Minimal Redis protocol (RESP2) client
+ * Enough for the rate-limit store: one pipelined connection per URL, AUTH/SELECT
+ * from the URL and TLS for rediss:// (Redis, Valkey, Upstash, Dragonfly, ...).
+ * Node.js runtime only.
+ */
+
+import net from 'net';
+import tls from 'tls';
+
+export type RedisReply = string | number | null | RedisReply[];
+
+interface PendingCommand {
+  resolve: (reply: RedisReply) => void;
+  reject: (error: Error) => void;
+}
+
+const CONNECT_TIMEOUT_MS = 5000;
+
+// A reply slower than this drops the connection, failing every command in flight
+// (callers fall back as they do when the server is unreachable)
+const COMMAND_TIMEOUT_MS = 2000;
+
+/**
+ * Encode a command as a RESP array of bulk strings
+ */
+function encodeCommand(args: (string | number)[]): Buffer {
+  const parts = [`*${args.length}\r\n`];
+  for (const arg of args) {
+    const value = String(arg);
+    parts.push(`$${Buffer.byteLength(value)}\r\n${value}\r\n`);
+  }
+  return Buffer.from(parts.join(''));
+}
+
+/**
+ * Parse one reply from the buffer
+ * @returns Reply (an Error for -ERR replies) and the offset after it, or null if incomplete
+ */
+function parseReply(buffer: Buffer, offset: number): { value: RedisReply | Error; offset: number } | null {
+  const lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd < 0) {
+    return null;
+  }
+
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString('utf8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case '+':
+      return { value: line, offset: next };
+    case '-':
+      return { value: new Error(line), offset: next };
+    case ':':
+      return { value: Number(line), offset: next };
+    case '$': {
+      const length = Number(line);
+      if (length < 0) {
+        return { value: null, offset: next };
+      }
+      if (buffer.length < next + length + 2) {
+        return null;
+      }
+      return { value: buffer.toString('utf8', next, next + length), offset: next + length + 2 };
+    }
+    case '*': {
+      const count = Number(line);
+      if (count < 0) {
+        return { value: null, offset: next };
+      }
+      const items: RedisReply[] = [];
+      let position = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, position);
+        if (!item) {
+          return null;
+        }
+        items.push(item.value instanceof Error ? null : item.value);
+        position = item.offset;
+      }
+      return { value: items, offset: position };
+    }
+    default:
+      throw new Error(`Unexpected Redis reply type "${type}"`);
+  }
+}
+
+export class RedisClient {
+  private socket: net.Socket | null = null;
+  private ready: Promise<void> | null = null;
+  private pending: PendingCommand[] = [];
+  private buffer = Buffer.alloc(0);
+
+  constructor(private readonly url: string, private readonly password?: string) {}
+
+  /**
+   * Send a command and wait for its reply
+   */
+  async command(...args: (string | number)[]): Promise<RedisReply> {
+    await this.connect();
+    return this.send(args);
+  }
+
+  private send(args: (string | number)[]): Promise<RedisReply> {
+    return new Promise((resolve, reject) => {
+      const socket = this.socket;
+      if (!socket) {
+        reject(new Error('Redis connection closed'));
+        return;
+      }
+
+      // Replies arrive in order, so one stuck reply holds up everything behind it
+      const timer = setTimeout(
+        () => socket.destroy(new Error('Redis command timed out')),
+        COMMAND_TIMEOUT_MS
+      );
+
+      this.pending.push({
+        resolve: reply => {
+          clearTimeout(timer);
+          resolve(reply);
+        },
+        reject: error => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      });
+      socket.write(encodeCommand(args));
+    });
+  }
+
+  private connect(): Promise<void> {
+    if (this.ready) {
+      return this.ready;
+    }
+
+    const url = new URL(this.url);
+    const port = Number(url.port) || 6379;
+    const options = { host: url.hostname, port };
+
+    this.ready = new Promise<void>((resolve, reject) => {
+      const socket = url.protocol === 'rediss:'
+        ? tls.connect({ ...options, servername: url.hostname })
+        : net.connect(options);
+
+      socket.setTimeout(CONNECT_TIMEOUT_MS, () => socket.destroy(new Error('Redis connection timed out')));
+      socket.on('data', chunk => this.onData(socket, chunk));
+      socket.on('error', error => this.fail(socket, error));
+      socket.on('close', () => this.fail(socket, new Error('Redis connection closed')));
+
+      socket.once(url.protocol === 'rediss:' ? 'secureConnect' : 'connect', async () => {
+        socket.setTimeout(0);
+        this.socket = socket;
+
+        try {
+          const password = decodeURIComponent(url.password) || this.password;
+          if (password) {
+            const username = decodeURIComponent(url.username);
+            await this.send(username ? ['AUTH', username, password] : ['AUTH', password]);
+          }
+
+          const database = url.pathname.replace('/', '');
+          if (database) {
+            await this.send(['SELECT', database]);
+          }
+
+          resolve();
+        } catch (error) {
+          socket.destroy();
+          reject(error);
+        }
+      });
+
+      socket.once('close', () => reject(new Error('Redis connection closed')));
+    });
+
+    return this.ready;
+  }
+
+  private onData(socket: net.Socket, chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    // A reply we can't parse leaves the stream out of step with the pending commands:
+    // fail them all and drop the connection (throwing here would crash the process)
+    try {
+      let reply = parseReply(this.buffer, 0);
+      while (reply) {
+        this.buffer = this.buffer.subarray(reply.offset);
+        const command = this.pending.shift();
+        if (reply.value instanceof Error) {
+          command?.reject(reply.value);
+        } else {
+          command?.resolve(reply.value);
+        }
+        reply = this.buffer.length > 0 ? parseReply(this.buffer, 0) : null;
+      }
+    } catch (error) {
+      this.fail(socket, error instanceof Error ? error : new Error(String(error)));
+      socket.destroy();
+    }
+  }
+
+  /**
+   * Reject everything in flight and reconnect on the next command
+   */
+  private fail(socket: net.Socket, error: Error): void {
+    // Ignore late events from a connection that has already been replaced
+    if (this.socket && this.socket !== socket) {
+      return;
+    }
+
+    this.socket = null;
+    this.ready = null;
+    this.buffer = Buffer.alloc(0);
+
+    const pending = this.pending;
+    this.pending = [];
+    pending.forEach(command => command.reject(error));
+  }
+}
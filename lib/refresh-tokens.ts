@@ -0,0 +1,211 @@
+/**
+ * Refresh Token Rotation with Reuse Detection
+ * Every refresh token is single-use. Using one issues a replacement in the same
+ * family; presenting an already-rotated token revokes the whole family, unless it was
+ * rotated moments ago (a concurrent refresh from another tab), in which case the
+ * replacement it was rotated into is handed out again.
+ */
+
+import { randomUUID } from 'crypto';
+import { getSupabaseAdmin } from './supabaseAdmin';
+import { generateAccessToken, generateRefreshToken, verifyRefreshToken } from './jwt';
+import { getTokenLifetimes, JWTPayload } from './jwt-config';
+import { isSessionId, validateSession } from './sessions';
+
+type TokenSubject = Omit<JWTPayload, 'iat' | 'exp'>;
+
+// A token rotated this recently returns its successor instead of counting as reuse
+const ROTATION_GRACE_SECONDS = 10;
+
+export type RefreshResult =
+  | { status: 'rotated'; accessToken: string; refreshToken: string; subject: TokenSubject }
+  | { status: 'reused'; familyId: string }
+  | { status: 'invalid' };
+
+/**
+ * Persist and sign a refresh token
+ * @param subject - Claims carried by access tokens minted from this refresh token
+ * @param familyId - Existing family when rotating; a new family is started otherwise
+ * @param parentJti - Token being rotated (for the audit trail)
+ * @returns Signed refresh token
+ */
+export async function issueRefreshToken(
+  subject: TokenSubject,
+  familyId: string = randomUUID(),
+  parentJti: string | null = null
+): Promise<string> {
+  const jti = randomUUID();
+  await storeRefreshToken(jti, familyId, parentJti, subject);
+
+  return generateRefreshToken(subject, { jti, familyId });
+}
+
+/**
+ * Record a refresh token so it can be rotated or revoked later
+ */
+async function storeRefreshToken(
+  jti: string,
+  familyId: string,
+  parentJti: string | null,
+  subject: TokenSubject
+): Promise<void> {
+  const { refreshTokenSeconds } = getTokenLifetimes();
+
+  const supabaseAdmin = getSupabaseAdmin();
+  const { error } = await supabaseAdmin
+    .from('refresh_tokens')
+    .insert({
+      jti,
+      family_id: familyId,
+      parent_jti: parentJti,
+      phone: subject.phone,
+      session_id: isSessionId(subject.userId) ? subject.userId : null,
+      expires_at: new Date(Date.now() + refreshTokenSeconds * 1000).toISOString(),
+    });
+
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Exchange a refresh token for a new access token and a new refresh token
+ * @param token - Refresh token from the cookie
+ * @returns Rotation outcome
+ */
+export async function rotateRefreshToken(token: string): Promise<RefreshResult> {
+  const payload = verifyRefreshToken(token);
+  if (!payload) {
+    return { status: 'invalid' };
+  }
+
+  const supabaseAdmin = getSupabaseAdmin();
+  const { data: record, error } = await supabaseAdmin
+    .from('refresh_tokens')
+    .select('jti, family_id, replaced_by, used_at, revoked_at')
+    .eq('jti', payload.jti)
+    .single();
+
+  if (error || !record || record.family_id !== payload.fid) {
+    return { status: 'invalid' };
+  }
+
+  if (record.revoked_at) {
+    return { status: 'invalid' };
+  }
+
+  // The session may have been signed out since this token was issued
+  if (isSessionId(payload.userId) && !(await validateSession(payload.userId))) {
+    return { status: 'invalid' };
+  }
+
+  const subject: TokenSubject = {
+    userId: payload.userId,
+    username: payload.username,
+    phone: payload.phone,
+    role: payload.role,
+  };
+
+  // Already rotated: a concurrent refresh, or someone replaying an old token
+  if (record.replaced_by) {
+    return reissueSuccessor(record, subject);
+  }
+
+  // Claim the token atomically so two concurrent refreshes can't both succeed
+  const nextJti = randomUUID();
+  const { data: claimed } = await supabaseAdmin
+    .from('refresh_tokens')
+    .update({ replaced_by: nextJti, used_at: new Date().toISOString() })
+    .eq('jti', record.jti)
+    .is('replaced_by', null)
+    .is('revoked_at', null)
+    .select('jti');
+
+  if (!claimed || claimed.length === 0) {
+    // Another request rotated it in the meantime
+    const { data: rotated } = await supabaseAdmin
+      .from('refresh_tokens')
+      .select('jti, family_id, replaced_by, used_at, revoked_at')
+      .eq('jti', record.jti)
+      .single();
+
+    if (!rotated || rotated.revoked_at || !rotated.replaced_by) {
+      return { status: 'invalid' };
+    }
+
+    return reissueSuccessor(rotated, subject);
+  }
+
+  await storeRefreshToken(nextJti, record.family_id, record.jti, subject);
+
+  return {
+    status: 'rotated',
+    accessToken: generateAccessToken(subject),
+    refreshToken: generateRefreshToken(subject, { jti: nextJti, familyId: record.family_id }),
+    subject,
+  };
+}
+
+/**
+ * Answer a token that was already rotated
+ * Within the grace period the successor is signed again for this caller (both end up
+ * holding the same live token); after it, or if the successor has moved on, the old
+ * token is being replayed and the family is revoked.
+ */
+async function reissueSuccessor(
+  record: { family_id: string; replaced_by: string; used_at: string | null },
+  subject: TokenSubject
+): Promise<RefreshResult> {
+  const rotatedAt = record.used_at ? new Date(record.used_at).getTime() : 0;
+
+  if (Date.now() - rotatedAt <= ROTATION_GRACE_SECONDS * 1000) {
+    const supabaseAdmin = getSupabaseAdmin();
+    const { data: successor } = await supabaseAdmin
+      .from('refresh_tokens')
+      .select('replaced_by, revoked_at')
+      .eq('jti', record.replaced_by)
+      .maybeSingle();
+
+    // The successor row is written right after the claim, so it may not exist yet
+    if (!successor || (!successor.replaced_by && !successor.revoked_at)) {
+      return {
+        status: 'rotated',
+        accessToken: generateAccessToken(subject),
+        refreshToken: generateRefreshToken(subject, { jti: record.replaced_by, familyId: record.family_id }),
+        subject,
+      };
+    }
+  }
+
+  await revokeTokenFamily(record.family_id, 'reuse_detected');
+  return { status: 'reused', familyId: record.family_id };
+}
+
+/**
+ * Revoke every refresh token in a family
+ * @param familyId - Rotation family to revoke
+ * @param reason - Why the family was revoked (stored for auditing)
+ */
+export async function revokeTokenFamily(familyId: string, reason: string): Promise<void> {
+  const supabaseAdmin = getSupabaseAdmin();
+  const { error } = await supabaseAdmin
+    .from('refresh_tokens')
+    .update({ revoked_at: new Date().toISOString(), revoked_reason: reason })
+    .eq('family_id', familyId)
+    .is('revoked_at', null);
+
+  if (error) {
+    console.error('Failed to revoke refresh token family:', error.message);
+  }
+}
+
+/**
+ * Revoke the family a refresh token belongs to (used on logout)
+ * @param token - Refresh token from the cookie
+ */
+export async function revokeRefreshToken(token: string): Promise<void> {
+  const payload = verifyRefreshToken(token);
+  if (payload) {
+    await revokeTokenFamily(payload.fid, 'logout');
+  }
+}
@@ -60,6 +60,7 @@ export const SECURE_ERROR_MESSAGES = {
   ACCOUNT_NOT_FOUND: 'Account not found',
   ACCOUNT_LOCKED: 'Account is locked',
   ACCOUNT_SUSPENDED: 'Account is suspended',
+  LOGIN_DENIED: 'Sign-in was not approved',
   
   // Session errors
   SESSION_EXPIRED: 'Session expired',
@@ -99,6 +100,7 @@ export const ERROR_CODES = {
   ACCOUNT_NOT_FOUND: 'ACCOUNT_NOT_FOUND',
   ACCOUNT_LOCKED: 'ACCOUNT_LOCKED',
   ACCOUNT_SUSPENDED: 'ACCOUNT_SUSPENDED',
+  LOGIN_DENIED: 'LOGIN_DENIED',
   SESSION_EXPIRED: 'SESSION_EXPIRED',
   SESSION_INVALID: 'SESSION_INVALID',
   SESSION_REQUIRED: 'SESSION_REQUIRED'
@@ -0,0 +1,67 @@
+/**
+ * Webhook Sender Binding
+ * Ensures a verification code is only accepted from the WhatsApp number it was issued for
+ */
+
+/**
+ * Sender binding policies:
+ * - strict:  reject codes sent from any other number (default)
+ * - monitor: accept, but record a security event on mismatch
+ * - off:     no sender check (not recommended)
+ */
+export type SenderBindingPolicy = 'strict' | 'monitor' | 'off';
+
+export interface SenderBindingResult {
+  allowed: boolean;
+  matched: boolean;
+  policy: SenderBindingPolicy;
+}
+
+/**
+ * Get the configured sender binding policy
+ */
+export function getSenderBindingPolicy(): SenderBindingPolicy {
+  const policy = process.env.WHATSAPP_SENDER_BINDING;
+
+  if (policy === 'monitor' || policy === 'off') {
+    return policy;
+  }
+
+  return 'strict';
+}
+
+/**
+ * Normalize a WhatsApp number for comparison
+ * Meta sends `from` as digits in international format; stored numbers may
+ * carry formatting characters or an international "00" prefix
+ */
+export function normalizeWhatsAppNumber(phone: string): string {
+  const digits = (phone || '').replace(/\D/g, '');
+  return digits.startsWith('00') ? digits.substring(2) : digits;
+}
+
+/**
+ * Mask a phone number for logging (keeps the last 4 digits)
+ */
+export function maskPhoneNumber(phone: string): string {
+  const digits = normalizeWhatsAppNumber(phone);
+  return digits.length > 4 ? `${'*'.repeat(digits.length - 4)}${digits.slice(-4)}` : '****';
+}
+
+/**
+ * Check a webhook sender against the number a code was issued for
+ * @param sender - `message.from` from the webhook payload
+ * @param expected - `whatsapp_number` stored with the verification code
+ * @returns Whether the code may be accepted under the current policy
+ */
+export function checkSenderBinding(sender: string, expected: string): SenderBindingResult {
+  const policy = getSenderBindingPolicy();
+  const normalizedSender = normalizeWhatsAppNumber(sender);
+  const matched = normalizedSender.length > 0 && normalizedSender === normalizeWhatsAppNumber(expected);
+
+  return {
+    allowed: matched || policy !== 'strict',
+    matched,
+    policy
+  };
+}
@@ -11,6 +11,11 @@ const SERVER_ENV = {
   WHATSAPP_APP_SECRET: process.env.WHATSAPP_APP_SECRET,
   WHATSAPP_VERIFY_TOKEN: process.env.WHATSAPP_VERIFY_TOKEN,
   JWT_SECRET: process.env.JWT_SECRET, // Fixed: consistent naming
+  JWT_KEYS: process.env.JWT_KEYS,
+  SUPABASE_JWT_SECRET: process.env.SUPABASE_JWT_SECRET,
+  TWILIO_ACCOUNT_SID: process.env.TWILIO_ACCOUNT_SID,
+  TWILIO_AUTH_TOKEN: process.env.TWILIO_AUTH_TOKEN,
+  CRON_SECRET: process.env.CRON_SECRET,
 } as const;
 
 // Public environment variables (safe for client-side)
@@ -86,12 +91,23 @@ export function validateServerEnv(): void {
 
   const requiredVars = [
     'SUPABASE_SERVICE_ROLE_KEY',
-    'WHATSAPP_ACCESS_TOKEN',
-    'WHATSAPP_PHONE_NUMBER_ID',
     'JWT_SECRET', // Fixed: consistent naming
   ] as const;
 
-  const missing = requiredVars.filter(key => !SERVER_ENV[key]);
+  // Credentials of the configured messaging provider (the mock needs none)
+  const providerVars = {
+    meta: ['WHATSAPP_ACCESS_TOKEN', 'WHATSAPP_PHONE_NUMBER_ID'],
+    twilio: ['TWILIO_ACCOUNT_SID', 'TWILIO_AUTH_TOKEN'],
+    mock: [],
+  } as const;
+  const provider = process.env.MESSAGING_PROVIDER === 'twilio' || process.env.MESSAGING_PROVIDER === 'mock'
+    ? process.env.MESSAGING_PROVIDER
+    : 'meta';
+
+  // A JWT_KEYS key ring replaces JWT_SECRET
+  const missing = [...requiredVars, ...providerVars[provider]].filter(key =>
+    !SERVER_ENV[key] && !(key === 'JWT_SECRET' && SERVER_ENV.JWT_KEYS)
+  );
   
   if (missing.length > 0) {
     console.warn(`⚠️  Missing server environment variables: ${missing.join(', ')}`);
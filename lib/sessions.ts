@@ -0,0 +1,291 @@
+/**
+ * Server-side Session Registry
+ * Every password login is recorded in the sessions table so it can be revoked
+ * before its JWT expires. Uses Web Crypto only, so it also runs in middleware (Edge).
+ */
+
+import { getSupabaseAdmin } from './supabaseAdmin';
+
+// Only write last_seen_at when it is older than this, to avoid a write per request
+const LAST_SEEN_UPDATE_INTERVAL_MS = 5 * 60 * 1000;
+
+export interface SessionClientInfo {
+  ipAddress: string | null;
+  userAgent: string | null;
+  city: string | null;
+  country: string | null;
+}
+
+export interface SessionRecord {
+  handle: string;
+  created_at: string;
+  last_seen_at: string;
+  ip_address: string | null;
+  user_agent: string | null;
+  city: string | null;
+  country: string | null;
+}
+
+/**
+ * Check whether a token subject is a registered session id
+ * Session ids are 64 random bytes in hex; verification-code tokens carry a 6-digit code
+ */
+export function isSessionId(code: string): boolean {
+  return /^[a-f0-9]{128}$/.test(code);
+}
+
+/**
+ * Read the client IP, user agent and approximate location from request headers
+ * Location comes from the hosting platform's geo headers (Vercel, Cloudflare) when present
+ */
+export function getSessionClientInfo(headers: Headers): SessionClientInfo {
+  const forwardedFor = headers.get('x-forwarded-for');
+  const city = headers.get('x-vercel-ip-city');
+  const country = headers.get('x-vercel-ip-country') || headers.get('cf-ipcountry');
+
+  return {
+    ipAddress: forwardedFor ? forwardedFor.split(',')[0].trim() : null,
+    userAgent: headers.get('user-agent'),
+    city: city ? decodeGeoHeader(city).substring(0, 100) : null,
+    country: country && /^[A-Z]{2}$/.test(country) ? country : null,
+  };
+}
+
+/**
+ * Vercel URL-encodes the city header (e.g. "S%C3%A3o%20Paulo")
+ */
+function decodeGeoHeader(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Create a new session for a user
+ * @param userId - users.id of the authenticated user
+ * @param client - IP address, user agent and location of the login request
+ * @returns Cryptographically secure random session id (128 hex characters)
+ */
+export async function createSession(userId: string, client: SessionClientInfo): Promise<string> {
+  const bytes = crypto.getRandomValues(new Uint8Array(64));
+  const sessionId = Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+  const supabaseAdmin = getSupabaseAdmin();
+  const { error } = await supabaseAdmin
+    .from('sessions')
+    .insert({
+      id: sessionId,
+      user_id: userId,
+      ip_address: client.ipAddress,
+      user_agent: client.userAgent,
+      city: client.city,
+      country: client.country,
+    });
+
+  if (error) {
+    throw error;
+  }
+
+  return sessionId;
+}
+
+/**
+ * Check that a session exists and has not been revoked, and record activity
+ * @param sessionId - Session id from the token
+ * @returns True if the session is active
+ */
+export async function validateSession(sessionId: string): Promise<boolean> {
+  const supabaseAdmin = getSupabaseAdmin();
+  const { data: session, error } = await supabaseAdmin
+    .from('sessions')
+    .select('id, last_seen_at, revoked_at')
+    .eq('id', sessionId)
+    .single();
+
+  if (error || !session || session.revoked_at) {
+    return false;
+  }
+
+  const lastSeen = session.last_seen_at ? new Date(session.last_seen_at).getTime() : 0;
+  if (Date.now() - lastSeen > LAST_SEEN_UPDATE_INTERVAL_MS) {
+    await supabaseAdmin
+      .from('sessions')
+      .update({ last_seen_at: new Date().toISOString() })
+      .eq('id', sessionId);
+  }
+
+  return true;
+}
+
+/**
+ * Look up the user a session belongs to
+ * @param sessionId - Session id from the token
+ * @returns users.id or null if the session is unknown or revoked
+ */
+export async function getSessionUserId(sessionId: string): Promise<string | null> {
+  const supabaseAdmin = getSupabaseAdmin();
+  const { data: session, error } = await supabaseAdmin
+    .from('sessions')
+    .select('user_id, revoked_at')
+    .eq('id', sessionId)
+    .single();
+
+  if (error || !session || session.revoked_at) {
+    return null;
+  }
+
+  return session.user_id;
+}
+
+/**
+ * Look up an active session's user and login time
+ * @param sessionId - Session id from the token
+ * @returns users.id and session creation time, or null if the session is unknown or revoked
+ */
+export async function getActiveSession(
+  sessionId: string
+): Promise<{ userId: string; createdAt: string } | null> {
+  const supabaseAdmin = getSupabaseAdmin();
+  const { data: session, error } = await supabaseAdmin
+    .from('sessions')
+    .select('user_id, created_at, revoked_at')
+    .eq('id', sessionId)
+    .single();
+
+  if (error || !session || session.revoked_at) {
+    return null;
+  }
+
+  return { userId: session.user_id, createdAt: session.created_at };
+}
+
+/**
+ * Look up the public handle of a session (used to mark the current device)
+ * @param sessionId - Session id from the token
+ * @returns Session handle or null if not found
+ */
+export async function getSessionHandle(sessionId: string): Promise<string | null> {
+  const supabaseAdmin = getSupabaseAdmin();
+  const { data: session, error } = await supabaseAdmin
+    .from('sessions')
+    .select('handle')
+    .eq('id', sessionId)
+    .single();
+
+  if (error || !session) {
+    return null;
+  }
+
+  return session.handle;
+}
+
+/**
+ * List a user's active sessions, most recently active first
+ * @param userId - users.id whose sessions are listed
+ * @returns Active sessions (without the secret session id)
+ */
+export async function listActiveSessions(userId: string): Promise<SessionRecord[]> {
+  const supabaseAdmin = getSupabaseAdmin();
+  const { data, error } = await supabaseAdmin
+    .from('sessions')
+    .select('handle, created_at, last_seen_at, ip_address, user_agent, city, country')
+    .eq('user_id', userId)
+    .is('revoked_at', null)
+    .order('last_seen_at', { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Revoke one of a user's sessions by its public handle
+ * @param userId - users.id that must own the session
+ * @param handle - Session handle from the devices list
+ * @param reason - Why the session was revoked (stored for auditing)
+ * @returns True if an active session was revoked
+ */
+export async function revokeSessionByHandle(
+  userId: string,
+  handle: string,
+  reason: string
+): Promise<boolean> {
+  const supabaseAdmin = getSupabaseAdmin();
+  const { data: session, error } = await supabaseAdmin
+    .from('sessions')
+    .select('id')
+    .eq('handle', handle)
+    .eq('user_id', userId)
+    .is('revoked_at', null)
+    .single();
+
+  if (error || !session) {
+    return false;
+  }
+
+  await revokeSession(session.id, reason);
+  return true;
+}
+
+/**
+ * Revoke a single session and the refresh tokens issued for it
+ * @param sessionId - Session to revoke
+ * @param reason - Why the session was revoked (stored for auditing)
+ */
+export async function revokeSession(sessionId: string, reason: string): Promise<void> {
+  const revokedAt = new Date().toISOString();
+
+  const supabaseAdmin = getSupabaseAdmin();
+  const { error } = await supabaseAdmin
+    .from('sessions')
+    .update({ revoked_at: revokedAt, revoked_reason: reason })
+    .eq('id', sessionId)
+    .is('revoked_at', null);
+
+  if (error) {
+    throw error;
+  }
+
+  await supabaseAdmin
+    .from('refresh_tokens')
+    .update({ revoked_at: revokedAt, revoked_reason: reason })
+    .eq('session_id', sessionId)
+    .is('revoked_at', null);
+}
+
+/**
+ * Revoke every active session of a user (sign out of all devices)
+ * @param userId - users.id whose sessions are revoked
+ * @param reason - Why the sessions were revoked (stored for auditing)
+ * @returns Number of sessions revoked
+ */
+export async function revokeAllUserSessions(userId: string, reason: string): Promise<number> {
+  const revokedAt = new Date().toISOString();
+
+  const supabaseAdmin = getSupabaseAdmin();
+  const { data: revoked, error } = await supabaseAdmin
+    .from('sessions')
+    .update({ revoked_at: revokedAt, revoked_reason: reason })
+    .eq('user_id', userId)
+    .is('revoked_at', null)
+    .select('id');
+
+  if (error) {
+    throw error;
+  }
+
+  const sessionIds = (revoked || []).map(session => session.id);
+  if (sessionIds.length > 0) {
+    await supabaseAdmin
+      .from('refresh_tokens')
+      .update({ revoked_at: revokedAt, revoked_reason: reason })
+      .in('session_id', sessionIds)
+      .is('revoked_at', null);
+  }
+
+  return sessionIds.length;
+}
@@ -0,0 +1,59 @@
+/**
+ * Supabase-compatible Access Tokens
+ * Mints short-lived JWTs signed with the project's Supabase JWT secret, so that
+ * PostgREST and Realtime see the user as `authenticated` with auth.uid() = users.id
+ * and RLS policies apply. During signup the browser gets a token that can only read
+ * the status of its own verification. The app's own tokens (lib/jwt.ts) are never
+ * sent to Supabase.
+ */
+
+const jwt = require('jsonwebtoken');
+import { getServerEnv, getPublicEnv } from './server-env';
+import { parseDurationToSeconds } from './jwt-config';
+
+export interface SupabaseAccessToken {
+  accessToken: string;
+  expiresAt: number; // Unix seconds
+}
+
+/**
+ * Issue a Supabase access token for a user
+ * @param userId - users.id (becomes `sub`, i.e. auth.uid())
+ * @param phone - Verified phone number (informational claim)
+ * @returns Signed token and its expiry
+ */
+export function generateSupabaseAccessToken(userId: string, phone: string): SupabaseAccessToken {
+  return signSupabaseToken({ sub: userId, phone });
+}
+
+/**
+ * Issue a Supabase access token for a browser waiting on a verification (signup)
+ * It can only read `verified` on that one verification_codes row (migration 021).
+ * @param verificationId - verification_codes.id (becomes `sub` and the `verification_id` claim)
+ * @returns Signed token and its expiry
+ */
+export function generateSupabaseVerificationToken(verificationId: string): SupabaseAccessToken {
+  return signSupabaseToken({ sub: verificationId, verification_id: verificationId });
+}
+
+function signSupabaseToken(claims: Record<string, string>): SupabaseAccessToken {
+  const secret = getServerEnv('SUPABASE_JWT_SECRET');
+  const lifetimeSeconds = parseDurationToSeconds(process.env.SUPABASE_JWT_EXPIRES_IN || '10m');
+  const expiresAt = Math.floor(Date.now() / 1000) + lifetimeSeconds;
+
+  const accessToken = jwt.sign(
+    {
+      ...claims,
+      role: 'authenticated',
+      exp: expiresAt,
+    },
+    secret,
+    {
+      algorithm: 'HS256',
+      issuer: `${getPublicEnv('NEXT_PUBLIC_SUPABASE_URL')}/auth/v1`,
+      audience: 'authenticated'
+    }
+  );
+
+  return { accessToken, expiresAt };
+}
@@ -1,11 +1,66 @@
-// This file is now replaced by lib/supabaseAdmin.ts
-// Keeping for backward compatibility
+// Browser Supabase client
+// Server code uses getSupabaseAdmin() from lib/supabaseAdmin.ts
 import { createClient } from '@supabase/supabase-js';
+import { fetchWithTokenRefresh } from './token-refresh-client';
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
+// Renew the Supabase token this many seconds before it expires
+const TOKEN_EXPIRY_MARGIN_SECONDS = 30;
+
+// Without a session (or without SUPABASE_JWT_SECRET) use the anon key for a while before asking again
+const NO_SESSION_RETRY_SECONDS = 60;
+
+let cachedToken: { accessToken: string | null; expiresAt: number } | null = null;
+let tokenRequest: Promise<string | null> | null = null;
+
+/**
+ * Get a Supabase access token for the signed-in user (from /api/token/supabase)
+ * During signup the token only covers the pending verification's status
+ * Returns null when there is no session, so requests fall back to the anon key
+ */
+async function getSupabaseAccessToken(): Promise<string | null> {
+  if (typeof window === 'undefined') {
+    return null;
+  }
+
+  if (cachedToken && cachedToken.expiresAt - TOKEN_EXPIRY_MARGIN_SECONDS > Date.now() / 1000) {
+    return cachedToken.accessToken;
+  }
+
+  if (!tokenRequest) {
+    tokenRequest = fetchWithTokenRefresh('/api/token/supabase')
+      .then(async response => {
+        if (!response.ok) {
+          cachedToken = { accessToken: null, expiresAt: Date.now() / 1000 + NO_SESSION_RETRY_SECONDS };
+          return null;
+        }
+
+        const data = await response.json();
+        cachedToken = { accessToken: data.accessToken, expiresAt: data.expiresAt };
+        return cachedToken.accessToken;
+      })
+      .catch(() => null)
+      .finally(() => {
+        tokenRequest = null;
+      });
+  }
+
+  return tokenRequest;
+}
+
+/**
+ * Forget the cached Supabase token (call on logout)
+ */
+export function clearSupabaseAccessToken(): void {
+  cachedToken = null;
+}
+
+// Requests carry the user's Supabase token, so RLS policies using auth.uid() apply
+export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+  accessToken: getSupabaseAccessToken,
+});
 
 export interface VerificationCode {
   id: string;
@@ -16,4 +71,3 @@ export interface VerificationCode {
   created_at: string;
   verified_at?: string;
 }
-
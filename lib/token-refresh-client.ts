@@ -0,0 +1,100 @@
+/**
+ * Client-side Token Refresh
+ * Retries a request once after rotating the refresh cookie when the access token has expired
+ */
+
+import { makeAuthenticatedRequest } from './csrf-client';
+
+// Share one in-flight refresh between concurrent callers (rotation is single-use)
+let refreshInFlight: Promise<boolean> | null = null;
+
+// Tabs of this origin take turns refreshing under this Web Lock
+const REFRESH_LOCK_NAME = 'token-refresh';
+
+// When a tab last refreshed successfully (localStorage is shared between tabs)
+const LAST_REFRESH_KEY = 'token-refresh:last';
+
+/**
+ * Rotate the refresh cookie and obtain a new access token
+ * Other tabs wait while one tab refreshes; a tab that waited for another tab's
+ * refresh uses its result (the cookies are shared) instead of rotating again.
+ * @returns True if a new access token was issued
+ */
+export async function refreshAccessToken(): Promise<boolean> {
+  if (!refreshInFlight) {
+    const requestedAt = Date.now();
+
+    refreshInFlight = withRefreshLock(async () => {
+      if (readLastRefresh() >= requestedAt) {
+        return true;
+      }
+
+      const refreshed = await makeAuthenticatedRequest('/api/token/refresh', { method: 'POST' })
+        .then(response => response.ok)
+        .catch(() => false);
+
+      if (refreshed) {
+        writeLastRefresh(Date.now());
+      }
+      return refreshed;
+    })
+      .catch(() => false)
+      .finally(() => {
+        refreshInFlight = null;
+      });
+  }
+
+  return refreshInFlight;
+}
+
+/**
+ * Run a refresh while holding the cross-tab lock (without the Web Locks API it just
+ * runs; the server's rotation grace period covers tabs that collide)
+ */
+async function withRefreshLock(refresh: () => Promise<boolean>): Promise<boolean> {
+  if (typeof navigator === 'undefined' || !navigator.locks) {
+    return refresh();
+  }
+
+  return await navigator.locks.request(REFRESH_LOCK_NAME, refresh);
+}
+
+function readLastRefresh(): number {
+  try {
+    return Number(localStorage.getItem(LAST_REFRESH_KEY)) || 0;
+  } catch {
+    return 0;
+  }
+}
+
+function writeLastRefresh(timestamp: number): void {
+  try {
+    localStorage.setItem(LAST_REFRESH_KEY, String(timestamp));
+  } catch {
+    // Storage unavailable (e.g. blocked); tabs just refresh on their own
+  }
+}
+
+/**
+ * Fetch with automatic access token refresh on 401
+ * @param url - Request URL
+ * @param options - Fetch options
+ * @returns Promise with response
+ */
+export async function fetchWithTokenRefresh(
+  url: string,
+  options: RequestInit = {}
+): Promise<Response> {
+  const response = await fetch(url, { ...options, credentials: 'include' });
+
+  if (response.status !== 401) {
+    return response;
+  }
+
+  const refreshed = await refreshAccessToken();
+  if (!refreshed) {
+    return response;
+  }
+
+  return fetch(url, { ...options, credentials: 'include' });
+}
@@ -7,13 +7,19 @@ import { useState, useEffect, useCallback, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import { verificationCache, VerificationCacheData } from './verification-cache';
 import { useAuthenticatedRequest } from './use-csrf';
+import { fetchWithTokenRefresh } from './token-refresh-client';
+import type { MessageDeliveryStatus } from './outbound-messages';
 
 export interface VerificationStatus {
   loading: boolean;
   verified: boolean;
   code: string | null;
+  // verification_codes.id during signup; realtime updates are filtered on it
+  verificationId?: string | null;
   name: string | null;
   error: string | null;
+  // Delivery of our latest WhatsApp message for this verification, if any
+  delivery?: MessageDeliveryStatus | null;
 }
 
 export interface UseVerificationStatusOptions {
@@ -49,9 +55,7 @@ export function useVerificationStatus(options: UseVerificationStatusOptions = {}
    */
   const checkStatus = useCallback(async (): Promise<VerificationStatus> => {
     try {
-      const response = await fetch('/api/session', {
-        credentials: 'include',
-      });
+      const response = await fetchWithTokenRefresh('/api/session');
 
       if (!response.ok) {
         throw new Error('Failed to check session');
@@ -73,8 +77,10 @@ export function useVerificationStatus(options: UseVerificationStatusOptions = {}
         loading: false,
         verified: data.data.verified,
         code: data.data.code,
+        verificationId: data.data.verificationId ?? null,
         name: data.data.name,
         error: null,
+        delivery: data.data.delivery ?? null,
       };
     } catch (error) {
       return {
@@ -117,6 +123,9 @@ export function useVerificationStatus(options: UseVerificationStatusOptions = {}
         });
 
         if (response.ok) {
+          // The verification-scoped Supabase token is no use after signup
+          import('@/lib/supabase').then(({ clearSupabaseAccessToken }) => clearSupabaseAccessToken());
+
           // JWT token is now set, redirect to password setup
           setTimeout(() => {
             router.push('/set-password');
@@ -161,7 +170,7 @@ export function useVerificationStatus(options: UseVerificationStatusOptions = {}
    * Setup realtime subscription
    */
   const setupRealtime = useCallback(async () => {
-    if (!enableRealtime || !status.code) return;
+    if (!enableRealtime || !status.code || !status.verificationId) return;
 
     try {
       const { supabase } = await import('@/lib/supabase');
@@ -172,6 +181,7 @@ export function useVerificationStatus(options: UseVerificationStatusOptions = {}
       }
 
       // Create new subscription
+      // Only our own row is visible, through the verification-scoped Supabase token (migration 021)
       realtimeSubscription.current = supabase
         .channel('verification_updates')
         .on(
@@ -180,7 +190,7 @@ export function useVerificationStatus(options: UseVerificationStatusOptions = {}
             event: 'UPDATE',
             schema: 'public',
             table: 'verification_codes',
-            filter: `code=eq.${status.code}`,
+            filter: `id=eq.${status.verificationId}`,
           },
           (payload) => {
             console.log('🔄 Realtime update received:', payload);
@@ -190,6 +200,7 @@ export function useVerificationStatus(options: UseVerificationStatusOptions = {}
                 loading: false,
                 verified: true,
                 code: status.code,
+                verificationId: status.verificationId,
                 name: status.name,
                 error: null,
               };
@@ -205,7 +216,7 @@ export function useVerificationStatus(options: UseVerificationStatusOptions = {}
     } catch (error) {
       console.warn('Failed to setup realtime subscription:', error);
     }
-  }, [enableRealtime, status.code, status.name, handleStatusUpdate]);
+  }, [enableRealtime, status.code, status.verificationId, status.name, handleStatusUpdate]);
 
   /**
    * Setup periodic cache refresh
@@ -273,16 +284,32 @@ export function useVerificationStatus(options: UseVerificationStatusOptions = {}
     try {
       await makeRequest('/api/logout', { method: 'POST' });
       verificationCache.clearAll();
+      import('@/lib/supabase').then(({ clearSupabaseAccessToken }) => clearSupabaseAccessToken());
       router.push('/');
     } catch (error) {
       console.error('Logout failed:', error);
     }
   }, [router, makeRequest]);
 
+  /**
+   * Revoke every session of this user (sign out of all devices)
+   */
+  const logoutAllDevices = useCallback(async () => {
+    try {
+      await makeRequest('/api/sessions/revoke-all', { method: 'POST' });
+      verificationCache.clearAll();
+      import('@/lib/supabase').then(({ clearSupabaseAccessToken }) => clearSupabaseAccessToken());
+      router.push('/');
+    } catch (error) {
+      console.error('Sign out of all devices failed:', error);
+    }
+  }, [router, makeRequest]);
+
   return {
     ...status,
     refresh,
     logout,
+    logoutAllDevices,
     cacheStats: verificationCache.getStats(),
   };
 }
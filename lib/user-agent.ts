@@ -0,0 +1,66 @@
+/**
+ * User Agent Parsing
+ * Small, dependency-free parser for showing a readable device name in the sessions list.
+ * Covers the common browsers and platforms; anything else falls back to "Unknown".
+ */
+
+export interface DeviceInfo {
+  browser: string;
+  os: string;
+  deviceType: 'desktop' | 'mobile' | 'tablet';
+}
+
+// Order matters: Edge and Opera also contain "Chrome", Chrome also contains "Safari"
+const BROWSER_PATTERNS: Array<[string, RegExp]> = [
+  ['Edge', /Edg(?:e|A|iOS)?\/([\d]+)/],
+  ['Opera', /(?:OPR|Opera)\/([\d]+)/],
+  ['Samsung Internet', /SamsungBrowser\/([\d]+)/],
+  ['Firefox', /(?:Firefox|FxiOS)\/([\d]+)/],
+  ['Chrome', /(?:Chrome|CriOS)\/([\d]+)/],
+  ['Safari', /Version\/([\d]+).*Safari\//],
+];
+
+// Order matters: Android and iOS user agents also mention "Linux" / "Mac OS X"
+const OS_PATTERNS: Array<[string, RegExp]> = [
+  ['Android', /Android/],
+  ['iOS', /iPhone|iPad|iPod/],
+  ['Windows', /Windows/],
+  ['macOS', /Mac OS X|Macintosh/],
+  ['ChromeOS', /CrOS/],
+  ['Linux', /Linux/],
+];
+
+/**
+ * Parse a user agent string into browser, OS and device type
+ * @param userAgent - Raw User-Agent header (may be null)
+ * @returns Readable device information
+ */
+export function parseUserAgent(userAgent: string | null): DeviceInfo {
+  const ua = userAgent || '';
+
+  let browser = 'Unknown browser';
+  for (const [name, pattern] of BROWSER_PATTERNS) {
+    const match = ua.match(pattern);
+    if (match) {
+      browser = `${name} ${match[1]}`;
+      break;
+    }
+  }
+
+  let os = 'Unknown OS';
+  for (const [name, pattern] of OS_PATTERNS) {
+    if (pattern.test(ua)) {
+      os = name;
+      break;
+    }
+  }
+
+  let deviceType: DeviceInfo['deviceType'] = 'desktop';
+  if (/iPad|Tablet/.test(ua) || (/Android/.test(ua) && !/Mobile/.test(ua))) {
+    deviceType = 'tablet';
+  } else if (/Mobi|iPhone|iPod/.test(ua)) {
+    deviceType = 'mobile';
+  }
+
+  return { browser, os, deviceType };
+}
@@ -0,0 +1,161 @@
+/**
+ * Webhook Events
+ * Every WhatsApp webhook delivery with a valid signature is stored with its raw body
+ * (webhook_events), then marked processed or failed, so failures can be investigated
+ * and replayed (see scripts/webhook-events.js). Deliveries with a bad signature are
+ * only logged: anyone can send those, so storing them would let the table grow unbounded.
+ * Inbound messages are deduplicated by provider message id in inbound_message_receipts,
+ * which works across instances and restarts.
+ */
+
+import { getSupabaseAdmin } from './supabaseAdmin';
+import { MessagingProviderName, WebhookRequest } from './messaging';
+
+export type WebhookEventStatus = 'received' | 'processed' | 'failed';
+
+export interface WebhookEvent {
+  id: string;
+  provider: MessagingProviderName;
+  request_url: string;
+  raw_body: string;
+  signature_valid: boolean;
+  signature_error: string | null;
+  status: WebhookEventStatus;
+  message_ids: string[];
+  summary: Record<string, unknown> | null;
+  error: string | null;
+  replay_count: number;
+  received_at: string;
+  processed_at: string | null;
+  last_replayed_at: string | null;
+}
+
+// A 'processing' claim this old belongs to an instance that died mid-message
+const STALE_CLAIM_SECONDS = 5 * 60;
+
+/**
+ * Store a verified delivery as it arrived
+ * @returns The event id
+ */
+export async function recordWebhookEvent(provider: MessagingProviderName, request: WebhookRequest): Promise<string> {
+  const supabaseAdmin = getSupabaseAdmin();
+  const { data, error } = await supabaseAdmin
+    .from('webhook_events')
+    .insert({
+      provider,
+      request_url: request.url,
+      raw_body: request.rawBody,
+      signature_valid: true,
+      status: 'received',
+    })
+    .select('id')
+    .single();
+
+  if (error || !data) {
+    throw error || new Error('Webhook event was not stored');
+  }
+
+  return data.id;
+}
+
+/**
+ * Load a stored delivery
+ * @returns null if there's no such event
+ */
+export async function getWebhookEvent(id: string): Promise<WebhookEvent | null> {
+  const supabaseAdmin = getSupabaseAdmin();
+  const { data, error } = await supabaseAdmin
+    .from('webhook_events')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Record how processing a delivery went
+ * failed: whether any message or status in it failed (a redelivery or replay retries it);
+ * replayCount: set when this run was a replay, the event's new replay count
+ */
+export async function completeWebhookEvent(
+  id: string,
+  result: { messageIds: string[]; summary: object; failed: boolean; error?: string; replayCount?: number }
+): Promise<void> {
+  const supabaseAdmin = getSupabaseAdmin();
+  const now = new Date().toISOString();
+
+  const { error } = await supabaseAdmin
+    .from('webhook_events')
+    .update({
+      status: result.failed ? 'failed' : 'processed',
+      message_ids: result.messageIds,
+      summary: result.summary,
+      error: result.error || null,
+      processed_at: now,
+      ...(result.replayCount !== undefined && { replay_count: result.replayCount, last_replayed_at: now }),
+    })
+    .eq('id', id);
+
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Claim an inbound message before handling it
+ * @returns False if it was already handled (or is being handled right now)
+ */
+export async function claimInboundMessage(messageId: string, webhookEventId: string): Promise<boolean> {
+  const supabaseAdmin = getSupabaseAdmin();
+  const { data, error } = await supabaseAdmin
+    .rpc('claim_inbound_message', {
+      p_message_id: messageId,
+      p_webhook_event_id: webhookEventId,
+      p_stale_seconds: STALE_CLAIM_SECONDS,
+    });
+
+  if (error) {
+    throw error;
+  }
+
+  return data === true;
+}
+
+/**
+ * Mark a claimed message as handled, so redeliveries are skipped
+ */
+export async function completeInboundMessage(messageId: string): Promise<void> {
+  const supabaseAdmin = getSupabaseAdmin();
+  const { error } = await supabaseAdmin
+    .from('inbound_message_receipts')
+    .update({ status: 'processed', processed_at: new Date().toISOString() })
+    .eq('message_id', messageId);
+
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Give up the claim on messages, so a redelivery or replay handles them again
+ */
+export async function releaseInboundMessages(messageIds: string[]): Promise<void> {
+  if (messageIds.length === 0) {
+    return;
+  }
+
+  const supabaseAdmin = getSupabaseAdmin();
+  const { error } = await supabaseAdmin
+    .from('inbound_message_receipts')
+    .delete()
+    .in('message_id', messageIds);
+
+  if (error) {
+    throw error;
+  }
+}
@@ -5,9 +5,11 @@
 
 import { NextRequest } from 'next/server';
 import { getServerEnv } from './server-env';
+import { hitRateLimit, peekRateLimit } from './rate-limit-store';
 
 export interface WebhookSecurityConfig {
   requireSignature: boolean;
+  signatureHeader: string; // provider's signature header
   maxPayloadSize: number; // in bytes
   rateLimitWindow: number; // in milliseconds
   maxRequestsPerWindow: number;
@@ -16,6 +18,9 @@ export interface WebhookSecurityConfig {
 export interface WebhookSecurityResult {
   isValid: boolean;
   error?: string;
+  // Over the per-IP limit: not a bad request, the sender should retry after this many seconds
+  rateLimited?: boolean;
+  retryAfter?: number;
   metadata: {
     timestamp: string;
     payloadSize: number;
@@ -26,21 +31,26 @@ export interface WebhookSecurityResult {
 // Default security configuration
 const DEFAULT_CONFIG: WebhookSecurityConfig = {
   requireSignature: true,
+  signatureHeader: 'x-hub-signature-256',
   maxPayloadSize: 1024 * 1024, // 1MB
   rateLimitWindow: 60 * 1000, // 1 minute
   maxRequestsPerWindow: 100
 };
 
-// In-memory rate limiting (for production, use Redis)
-const rateLimitMap = new Map<string, { count: number; resetTime: number }>();
+/**
+ * Rate limit key for webhook deliveries from one IP
+ */
+function webhookRateLimitKey(ip: string): string {
+  return `webhook_ip:${ip}`;
+}
 
 /**
  * Comprehensive webhook security validation
  */
-export function validateWebhookSecurity(
+export async function validateWebhookSecurity(
   request: NextRequest,
   config: Partial<WebhookSecurityConfig> = {}
-): WebhookSecurityResult {
+): Promise<WebhookSecurityResult> {
   const finalConfig = { ...DEFAULT_CONFIG, ...config };
   const timestamp = new Date().toISOString();
   
@@ -62,9 +72,23 @@ export function validateWebhookSecurity(
     };
   }
 
-  // 2. Check for required signature header
-  const signature = request.headers.get('x-hub-signature-256');
-  if (!signature) {
+  // 2. Rate limit deliveries per source IP (shared across instances via the rate limit store)
+  const ip = request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown';
+  const { count, resetTime } = await hitRateLimit(webhookRateLimitKey(ip), finalConfig.rateLimitWindow);
+  if (count > finalConfig.maxRequestsPerWindow) {
+    logSecurityEvent('rate_limit_exceeded', { ip, count, metadata });
+    return {
+      isValid: false,
+      error: 'Request rejected - rate limit exceeded',
+      rateLimited: true,
+      retryAfter: Math.max(1, Math.ceil((resetTime - Date.now()) / 1000)),
+      metadata
+    };
+  }
+
+  // 3. Check for required signature header
+  const signature = request.headers.get(finalConfig.signatureHeader);
+  if (finalConfig.requireSignature && !signature) {
     return {
       isValid: false,
       error: 'Request rejected - missing required authentication',
@@ -72,8 +96,8 @@ export function validateWebhookSecurity(
     };
   }
 
-  // 3. Mark signature as present (actual verification happens in main webhook handler)
-  metadata.signatureValid = true;
+  // 4. Mark signature as present (actual verification happens in main webhook handler)
+  metadata.signatureValid = !!signature;
 
   return {
     isValid: true,
@@ -81,45 +105,28 @@ export function validateWebhookSecurity(
   };
 }
 
-/**
- * Clean up old rate limit entries
- */
-export function cleanupRateLimit(): void {
-  const now = Date.now();
-  const keysToDelete: string[] = [];
-  
-  rateLimitMap.forEach((value, key) => {
-    if (now > value.resetTime) {
-      keysToDelete.push(key);
-    }
-  });
-  
-  keysToDelete.forEach(key => rateLimitMap.delete(key));
-}
-
 /**
  * Get rate limit status for an IP
  */
-export function getRateLimitStatus(ip: string, windowMs: number = 60000): {
+export async function getRateLimitStatus(ip: string, maxRequests: number = DEFAULT_CONFIG.maxRequestsPerWindow): Promise<{
   remaining: number;
   resetTime: number;
   isLimited: boolean;
-} {
-  const rateLimitKey = `${ip}:${Math.floor(Date.now() / windowMs)}`;
-  const current = rateLimitMap.get(rateLimitKey);
+}> {
+  const current = await peekRateLimit(webhookRateLimitKey(ip));
   
   if (!current) {
     return {
-      remaining: 100, // Default limit
-      resetTime: Date.now() + windowMs,
+      remaining: maxRequests,
+      resetTime: Date.now() + DEFAULT_CONFIG.rateLimitWindow,
       isLimited: false
     };
   }
 
   return {
-    remaining: Math.max(0, 100 - current.count),
+    remaining: Math.max(0, maxRequests - current.count),
     resetTime: current.resetTime,
-    isLimited: current.count >= 100
+    isLimited: current.count >= maxRequests
   };
 }
 
@@ -127,7 +134,7 @@ export function getRateLimitStatus(ip: string, windowMs: number = 60000): {
  * Log security events for monitoring
  */
 export function logSecurityEvent(
-  event: 'webhook_accepted' | 'webhook_rejected' | 'rate_limit_exceeded' | 'invalid_signature',
+  event: 'webhook_accepted' | 'webhook_rejected' | 'rate_limit_exceeded' | 'invalid_signature' | 'sender_mismatch' | 'login_denied' | 'login_approval_ambiguous' | 'webhook_replayed',
   details: any
 ): void {
   // Only log security issues, not successful events
@@ -144,6 +151,3 @@ export function logSecurityEvent(
   // In production, you might want to send this to a monitoring service
   // like DataDog, New Relic, or CloudWatch
 }
-
-// Clean up rate limits every 5 minutes
-setInterval(cleanupRateLimit, 5 * 60 * 1000);
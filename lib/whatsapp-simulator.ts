@@ -0,0 +1,296 @@
+/**
+ * Local WhatsApp Cloud API simulator (development only)
+ * Stands in for both ends of the Meta integration so signup and verification run offline:
+ * - a fake Graph API /messages endpoint records what the app sends
+ *   (point WHATSAPP_API_URL at /api/dev/whatsapp)
+ * - a "phone" that posts signed inbound messages to /api/webhooks/whatsapp, along with
+ *   the sent/delivered/read status callbacks for what it received
+ *
+ * Enabled with NEXT_PUBLIC_WHATSAPP_SIMULATOR=true; always off in production, since
+ * the phone signs whatever it is given with the app secret.
+ */
+
+import { createHmac, randomBytes } from 'crypto';
+import { getServerEnv } from './server-env';
+import { normalizeWhatsAppNumber } from './sender-binding';
+
+/**
+ * A button on one of the app's messages the simulated user can tap
+ * - interactive: reply button of an interactive message
+ * - quick_reply: quick reply button of a template (its payload is the id)
+ */
+export interface SimulatedReplyButton {
+  id: string;
+  title: string;
+  kind: 'interactive' | 'quick_reply';
+}
+
+export interface SimulatedMessage {
+  id: string;
+  direction: 'inbound' | 'outbound';
+  // The user's number (recipient of outbound, sender of inbound)
+  phone: string;
+  text: string;
+  template?: { name: string; language: string; parameters: string[] };
+  buttons?: SimulatedReplyButton[];
+  // Outbound only: how far the simulated phone has reported it
+  status?: 'sent' | 'delivered' | 'read';
+  timestamp: string;
+}
+
+type SimulatedStatus = NonNullable<SimulatedMessage['status']>;
+
+// Newest last; capped so a long dev session doesn't grow without bound
+const MAX_SIMULATED_MESSAGES = 500;
+
+// Route handlers can be bundled separately in dev, so keep the log on globalThis
+const simulatorGlobal = globalThis as typeof globalThis & { __whatsappSimulatorLog?: SimulatedMessage[] };
+const messageLog = (simulatorGlobal.__whatsappSimulatorLog ??= []);
+
+export function isWhatsAppSimulatorEnabled(): boolean {
+  return process.env.NODE_ENV !== 'production' && process.env.NEXT_PUBLIC_WHATSAPP_SIMULATOR === 'true';
+}
+
+function generateMessageId(): string {
+  return `wamid.SIM${randomBytes(12).toString('hex').toUpperCase()}`;
+}
+
+function recordMessage(message: Omit<SimulatedMessage, 'id' | 'timestamp'>): SimulatedMessage {
+  const recorded = { ...message, id: generateMessageId(), timestamp: new Date().toISOString() };
+
+  messageLog.push(recorded);
+  if (messageLog.length > MAX_SIMULATED_MESSAGES) {
+    messageLog.shift();
+  }
+
+  return recorded;
+}
+
+/**
+ * Conversation with one number, oldest first
+ */
+export function getSimulatedConversation(phone: string): SimulatedMessage[] {
+  const normalized = normalizeWhatsAppNumber(phone);
+  return messageLog.filter(message => message.phone === normalized);
+}
+
+export function clearSimulatedConversation(phone: string): void {
+  const normalized = normalizeWhatsAppNumber(phone);
+  for (let i = messageLog.length - 1; i >= 0; i--) {
+    if (messageLog[i].phone === normalized) {
+      messageLog.splice(i, 1);
+    }
+  }
+}
+
+/**
+ * Mark the app's messages to a number as read
+ * @returns The messages that weren't read before
+ */
+export function markConversationRead(phone: string): SimulatedMessage[] {
+  const unread = getSimulatedConversation(phone)
+    .filter(message => message.direction === 'outbound' && message.status !== 'read');
+
+  unread.forEach(message => {
+    message.status = 'read';
+  });
+  return unread;
+}
+
+/**
+ * Find the button a user taps: the newest message to them with a button of that
+ * id or (case-insensitive) title
+ */
+export function findReplyButton(phone: string, button: string): SimulatedReplyButton | null {
+  const conversation = getSimulatedConversation(phone);
+
+  for (let i = conversation.length - 1; i >= 0; i--) {
+    const match = conversation[i].buttons?.find(
+      candidate => candidate.id === button || candidate.title.toLowerCase() === button.toLowerCase()
+    );
+    if (match) {
+      return match;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Record a Graph API send request (the body the app posts to /{phone-number-id}/messages)
+ * @throws When the payload isn't a text, template or reply button message
+ */
+export function recordOutboundMessage(payload: any): SimulatedMessage {
+  if (payload?.messaging_product !== 'whatsapp' || !payload.to) {
+    throw new Error('Expected a WhatsApp message with a recipient');
+  }
+
+  if (payload.type === 'text' && typeof payload.text?.body === 'string') {
+    return recordMessage({
+      direction: 'outbound',
+      phone: normalizeWhatsAppNumber(String(payload.to)),
+      text: payload.text.body,
+      status: 'delivered',
+    });
+  }
+
+  if (payload.type === 'template' && payload.template?.name) {
+    const parameters: string[] = (payload.template.components || [])
+      .filter((component: any) => component.type === 'body')
+      .flatMap((component: any) => (component.parameters || []).map((parameter: any) => String(parameter.text ?? '')));
+
+    const buttonComponents = (payload.template.components || []).filter((component: any) => component.type === 'button');
+
+    // The button labels live in the approved template, so quick replies show their payload
+    const replyButtons: SimulatedReplyButton[] = buttonComponents
+      .filter((component: any) => component.sub_type === 'quick_reply')
+      .map((component: any) => {
+        const payload = String(component.parameters?.[0]?.payload ?? '');
+        return { id: payload, title: payload, kind: 'quick_reply' as const };
+      });
+
+    const otherButtons: string[] = buttonComponents
+      .filter((component: any) => component.sub_type !== 'quick_reply')
+      .map((component: any) => `[Button: ${component.parameters?.[0]?.text ?? ''}]`);
+
+    return recordMessage({
+      direction: 'outbound',
+      phone: normalizeWhatsAppNumber(String(payload.to)),
+      text: [`[${payload.template.name}] ${parameters.join(' ')}`.trim(), ...otherButtons].join('\n'),
+      template: { name: payload.template.name, language: payload.template.language?.code || '', parameters },
+      ...(replyButtons.length > 0 && { buttons: replyButtons }),
+      status: 'delivered',
+    });
+  }
+
+  if (payload.type === 'interactive' && payload.interactive?.type === 'button') {
+    return recordMessage({
+      direction: 'outbound',
+      phone: normalizeWhatsAppNumber(String(payload.to)),
+      text: String(payload.interactive.body?.text ?? ''),
+      buttons: (payload.interactive.action?.buttons || []).map((button: any) => ({
+        id: String(button.reply?.id ?? ''),
+        title: String(button.reply?.title ?? ''),
+        kind: 'interactive' as const,
+      })),
+      status: 'delivered',
+    });
+  }
+
+  throw new Error(`Unsupported message type "${payload.type}"`);
+}
+
+/**
+ * Wrap a change value the way Meta delivers it
+ */
+function buildWebhookPayload(value: Record<string, unknown>) {
+  const phoneNumberId = process.env.WHATSAPP_PHONE_NUMBER_ID || 'SIMULATED_PHONE_NUMBER_ID';
+
+  return {
+    object: 'whatsapp_business_account',
+    entry: [{
+      id: 'SIMULATED_WABA_ID',
+      changes: [{
+        field: 'messages',
+        value: {
+          messaging_product: 'whatsapp',
+          metadata: { display_phone_number: process.env.NEXT_PUBLIC_WHATSAPP_BOT_NUMBER || '', phone_number_id: phoneNumberId },
+          ...value,
+        },
+      }],
+    }],
+  };
+}
+
+/**
+ * Build the webhook body Meta would deliver for a text message (or button tap) from a user
+ */
+export function buildInboundWebhookPayload(from: string, text: string, messageId: string, button?: SimulatedReplyButton) {
+  const content = !button
+    ? { type: 'text', text: { body: text } }
+    : button.kind === 'interactive'
+      ? { type: 'interactive', interactive: { type: 'button_reply', button_reply: { id: button.id, title: button.title } } }
+      : { type: 'button', button: { payload: button.id, text: button.title } };
+
+  return buildWebhookPayload({
+    contacts: [{ profile: { name: 'Simulated User' }, wa_id: from }],
+    messages: [{
+      from,
+      id: messageId,
+      timestamp: Math.floor(Date.now() / 1000).toString(),
+      ...content,
+    }],
+  });
+}
+
+/**
+ * Build the webhook body Meta would deliver when one of the app's messages changes status
+ */
+export function buildStatusWebhookPayload(message: SimulatedMessage, status: SimulatedStatus) {
+  return buildWebhookPayload({
+    statuses: [{
+      id: message.id,
+      status,
+      timestamp: Math.floor(Date.now() / 1000).toString(),
+      recipient_id: message.phone,
+    }],
+  });
+}
+
+/**
+ * Sign a webhook body with the app secret (x-hub-signature-256) and post it
+ * @returns The webhook's HTTP status
+ */
+async function postSignedWebhook(webhookUrl: string, payload: unknown): Promise<number> {
+  const body = JSON.stringify(payload);
+  const signature = createHmac('sha256', getServerEnv('WHATSAPP_APP_SECRET')).update(body, 'utf8').digest('hex');
+
+  const response = await fetch(webhookUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-hub-signature-256': `sha256=${signature}`,
+    },
+    body,
+  });
+
+  return response.status;
+}
+
+/**
+ * Report status changes of the app's messages back to the webhook, in order
+ * Errors are only logged: the simulated phone has no one to report them to.
+ */
+export async function deliverStatusCallbacks(
+  webhookUrl: string,
+  messages: SimulatedMessage[],
+  statuses: SimulatedStatus[]
+): Promise<void> {
+  for (const message of messages) {
+    for (const status of statuses) {
+      try {
+        await postSignedWebhook(webhookUrl, buildStatusWebhookPayload(message, status));
+      } catch (error) {
+        console.warn(`[WhatsApp simulator] Status callback "${status}" for ${message.id} failed:`, error);
+      }
+    }
+  }
+}
+
+/**
+ * Send a message from the simulated phone: sign it like Meta does and post it to the webhook
+ * @param webhookUrl - Absolute URL of /api/webhooks/whatsapp
+ * @param button - The button tapped, if this is a button reply (text is then its title)
+ * @returns The recorded message and the webhook's HTTP status
+ */
+export async function deliverInboundMessage(
+  webhookUrl: string,
+  from: string,
+  text: string,
+  button?: SimulatedReplyButton
+): Promise<{ message: SimulatedMessage; webhookStatus: number }> {
+  const message = recordMessage({ direction: 'inbound', phone: normalizeWhatsAppNumber(from), text });
+  const webhookStatus = await postSignedWebhook(webhookUrl, buildInboundWebhookPayload(message.phone, text, message.id, button));
+
+  return { message, webhookStatus };
+}
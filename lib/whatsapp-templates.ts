@@ -0,0 +1,103 @@
+/**
+ * WhatsApp Template Registry
+ * The approved templates the app sends, keyed by what each message is for.
+ * Templates are created and approved in WhatsApp Manager, so their names and
+ * languages come from the environment; a purpose without a configured template
+ * falls back to plain text, which WhatsApp only delivers inside the 24-hour window.
+ */
+
+import { TemplateMessage } from './messaging';
+
+export type TemplateCategory = 'AUTHENTICATION' | 'UTILITY' | 'MARKETING';
+
+/**
+ * Button of the authentication (OTP) template
+ * - copy_code: copies the code to the clipboard
+ * - one_tap: autofills the code into our Android app (falls back to copy code elsewhere)
+ * - none: an older utility template with the code in the body only
+ * Both button kinds take the code as their parameter when sending.
+ */
+export type OtpButtonType = 'copy_code' | 'one_tap' | 'none';
+
+// What each purpose's template is filled with
+export interface TemplateParameters {
+  verification_code: { code: string };
+  account_locked: { unlockCode: string; unlockTime: string };
+  login_confirmation: { device: string; location: string; approveId: string; denyId: string };
+}
+
+export type MessagePurpose = keyof TemplateParameters;
+
+interface TemplateDefinition<P extends MessagePurpose> {
+  // Category the template must be approved under in WhatsApp Manager
+  category: TemplateCategory;
+  nameEnv: string;
+  languageEnv: string;
+  build(parameters: TemplateParameters[P]): Pick<TemplateMessage, 'bodyParameters' | 'buttons'>;
+}
+
+const TEMPLATE_REGISTRY: { [P in MessagePurpose]: TemplateDefinition<P> } = {
+  // Authentication template: "{{1}} is your verification code." plus the OTP button
+  verification_code: {
+    category: 'AUTHENTICATION',
+    nameEnv: 'WHATSAPP_OTP_TEMPLATE_NAME',
+    languageEnv: 'WHATSAPP_OTP_TEMPLATE_LANGUAGE',
+    build: ({ code }) => ({
+      bodyParameters: [code],
+      buttons: getOtpButtonType() === 'none' ? [] : [{ type: 'otp', index: 0, code }],
+    }),
+  },
+
+  // Utility template, body parameters: unlock code, unlock time
+  account_locked: {
+    category: 'UTILITY',
+    nameEnv: 'WHATSAPP_LOCKOUT_TEMPLATE_NAME',
+    languageEnv: 'WHATSAPP_LOCKOUT_TEMPLATE_LANGUAGE',
+    build: ({ unlockCode, unlockTime }) => ({ bodyParameters: [unlockCode, unlockTime] }),
+  },
+
+  // Utility template, body parameters: device, location; two quick reply buttons
+  // ("Yes, it's me", "No, block this") whose payloads identify the login
+  login_confirmation: {
+    category: 'UTILITY',
+    nameEnv: 'WHATSAPP_LOGIN_TEMPLATE_NAME',
+    languageEnv: 'WHATSAPP_LOGIN_TEMPLATE_LANGUAGE',
+    build: ({ device, location, approveId, denyId }) => ({
+      bodyParameters: [device, location],
+      buttons: [
+        { type: 'quick_reply', index: 0, payload: approveId },
+        { type: 'quick_reply', index: 1, payload: denyId },
+      ],
+    }),
+  },
+};
+
+/**
+ * Get the configured OTP template button (defaults to none)
+ */
+export function getOtpButtonType(): OtpButtonType {
+  const configured = process.env.WHATSAPP_OTP_TEMPLATE_BUTTON;
+  return configured === 'copy_code' || configured === 'one_tap' ? configured : 'none';
+}
+
+/**
+ * Build the template message for a purpose
+ * @returns null when no template is configured for it
+ */
+export function buildTemplateMessage<P extends MessagePurpose>(
+  purpose: P,
+  parameters: TemplateParameters[P]
+): TemplateMessage | null {
+  const definition: TemplateDefinition<P> = TEMPLATE_REGISTRY[purpose];
+  const name = process.env[definition.nameEnv];
+
+  if (!name) {
+    return null;
+  }
+
+  return {
+    name,
+    language: process.env[definition.languageEnv] || 'en_US',
+    ...definition.build(parameters),
+  };
+}
@@ -1,33 +1,126 @@
-import axios from 'axios';
-import { getServerEnv } from './server-env';
+/**
+ * WhatsApp messaging
+ * Outbound sends go through the configured messaging provider (Meta Cloud API,
+ * Twilio or the local mock - see lib/messaging) after the consent check and the
+ * outbound rate limits, and are recorded for delivery tracking (see lib/outbound-messages).
+ */
 
-const WHATSAPP_API_URL = 'https://graph.facebook.com/v18.0';
+import { checkCompositeRateLimit, RateLimitExceededError } from './rate-limiting';
+import { getMessagingProvider, InteractiveMessage, SendResult, TemplateMessage } from './messaging';
+import { buildTemplateMessage, MessagePurpose, TemplateParameters } from './whatsapp-templates';
+import { OutboundMessageContext, recordOutboundMessage } from './outbound-messages';
+import { isOptedOut, RecipientOptedOutError } from './messaging-consent';
 
-export async function sendWhatsAppMessage(to: string, message: string) {
+/**
+ * Refuse to message a number that opted out, unless the user asked for this message
+ * @throws RecipientOptedOutError when the recipient said STOP
+ */
+async function checkConsent(to: string, context: OutboundMessageContext): Promise<void> {
+  if (context.userRequested) {
+    return;
+  }
+
+  if (await isOptedOut(to)) {
+    console.warn('Outbound WhatsApp message suppressed: recipient opted out');
+    throw new RecipientOptedOutError();
+  }
+}
+
+/**
+ * Enforce the outbound limits (per recipient and overall) before calling the API
+ * @throws RateLimitExceededError when the recipient or the app has sent too much
+ */
+async function checkSendRateLimit(to: string): Promise<void> {
+  const rateLimit = await checkCompositeRateLimit('whatsappSend', { phone: to, global: 'all' });
+  if (!rateLimit.allowed) {
+    console.warn(`Outbound WhatsApp rate limit exceeded (${rateLimit.scope})`);
+    throw new RateLimitExceededError(rateLimit.scope!, rateLimit.retryAfter || 60);
+  }
+}
+
+export async function sendWhatsAppMessage(
+  to: string,
+  message: string,
+  context: OutboundMessageContext = {}
+): Promise<SendResult> {
+  await checkConsent(to, context);
+  await checkSendRateLimit(to);
+
+  const provider = getMessagingProvider();
+  let result: SendResult;
   try {
-    const PHONE_NUMBER_ID = getServerEnv('WHATSAPP_PHONE_NUMBER_ID');
-    const ACCESS_TOKEN = getServerEnv('WHATSAPP_ACCESS_TOKEN');
-    
-    const response = await axios.post(
-      `${WHATSAPP_API_URL}/${PHONE_NUMBER_ID}/messages`,
-      {
-        messaging_product: 'whatsapp',
-        to: to,
-        type: 'text',
-        text: { body: message },
-      },
-      {
-        headers: {
-          'Authorization': `Bearer ${ACCESS_TOKEN}`,
-          'Content-Type': 'application/json',
-        },
-      }
-    );
-    return response.data;
+    result = await provider.sendText(to, message);
   } catch (error) {
     console.error('Error sending WhatsApp message:', error);
     throw error;
   }
+
+  await recordOutboundMessage({ provider: provider.name, to, type: 'text', result, context });
+  return result;
+}
+
+/**
+ * Send a pre-approved template message
+ * Templates can be delivered outside the 24-hour customer service window
+ */
+export async function sendWhatsAppTemplate(
+  to: string,
+  template: TemplateMessage,
+  context: OutboundMessageContext = {}
+): Promise<SendResult> {
+  await checkConsent(to, context);
+  await checkSendRateLimit(to);
+
+  const provider = getMessagingProvider();
+  let result: SendResult;
+  try {
+    result = await provider.sendTemplate(to, template);
+  } catch (error) {
+    console.error('Error sending WhatsApp template:', error);
+    throw error;
+  }
+
+  await recordOutboundMessage({ provider: provider.name, to, type: 'template', templateName: template.name, result, context });
+  return result;
+}
+
+/**
+ * Send a message with reply buttons ("Yes, it's me" / "No, block this")
+ * Like plain text, WhatsApp only delivers it inside the 24-hour customer service window
+ */
+export async function sendWhatsAppInteractive(
+  to: string,
+  message: InteractiveMessage,
+  context: OutboundMessageContext = {}
+): Promise<SendResult> {
+  await checkConsent(to, context);
+  await checkSendRateLimit(to);
+
+  const provider = getMessagingProvider();
+  let result: SendResult;
+  try {
+    result = await provider.sendInteractive(to, message);
+  } catch (error) {
+    console.error('Error sending WhatsApp interactive message:', error);
+    throw error;
+  }
+
+  await recordOutboundMessage({ provider: provider.name, to, type: 'interactive', result, context });
+  return result;
+}
+
+/**
+ * Send the registered template for a purpose (see lib/whatsapp-templates)
+ * @returns null when no template is configured for it - the caller sends text instead
+ */
+export async function sendPurposeTemplate<P extends MessagePurpose>(
+  to: string,
+  purpose: P,
+  parameters: TemplateParameters[P],
+  context: OutboundMessageContext = {}
+): Promise<SendResult | null> {
+  const template = buildTemplateMessage(purpose, parameters);
+  return template ? sendWhatsAppTemplate(to, template, context) : null;
 }
 
 export function extractVerificationCode(message: string): string | null {
@@ -2,6 +2,8 @@ import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
 import { verifyAccessTokenMiddleware } from '@/lib/jwt-middleware-secure';
 import { applySecurityHeaders } from '@/lib/security-headers';
+import { isSessionId, validateSession } from '@/lib/sessions';
+import { ACCESS_TOKEN_COOKIE, clearAuthCookies } from '@/lib/auth-cookies';
 
 // This runs on the edge (faster, cheaper than serverless)
 export async function middleware(request: NextRequest) {
@@ -20,13 +22,11 @@ export async function middleware(request: NextRequest) {
   );
 
   if (isProtectedRoute) {
-    const token = request.cookies.get('auth_token')?.value;
+    const token = request.cookies.get(ACCESS_TOKEN_COOKIE)?.value;
 
     if (!token) {
-      // No token, redirect to home
-      const url = request.nextUrl.clone();
-      url.pathname = '/';
-      return NextResponse.redirect(url);
+      // No access token (cookie expired), try the refresh cookie first
+      return redirectToRefresh(request);
     }
 
     // CRITICAL: Validate JWT token with Edge-compatible verification
@@ -34,10 +34,18 @@ export async function middleware(request: NextRequest) {
       const payload = await verifyAccessTokenMiddleware(token);
       
       if (!payload) {
-        // Invalid token, redirect to home
+        // Invalid or expired token, try the refresh cookie first
+        return redirectToRefresh(request);
+      }
+
+      // Password sessions must still be active (not logged out or revoked)
+      if (isSessionId(payload.userId) && !(await validateSession(payload.userId))) {
         const url = request.nextUrl.clone();
         url.pathname = '/';
-        return NextResponse.redirect(url);
+        url.search = '';
+        const response = NextResponse.redirect(url);
+        clearAuthCookies(response);
+        return response;
       }
 
       // Token is valid, allow the request to proceed with security headers
@@ -57,6 +65,18 @@ export async function middleware(request: NextRequest) {
   return applySecurityHeaders(response);
 }
 
+/**
+ * Send the browser through /api/token/refresh, which rotates the refresh cookie
+ * and returns to the requested page (or to home if there is no valid refresh token)
+ */
+function redirectToRefresh(request: NextRequest): NextResponse {
+  const url = request.nextUrl.clone();
+  url.pathname = '/api/token/refresh';
+  url.search = '';
+  url.searchParams.set('redirect', request.nextUrl.pathname + request.nextUrl.search);
+  return NextResponse.redirect(url);
+}
+
 // Configure which paths trigger the middleware
 export const config = {
   matcher: [
@@ -0,0 +1,159 @@
+#!/usr/bin/env node
+
+/**
+ * Messaging Consent Admin
+ * Looks up and changes a number's consent to WhatsApp messages, and exports the audit trail
+ *
+ * Usage:
+ *   node scripts/consent.js show <number>
+ *   node scripts/consent.js opt-out <number> [--by <name>]
+ *   node scripts/consent.js opt-in <number> [--by <name>]
+ *   node scripts/consent.js export [--since <date>] > consent.csv
+ *
+ * show prints the number's current status and its full history. opt-out and opt-in
+ * record an admin change (with --by as the reference, defaulting to the OS user), e.g.
+ * for an opt-out request that came in by email. export writes every consent event
+ * (optionally only those since an ISO date) as CSV to stdout.
+ * The connection string defaults to the DATABASE_URL environment variable
+ * (or pass --database-url <url>).
+ */
+
+const os = require('os');
+const { Client } = require('pg');
+
+function parseArgs(argv) {
+  const args = { command: argv[0], positional: [], databaseUrl: process.env.DATABASE_URL };
+
+  for (let i = 1; i < argv.length; i++) {
+    if (argv[i] === '--database-url') {
+      args.databaseUrl = argv[++i];
+    } else if (argv[i] === '--by') {
+      args.by = argv[++i];
+    } else if (argv[i] === '--since') {
+      args.since = argv[++i];
+    } else {
+      args.positional.push(argv[i]);
+    }
+  }
+
+  return args;
+}
+
+// Same as normalizeWhatsAppNumber in lib/sender-binding.ts
+function normalizeNumber(phone) {
+  const digits = (phone || '').replace(/\D/g, '');
+  return digits.startsWith('00') ? digits.substring(2) : digits;
+}
+
+function requireNumber(phone) {
+  const number = normalizeNumber(phone);
+  if (!number) {
+    throw new Error('A WhatsApp number is required');
+  }
+  return number;
+}
+
+async function showConsent(db, number) {
+  const { rows: [current] } = await db.query(
+    'SELECT status, source, opted_in_at, opted_out_at, updated_at FROM messaging_consent WHERE whatsapp_number = $1',
+    [number]
+  );
+
+  if (!current) {
+    console.log(`ℹ️  No consent record for ${number} (never opted out)`);
+  } else {
+    const icon = current.status === 'opted_out' ? '🔕' : '🔔';
+    console.log(`${icon} ${number}: ${current.status} (${current.source}, since ${current.updated_at.toISOString()})`);
+  }
+
+  const { rows: events } = await db.query(
+    `SELECT status, previous_status, source, reference, created_at
+     FROM messaging_consent_events
+     WHERE whatsapp_number = $1
+     ORDER BY created_at`,
+    [number]
+  );
+
+  events.forEach(event => {
+    const reference = event.reference ? ` - ${event.reference}` : '';
+    console.log(`   ${event.created_at.toISOString()}  ${event.previous_status || 'none'} → ${event.status} (${event.source}${reference})`);
+  });
+}
+
+async function setConsent(db, number, status, by) {
+  await db.query('SELECT set_messaging_consent($1, $2, $3, $4, false)', [number, status, 'admin', by]);
+}
+
+function csvField(value) {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+async function exportEvents(db, since) {
+  const sinceDate = since ? new Date(since) : null;
+  if (sinceDate && isNaN(sinceDate.getTime())) {
+    throw new Error(`Invalid --since date "${since}"`);
+  }
+
+  const { rows } = await db.query(
+    `SELECT created_at, whatsapp_number, previous_status, status, source, reference
+     FROM messaging_consent_events
+     WHERE $1::timestamptz IS NULL OR created_at >= $1
+     ORDER BY created_at`,
+    [sinceDate]
+  );
+
+  const columns = ['created_at', 'whatsapp_number', 'previous_status', 'status', 'source', 'reference'];
+  console.log(columns.join(','));
+  rows.forEach(row => console.log(columns.map(column => csvField(row[column])).join(',')));
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const [phone] = args.positional;
+  const commands = ['show', 'opt-out', 'opt-in', 'export'];
+
+  if (!commands.includes(args.command)) {
+    console.error(`Unknown command "${args.command}". Use one of: ${commands.join(', ')}.`);
+    process.exit(1);
+  }
+
+  if (!args.databaseUrl) {
+    console.error('❌ No database URL. Set DATABASE_URL or pass --database-url <url>.');
+    process.exit(1);
+  }
+
+  const db = new Client({ connectionString: args.databaseUrl });
+  await db.connect();
+
+  try {
+    switch (args.command) {
+      case 'show':
+        await showConsent(db, requireNumber(phone));
+        break;
+
+      case 'opt-out':
+      case 'opt-in': {
+        const number = requireNumber(phone);
+        const status = args.command === 'opt-out' ? 'opted_out' : 'opted_in';
+        await setConsent(db, number, status, args.by || os.userInfo().username);
+        console.log(`${status === 'opted_out' ? '🔕' : '🔔'} ${number} is now ${status}`);
+        break;
+      }
+
+      case 'export':
+        await exportEvents(db, args.since);
+        break;
+    }
+  } finally {
+    await db.end();
+  }
+}
+
+main().catch(error => {
+  console.error(`❌ ${error.message}`);
+  process.exit(1);
+});
@@ -0,0 +1,237 @@
+#!/usr/bin/env node
+
+/**
+ * Database Migration Runner
+ * Applies database/migrations/*.sql in order and tracks them in schema_migrations
+ *
+ * Usage:
+ *   node scripts/migrate.js up [--database-url <url>]      Apply pending migrations
+ *   node scripts/migrate.js status [--database-url <url>]  Report applied, pending and drifted migrations
+ *   node scripts/migrate.js baseline <version> [...]       Record migrations up to <version> as applied
+ *                                                          without running them (existing databases)
+ *
+ * The connection string defaults to the DATABASE_URL environment variable
+ * (Supabase: Settings > Database > Connection string).
+ */
+
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+const { Client } = require('pg');
+
+const MIGRATIONS_DIR = path.join(__dirname, '..', 'database', 'migrations');
+const MIGRATION_FILE_PATTERN = /^(\d+)_([a-z0-9_]+)\.sql$/;
+
+// Arbitrary constant so two runners never apply migrations at the same time
+const ADVISORY_LOCK_ID = 72417311;
+
+function parseArgs(argv) {
+  const args = { command: argv[0] || 'status', target: null, databaseUrl: process.env.DATABASE_URL };
+
+  for (let i = 1; i < argv.length; i++) {
+    if (argv[i] === '--database-url') {
+      args.databaseUrl = argv[++i];
+    } else if (argv[i].startsWith('--database-url=')) {
+      args.databaseUrl = argv[i].substring('--database-url='.length);
+    } else if (!args.target) {
+      args.target = argv[i];
+    }
+  }
+
+  return args;
+}
+
+/**
+ * Read migration files from disk, sorted by version
+ */
+function loadMigrations() {
+  return fs.readdirSync(MIGRATIONS_DIR)
+    .filter(file => MIGRATION_FILE_PATTERN.test(file))
+    .map(file => {
+      const [, version, name] = file.match(MIGRATION_FILE_PATTERN);
+      const sql = fs.readFileSync(path.join(MIGRATIONS_DIR, file), 'utf8');
+
+      return {
+        version,
+        name,
+        file,
+        sql,
+        checksum: crypto.createHash('sha256').update(sql).digest('hex')
+      };
+    })
+    .sort((a, b) => a.version.localeCompare(b.version));
+}
+
+async function ensureMigrationsTable(client) {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version VARCHAR(32) PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      checksum CHAR(64) NOT NULL,
+      applied_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    )
+  `);
+}
+
+async function getAppliedMigrations(client) {
+  const { rows } = await client.query(
+    'SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version'
+  );
+
+  return new Map(rows.map(row => [row.version, row]));
+}
+
+/**
+ * Compare files on disk with what the database has recorded
+ */
+function diffMigrations(migrations, applied) {
+  const onDisk = new Set(migrations.map(m => m.version));
+
+  return {
+    pending: migrations.filter(m => !applied.has(m.version)),
+    changed: migrations.filter(m => applied.has(m.version) && applied.get(m.version).checksum !== m.checksum),
+    missing: Array.from(applied.values()).filter(row => !onDisk.has(row.version))
+  };
+}
+
+function reportDrift({ changed, missing }) {
+  changed.forEach(m => {
+    console.log(`  ⚠️  ${m.file} was modified after it was applied (checksum mismatch)`);
+  });
+  missing.forEach(row => {
+    console.log(`  ⚠️  ${row.version}_${row.name}.sql is recorded as applied but no longer exists`);
+  });
+}
+
+async function runUp(client) {
+  const migrations = loadMigrations();
+  await ensureMigrationsTable(client);
+
+  await client.query('SELECT pg_advisory_lock($1)', [ADVISORY_LOCK_ID]);
+  try {
+    const applied = await getAppliedMigrations(client);
+    const diff = diffMigrations(migrations, applied);
+
+    if (diff.changed.length > 0 || diff.missing.length > 0) {
+      console.log('❌ Schema drift detected - refusing to apply migrations:');
+      reportDrift(diff);
+      return 1;
+    }
+
+    if (diff.pending.length === 0) {
+      console.log('✅ Database is up to date');
+      return 0;
+    }
+
+    for (const migration of diff.pending) {
+      console.log(`⏳ Applying ${migration.file}`);
+
+      // Each migration runs in its own transaction
+      await client.query('BEGIN');
+      try {
+        await client.query(migration.sql);
+        await client.query(
+          'INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)',
+          [migration.version, migration.name, migration.checksum]
+        );
+        await client.query('COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK');
+        console.error(`❌ Failed to apply ${migration.file}: ${error.message}`);
+        return 1;
+      }
+    }
+
+    console.log(`✅ Applied ${diff.pending.length} migration(s)`);
+    return 0;
+  } finally {
+    await client.query('SELECT pg_advisory_unlock($1)', [ADVISORY_LOCK_ID]);
+  }
+}
+
+async function runStatus(client) {
+  const migrations = loadMigrations();
+  await ensureMigrationsTable(client);
+
+  const applied = await getAppliedMigrations(client);
+  const diff = diffMigrations(migrations, applied);
+
+  console.log('🗄️  Migration Status');
+  console.log('===================\n');
+
+  migrations.forEach(m => {
+    const row = applied.get(m.version);
+    const state = !row ? 'pending' : row.checksum !== m.checksum ? 'changed' : 'applied';
+    const icon = state === 'applied' ? '✅' : state === 'pending' ? '⏳' : '⚠️ ';
+    const when = row ? ` (${new Date(row.applied_at).toISOString()})` : '';
+    console.log(`${icon} ${m.file} - ${state}${when}`);
+  });
+
+  console.log('');
+
+  if (diff.changed.length > 0 || diff.missing.length > 0) {
+    console.log('❌ Schema drift detected:');
+    reportDrift(diff);
+    return 1;
+  }
+
+  console.log(diff.pending.length > 0
+    ? `⏳ ${diff.pending.length} pending migration(s)`
+    : '✅ No drift - database matches database/migrations');
+  return 0;
+}
+
+async function runBaseline(client, target) {
+  if (!target) {
+    console.error('❌ baseline requires a target version, e.g. "baseline 002"');
+    return 1;
+  }
+
+  const migrations = loadMigrations().filter(m => m.version.localeCompare(target) <= 0);
+  await ensureMigrationsTable(client);
+  const applied = await getAppliedMigrations(client);
+
+  for (const migration of migrations) {
+    if (applied.has(migration.version)) continue;
+
+    await client.query(
+      'INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)',
+      [migration.version, migration.name, migration.checksum]
+    );
+    console.log(`📌 Marked ${migration.file} as applied`);
+  }
+
+  console.log(`✅ Baseline recorded up to ${target}`);
+  return 0;
+}
+
+async function main() {
+  const { command, target, databaseUrl } = parseArgs(process.argv.slice(2));
+
+  if (!['up', 'status', 'baseline'].includes(command)) {
+    console.error(`Unknown command "${command}". Use "up", "status" or "baseline".`);
+    process.exit(1);
+  }
+
+  if (!databaseUrl) {
+    console.error('❌ No database URL. Set DATABASE_URL or pass --database-url <url>.');
+    process.exit(1);
+  }
+
+  const client = new Client({ connectionString: databaseUrl });
+  await client.connect();
+
+  try {
+    const exitCode = command === 'up' ? await runUp(client) :
+                     command === 'baseline' ? await runBaseline(client, target) :
+                     await runStatus(client);
+    process.exitCode = exitCode;
+  } finally {
+    await client.end();
+  }
+}
+
+main().catch(error => {
+  console.error(`❌ Migration runner failed: ${error.message}`);
+  process.exit(1);
+});
@@ -0,0 +1,205 @@
+#!/usr/bin/env node
+
+/**
+ * OAuth Client Registration
+ * Registers the apps that may use this system as their OpenID Connect provider
+ *
+ * Usage:
+ *   node scripts/oauth-client.js create --name <name> --redirect-uri <uri> [--redirect-uri <uri>...] [--public]
+ *   node scripts/oauth-client.js list
+ *   node scripts/oauth-client.js add-redirect <client_id> <uri>
+ *   node scripts/oauth-client.js remove-redirect <client_id> <uri>
+ *   node scripts/oauth-client.js rotate-secret <client_id>
+ *   node scripts/oauth-client.js revoke <client_id>
+ *
+ * --public registers a client without a secret (SPAs, mobile apps); it must use PKCE alone.
+ * The connection string defaults to the DATABASE_URL environment variable
+ * (or pass --database-url <url>).
+ */
+
+const crypto = require('crypto');
+const { Client } = require('pg');
+
+function parseArgs(argv) {
+  const args = {
+    command: argv[0],
+    positional: [],
+    name: null,
+    redirectUris: [],
+    isPublic: false,
+    databaseUrl: process.env.DATABASE_URL
+  };
+
+  for (let i = 1; i < argv.length; i++) {
+    if (argv[i] === '--name') {
+      args.name = argv[++i];
+    } else if (argv[i] === '--redirect-uri') {
+      args.redirectUris.push(argv[++i]);
+    } else if (argv[i] === '--public') {
+      args.isPublic = true;
+    } else if (argv[i] === '--database-url') {
+      args.databaseUrl = argv[++i];
+    } else {
+      args.positional.push(argv[i]);
+    }
+  }
+
+  return args;
+}
+
+/**
+ * Redirect URIs must be absolute HTTPS URLs (plain HTTP only for localhost) without fragments
+ */
+function validateRedirectUri(uri) {
+  let url;
+  try {
+    url = new URL(uri);
+  } catch {
+    throw new Error(`Invalid redirect URI "${uri}"`);
+  }
+
+  const isLocalhost = url.hostname === 'localhost' || url.hostname === '127.0.0.1';
+  if (url.protocol !== 'https:' && !(url.protocol === 'http:' && isLocalhost)) {
+    throw new Error(`Redirect URI "${uri}" must use https (http is only allowed for localhost)`);
+  }
+
+  if (url.hash) {
+    throw new Error(`Redirect URI "${uri}" must not contain a fragment`);
+  }
+
+  return uri;
+}
+
+function hashSecret(secret) {
+  return crypto.createHash('sha256').update(secret).digest('hex');
+}
+
+function generateSecret() {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+async function createClient(db, args) {
+  if (!args.name || args.redirectUris.length === 0) {
+    throw new Error('create requires --name and at least one --redirect-uri');
+  }
+
+  const redirectUris = args.redirectUris.map(validateRedirectUri);
+  const clientId = crypto.randomBytes(16).toString('hex');
+  const secret = args.isPublic ? null : generateSecret();
+
+  await db.query(
+    'INSERT INTO oauth_clients (client_id, client_secret_hash, name, redirect_uris) VALUES ($1, $2, $3, $4)',
+    [clientId, secret ? hashSecret(secret) : null, args.name, redirectUris]
+  );
+
+  console.log(`✅ Registered ${args.isPublic ? 'public' : 'confidential'} client "${args.name}"`);
+  console.log(`   client_id:     ${clientId}`);
+  if (secret) {
+    console.log(`   client_secret: ${secret}`);
+    console.log('\n⚠️  The secret is shown only once - store it in the client app\'s secrets now.');
+  }
+}
+
+async function listClients(db) {
+  const { rows } = await db.query(
+    'SELECT client_id, name, redirect_uris, client_secret_hash IS NULL AS is_public, revoked_at FROM oauth_clients ORDER BY created_at'
+  );
+
+  if (rows.length === 0) {
+    console.log('No OAuth clients registered.');
+    return;
+  }
+
+  rows.forEach(row => {
+    const icon = row.revoked_at ? '⛔' : '✅';
+    console.log(`${icon} ${row.client_id} - ${row.name} (${row.is_public ? 'public' : 'confidential'})`);
+    row.redirect_uris.forEach(uri => console.log(`     ↳ ${uri}`));
+  });
+}
+
+async function updateClient(db, clientId, sql, params) {
+  if (!clientId) {
+    throw new Error('A client_id is required');
+  }
+
+  const { rowCount } = await db.query(sql, [clientId, ...params]);
+  if (rowCount === 0) {
+    throw new Error(`Client "${clientId}" not found`);
+  }
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const [clientId, uri] = args.positional;
+  const commands = ['create', 'list', 'add-redirect', 'remove-redirect', 'rotate-secret', 'revoke'];
+
+  if (!commands.includes(args.command)) {
+    console.error(`Unknown command "${args.command}". Use one of: ${commands.join(', ')}.`);
+    process.exit(1);
+  }
+
+  if (!args.databaseUrl) {
+    console.error('❌ No database URL. Set DATABASE_URL or pass --database-url <url>.');
+    process.exit(1);
+  }
+
+  const db = new Client({ connectionString: args.databaseUrl });
+  await db.connect();
+
+  try {
+    switch (args.command) {
+      case 'create':
+        await createClient(db, args);
+        break;
+
+      case 'list':
+        await listClients(db);
+        break;
+
+      case 'add-redirect':
+        await updateClient(db,
+          clientId,
+          'UPDATE oauth_clients SET redirect_uris = array_append(redirect_uris, $2) WHERE client_id = $1 AND NOT ($2 = ANY(redirect_uris))',
+          [validateRedirectUri(uri)]
+        );
+        console.log(`✅ Added ${uri}`);
+        break;
+
+      case 'remove-redirect':
+        await updateClient(db,
+          clientId,
+          'UPDATE oauth_clients SET redirect_uris = array_remove(redirect_uris, $2) WHERE client_id = $1',
+          [uri]
+        );
+        console.log(`✅ Removed ${uri}`);
+        break;
+
+      case 'rotate-secret': {
+        const secret = generateSecret();
+        await updateClient(db,
+          clientId,
+          'UPDATE oauth_clients SET client_secret_hash = $2 WHERE client_id = $1 AND client_secret_hash IS NOT NULL',
+          [hashSecret(secret)]
+        );
+        console.log(`✅ New client_secret: ${secret}`);
+        break;
+      }
+
+      case 'revoke':
+        await updateClient(db,
+          clientId,
+          'UPDATE oauth_clients SET revoked_at = NOW() WHERE client_id = $1 AND revoked_at IS NULL',
+          []
+        );
+        console.log(`⛔ Revoked client ${clientId}`);
+        break;
+    }
+  } finally {
+    await db.end();
+  }
+}
+
+main().catch(error => {
+  console.error(`❌ ${error.message}`);
+  process.exit(1);
+});
@@ -0,0 +1,135 @@
+#!/usr/bin/env node
+
+/**
+ * Message Outbox Admin
+ * Shows queued WhatsApp messages that aren't getting out, and puts them back in the queue
+ *
+ * Usage:
+ *   node scripts/outbox.js stuck
+ *   node scripts/outbox.js retry <id>
+ *   node scripts/outbox.js retry-dead
+ *   node scripts/outbox.js discard <id>
+ *
+ * stuck lists dead-lettered messages, messages that have failed at least once and are
+ * waiting for a retry, and messages whose worker died mid-send. retry and retry-dead reset
+ * the attempt count so the worker sends them on its next run; discard deletes a message.
+ * The worker deletes dead messages after a day, so they can only be retried until then.
+ * The connection string defaults to the DATABASE_URL environment variable
+ * (or pass --database-url <url>).
+ */
+
+const { Client } = require('pg');
+
+function parseArgs(argv) {
+  const args = { command: argv[0], positional: [], databaseUrl: process.env.DATABASE_URL };
+
+  for (let i = 1; i < argv.length; i++) {
+    if (argv[i] === '--database-url') {
+      args.databaseUrl = argv[++i];
+    } else {
+      args.positional.push(argv[i]);
+    }
+  }
+
+  return args;
+}
+
+// Only the last digits, like maskPhoneNumber in lib/sender-binding.ts
+function maskNumber(phone) {
+  return phone.length > 4 ? `${'*'.repeat(phone.length - 4)}${phone.slice(-4)}` : '****';
+}
+
+async function listStuck(db) {
+  const { rows } = await db.query(`
+    SELECT id, whatsapp_number, message_type, template_name, status, attempts, max_attempts,
+           next_attempt_at, last_error, created_at
+    FROM message_outbox
+    WHERE status = 'dead'
+       OR (status = 'pending' AND attempts > 0)
+       OR (status = 'sending' AND locked_until < NOW())
+    ORDER BY created_at
+  `);
+
+  if (rows.length === 0) {
+    console.log('No stuck messages.');
+    return;
+  }
+
+  rows.forEach(row => {
+    const icon = row.status === 'dead' ? '💀' : row.status === 'sending' ? '⏳' : '🔁';
+    const what = row.message_type === 'template' ? `template ${row.template_name}` : 'text';
+    console.log(`${icon} ${row.id} - ${what} to ${maskNumber(row.whatsapp_number)} (${row.status}, ${row.attempts}/${row.max_attempts} attempts, queued ${row.created_at.toISOString()})`);
+    if (row.status === 'pending') {
+      console.log(`     ↳ next attempt ${row.next_attempt_at.toISOString()}`);
+    }
+    if (row.last_error) {
+      console.log(`     ↳ ${row.last_error}`);
+    }
+  });
+}
+
+async function updateMessage(db, id, sql) {
+  if (!id) {
+    throw new Error('A message id is required');
+  }
+
+  const { rowCount } = await db.query(sql, [id]);
+  if (rowCount === 0) {
+    throw new Error(`No stuck message "${id}" (already sent, or not found)`);
+  }
+}
+
+const REQUEUE = `
+  UPDATE message_outbox
+  SET status = 'pending', attempts = 0, next_attempt_at = NOW(), locked_until = NULL, dead_at = NULL
+`;
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const [id] = args.positional;
+  const commands = ['stuck', 'retry', 'retry-dead', 'discard'];
+
+  if (!commands.includes(args.command)) {
+    console.error(`Unknown command "${args.command}". Use one of: ${commands.join(', ')}.`);
+    process.exit(1);
+  }
+
+  if (!args.databaseUrl) {
+    console.error('❌ No database URL. Set DATABASE_URL or pass --database-url <url>.');
+    process.exit(1);
+  }
+
+  const db = new Client({ connectionString: args.databaseUrl });
+  await db.connect();
+
+  try {
+    switch (args.command) {
+      case 'stuck':
+        await listStuck(db);
+        break;
+
+      case 'retry':
+        await updateMessage(db, id, `${REQUEUE} WHERE id = $1 AND status <> 'sent'`);
+        console.log(`🔁 Requeued ${id}`);
+        break;
+
+      case 'retry-dead': {
+        const { rowCount } = await db.query(`${REQUEUE} WHERE status = 'dead'`);
+        console.log(`🔁 Requeued ${rowCount} dead message${rowCount === 1 ? '' : 's'}`);
+        break;
+      }
+
+      case 'discard':
+        await updateMessage(db, id, `DELETE FROM message_outbox WHERE id = $1 AND status <> 'sent'`);
+        console.log(`🗑️  Discarded ${id}`);
+        break;
+    }
+  } finally {
+    await db.end();
+  }
+}
+
+main().catch(error => {
+  console.error(`❌ ${error.message}`);
+  process.exit(1);
+});
@@ -0,0 +1,197 @@
+#!/usr/bin/env node
+
+/**
+ * Webhook Events Admin
+ * Lists and inspects stored WhatsApp webhook deliveries, and replays them through the app
+ *
+ * Usage:
+ *   node scripts/webhook-events.js list [--status <status>] [--limit <n>]
+ *   node scripts/webhook-events.js show <id>
+ *   node scripts/webhook-events.js replay <id...> [--force]
+ *   node scripts/webhook-events.js prune --older-than <days>
+ *
+ * list shows the newest deliveries (status: received, processed or failed);
+ * show prints one with its raw body and error. replay asks the running app to process
+ * stored deliveries again (POST /api/webhook-events/replay with CRON_SECRET): only
+ * deliveries whose signature was valid are replayed, and messages that were already
+ * handled are skipped unless --force is given. prune deletes deliveries older than
+ * the given number of days (they hold message text and phone numbers).
+ * list, show and prune use the DATABASE_URL environment variable (or --database-url <url>);
+ * replay uses NEXT_PUBLIC_APP_URL, then http://localhost:3000 (or --url <url>).
+ */
+
+const { Client } = require('pg');
+
+function parseArgs(argv) {
+  const args = {
+    command: argv[0],
+    positional: [],
+    databaseUrl: process.env.DATABASE_URL,
+    url: process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000',
+    limit: 20,
+    force: false
+  };
+
+  for (let i = 1; i < argv.length; i++) {
+    if (argv[i] === '--database-url') {
+      args.databaseUrl = argv[++i];
+    } else if (argv[i] === '--url') {
+      args.url = argv[++i];
+    } else if (argv[i] === '--status') {
+      args.status = argv[++i];
+    } else if (argv[i] === '--limit') {
+      args.limit = Number(argv[++i]);
+    } else if (argv[i] === '--older-than') {
+      args.olderThan = Number(argv[++i]);
+    } else if (argv[i] === '--force') {
+      args.force = true;
+    } else {
+      args.positional.push(argv[i]);
+    }
+  }
+
+  return args;
+}
+
+const STATUS_ICONS = { received: '📥', processed: '✅', failed: '❌' };
+
+async function listEvents(db, args) {
+  const { rows } = await db.query(
+    `SELECT id, provider, status, signature_valid, message_ids, replay_count, received_at
+     FROM webhook_events
+     WHERE $1::text IS NULL OR status = $1
+     ORDER BY received_at DESC
+     LIMIT $2`,
+    [args.status || null, args.limit]
+  );
+
+  if (rows.length === 0) {
+    console.log('No webhook events.');
+    return;
+  }
+
+  rows.forEach(row => {
+    const messages = `${row.message_ids.length} message${row.message_ids.length === 1 ? '' : 's'}`;
+    const replays = row.replay_count > 0 ? `, replayed ${row.replay_count}x` : '';
+    console.log(`${STATUS_ICONS[row.status] || '•'} ${row.id} - ${row.provider}, ${row.status}, ${messages}${replays} (${row.received_at.toISOString()})`);
+  });
+}
+
+async function showEvent(db, id) {
+  if (!id) {
+    throw new Error('An event id is required');
+  }
+
+  const { rows: [event] } = await db.query('SELECT * FROM webhook_events WHERE id = $1', [id]);
+  if (!event) {
+    throw new Error(`No webhook event "${id}"`);
+  }
+
+  console.log(`${STATUS_ICONS[event.status] || '•'} ${event.id} (${event.provider}, ${event.status})`);
+  console.log(`   Received:  ${event.received_at.toISOString()} at ${event.request_url}`);
+  console.log(`   Signature: ${event.signature_valid ? 'valid' : `invalid - ${event.signature_error || 'unknown error'}`}`);
+  if (event.processed_at) {
+    console.log(`   Processed: ${event.processed_at.toISOString()}${event.replay_count > 0 ? ` (replayed ${event.replay_count}x)` : ''}`);
+  }
+  if (event.message_ids.length > 0) {
+    console.log(`   Messages:  ${event.message_ids.join(', ')}`);
+  }
+  if (event.summary) {
+    console.log(`   Summary:   ${JSON.stringify(event.summary)}`);
+  }
+  if (event.error) {
+    console.log(`   Error:\n     ${event.error.split('\n').join('\n     ')}`);
+  }
+  console.log('\n' + event.raw_body);
+}
+
+async function replayEvents(args) {
+  const secret = process.env.CRON_SECRET;
+  if (args.positional.length === 0) {
+    throw new Error('Usage: replay <id...> [--force]');
+  }
+  if (!secret) {
+    throw new Error('CRON_SECRET must be set (the same value the app uses).');
+  }
+
+  const response = await fetch(new URL('/api/webhook-events/replay', args.url), {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${secret}`
+    },
+    body: JSON.stringify({ eventIds: args.positional, force: args.force })
+  });
+
+  if (!response.ok) {
+    throw new Error(`Replay responded with HTTP ${response.status}: ${await response.text()}`);
+  }
+
+  const { results } = await response.json();
+  results.forEach(({ id, result, summary }) => {
+    if (result === 'replayed') {
+      console.log(`🔁 ${id} - ${JSON.stringify(summary.outcomes)}${summary.statusesFailed ? `, ${summary.statusesFailed} statuses failed` : ''}`);
+    } else {
+      console.log(`⚠️  ${id} - ${result}`);
+    }
+  });
+}
+
+async function pruneEvents(db, olderThan) {
+  if (!Number.isFinite(olderThan) || olderThan <= 0) {
+    throw new Error('Usage: prune --older-than <days>');
+  }
+
+  const { rowCount } = await db.query(
+    "DELETE FROM webhook_events WHERE received_at < NOW() - $1 * INTERVAL '1 day'",
+    [olderThan]
+  );
+  console.log(`🗑️  Deleted ${rowCount} webhook event${rowCount === 1 ? '' : 's'}`);
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const commands = ['list', 'show', 'replay', 'prune'];
+
+  if (!commands.includes(args.command)) {
+    console.error(`Unknown command "${args.command}". Use one of: ${commands.join(', ')}.`);
+    process.exit(1);
+  }
+
+  // Replays run in the app, which has the processing code
+  if (args.command === 'replay') {
+    await replayEvents(args);
+    return;
+  }
+
+  if (!args.databaseUrl) {
+    console.error('❌ No database URL. Set DATABASE_URL or pass --database-url <url>.');
+    process.exit(1);
+  }
+
+  const db = new Client({ connectionString: args.databaseUrl });
+  await db.connect();
+
+  try {
+    switch (args.command) {
+      case 'list':
+        await listEvents(db, args);
+        break;
+
+      case 'show':
+        await showEvent(db, args.positional[0]);
+        break;
+
+      case 'prune':
+        await pruneEvents(db, args.olderThan);
+        break;
+    }
+  } finally {
+    await db.end();
+  }
+}
+
+main().catch(error => {
+  console.error(`❌ ${error.message}`);
+  process.exit(1);
+});
@@ -0,0 +1,206 @@
+#!/usr/bin/env node
+
+/**
+ * Simulated WhatsApp Phone (development only)
+ * Plays the user's phone against a locally running app, like /dev/phone does in the browser
+ *
+ * Usage:
+ *   node scripts/whatsapp-phone.js send <from> <text...>
+ *   node scripts/whatsapp-phone.js tap <from> <button...>
+ *   node scripts/whatsapp-phone.js inbox <number>
+ *   node scripts/whatsapp-phone.js wait <number> [--timeout <seconds>]
+ *
+ * send signs the message with WHATSAPP_APP_SECRET (x-hub-signature-256) and posts it to
+ * /api/webhooks/whatsapp in Meta's webhook format. tap presses a reply button (by title or
+ * id, e.g. "Yes, it's me") on the newest message that has one. tap, inbox and wait use the
+ * simulator, which records what the app sent through its fake Graph API (needs
+ * NEXT_PUBLIC_WHATSAPP_SIMULATOR=true and WHATSAPP_API_URL pointing at /api/dev/whatsapp);
+ * wait prints the next message to arrive.
+ * The app URL defaults to NEXT_PUBLIC_APP_URL, then http://localhost:3000 (or pass --url <url>).
+ */
+
+const crypto = require('crypto');
+
+function parseArgs(argv) {
+  const args = {
+    command: argv[0],
+    positional: [],
+    url: process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000',
+    timeout: 30
+  };
+
+  for (let i = 1; i < argv.length; i++) {
+    if (argv[i] === '--url') {
+      args.url = argv[++i];
+    } else if (argv[i] === '--timeout') {
+      args.timeout = Number(argv[++i]);
+    } else {
+      args.positional.push(argv[i]);
+    }
+  }
+
+  return args;
+}
+
+function normalizeNumber(phone) {
+  return String(phone).replace(/\D/g, '');
+}
+
+/**
+ * The webhook body Meta delivers for a text message from a user
+ */
+function buildInboundPayload(from, text) {
+  return {
+    object: 'whatsapp_business_account',
+    entry: [{
+      id: 'SIMULATED_WABA_ID',
+      changes: [{
+        field: 'messages',
+        value: {
+          messaging_product: 'whatsapp',
+          metadata: {
+            display_phone_number: process.env.NEXT_PUBLIC_WHATSAPP_BOT_NUMBER || '',
+            phone_number_id: process.env.WHATSAPP_PHONE_NUMBER_ID || 'SIMULATED_PHONE_NUMBER_ID'
+          },
+          contacts: [{ profile: { name: 'Simulated User' }, wa_id: from }],
+          messages: [{
+            from,
+            id: `wamid.SIM${crypto.randomBytes(12).toString('hex').toUpperCase()}`,
+            timestamp: Math.floor(Date.now() / 1000).toString(),
+            type: 'text',
+            text: { body: text }
+          }]
+        }
+      }]
+    }]
+  };
+}
+
+async function send(args) {
+  const [from, ...words] = args.positional;
+  const text = words.join(' ');
+  const secret = process.env.WHATSAPP_APP_SECRET;
+
+  if (!from || !normalizeNumber(from) || !text) {
+    throw new Error('Usage: send <from> <text...>');
+  }
+  if (!secret) {
+    throw new Error('WHATSAPP_APP_SECRET must be set (the same value the app uses).');
+  }
+
+  const body = JSON.stringify(buildInboundPayload(normalizeNumber(from), text));
+  const signature = crypto.createHmac('sha256', secret).update(body, 'utf8').digest('hex');
+
+  const response = await fetch(new URL('/api/webhooks/whatsapp', args.url), {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-hub-signature-256': `sha256=${signature}`
+    },
+    body
+  });
+
+  if (!response.ok) {
+    throw new Error(`Webhook responded with HTTP ${response.status}: ${await response.text()}`);
+  }
+  console.log(`📤 ${normalizeNumber(from)}: ${text}`);
+}
+
+async function tap(args) {
+  const [from, ...words] = args.positional;
+  const button = words.join(' ');
+
+  if (!from || !normalizeNumber(from) || !button) {
+    throw new Error('Usage: tap <from> <button...>');
+  }
+
+  const response = await fetch(new URL('/api/dev/whatsapp/phone', args.url), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ from, button })
+  });
+
+  const data = await response.json();
+  if (response.status === 404 && data.error === 'Not found') {
+    throw new Error('The simulator is off. Set NEXT_PUBLIC_WHATSAPP_SIMULATOR=true and restart the dev server.');
+  }
+  if (!response.ok) {
+    throw new Error(data.error || `Simulator responded with HTTP ${response.status}`);
+  }
+  if (data.webhookStatus !== 200) {
+    throw new Error(`Webhook responded with HTTP ${data.webhookStatus}`);
+  }
+  console.log(`👆 ${normalizeNumber(from)}: [${data.message.text}]`);
+}
+
+async function fetchConversation(args, number) {
+  const response = await fetch(new URL(`/api/dev/whatsapp/phone?number=${encodeURIComponent(number)}`, args.url));
+
+  if (response.status === 404) {
+    throw new Error('The simulator is off. Set NEXT_PUBLIC_WHATSAPP_SIMULATOR=true and restart the dev server.');
+  }
+  if (!response.ok) {
+    throw new Error(`Simulator responded with HTTP ${response.status}`);
+  }
+
+  return (await response.json()).messages;
+}
+
+function printMessage(message) {
+  const icon = message.direction === 'inbound' ? '📤' : '📥';
+  console.log(`${icon} [${new Date(message.timestamp).toLocaleTimeString()}] ${message.text}`);
+  (message.buttons || []).forEach(button => console.log(`     [${button.title}]`));
+}
+
+async function inbox(args) {
+  const [number] = args.positional;
+  if (!number) {
+    throw new Error('Usage: inbox <number>');
+  }
+
+  const messages = await fetchConversation(args, number);
+  if (messages.length === 0) {
+    console.log('No messages.');
+  }
+  messages.forEach(printMessage);
+}
+
+async function wait(args) {
+  const [number] = args.positional;
+  if (!number) {
+    throw new Error('Usage: wait <number> [--timeout <seconds>]');
+  }
+
+  const seen = new Set((await fetchConversation(args, number)).map(message => message.id));
+  const deadline = Date.now() + args.timeout * 1000;
+
+  while (Date.now() < deadline) {
+    await new Promise(resolve => setTimeout(resolve, 1000));
+
+    const next = (await fetchConversation(args, number))
+      .find(message => message.direction === 'outbound' && !seen.has(message.id));
+    if (next) {
+      printMessage(next);
+      return;
+    }
+  }
+
+  throw new Error(`No message to ${normalizeNumber(number)} within ${args.timeout}s`);
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const commands = { send, tap, inbox, wait };
+
+  if (!commands[args.command]) {
+    console.error(`Unknown command "${args.command}". Use one of: ${Object.keys(commands).join(', ')}.`);
+    process.exit(1);
+  }
+
+  await commands[args.command](args);
+}
+
+main().catch(error => {
+  console.error(`❌ ${error.message}`);
+  process.exit(1);
+});
@@ -1,9 +1,24 @@
 /**
- * Utility to generate cryptographically secure JWT secrets
- * Run this script to generate a secure JWT_SECRET for production
+ * Utility to generate cryptographically secure JWT secrets and rotate the JWT key ring
+ * Run this script to generate a secure JWT_SECRET for production, or to add,
+ * promote and retire keys in JWT_KEYS without logging anyone out
+ *
+ * Usage:
+ *   npm run generate-jwt-secret                      Generate a standalone JWT_SECRET
+ *   npm run jwt-keys -- list                         Show the current key ring
+ *   npm run jwt-keys -- add [kid] [--alg ES256]      Add a new verify-only key (HS256, ES256 or RS256)
+ *   npm run jwt-keys -- promote <kid>                Make a key the active signing key
+ *   npm run jwt-keys -- retire <kid>                 Remove a verify-only key
+ *
+ * Options:
+ *   --env-file <path>   Env file holding JWT_KEYS / JWT_SECRET (default: .env.local)
+ *   --alg <alg>         Algorithm for "add" (default: HS256; ES256/RS256 keys are published in the JWKS)
+ *   --write             Save the updated JWT_KEYS back to the env file
  */
 
 import crypto from 'crypto';
+import fs from 'fs';
+import { DEFAULT_KEY_ID, JWTAlgorithm, JWTKey, JWT_ALGORITHMS, parseJWTKeyRing } from '../lib/jwt-config';
 
 /**
  * Generate a cryptographically secure JWT secret
@@ -19,7 +34,7 @@ export function generateSecureJWTSecret(length: number = 64): string {
  */
 export function displayJWTSecret(): void {
   const secret = generateSecureJWTSecret(64);
-  
+
   console.log('\n🔐 Generated Secure JWT Secret:');
   console.log('================================');
   console.log(secret);
@@ -29,9 +44,197 @@ export function displayJWTSecret(): void {
   console.log('\n⚠️  Keep this secret secure and never commit it to version control!');
   console.log('📝 Add JWT_SECRET to your .env.local file for development');
   console.log('🚀 Add JWT_SECRET to your production environment variables');
+  console.log('🔄 To rotate keys later without logging users out, use: npm run jwt-keys -- add');
+}
+
+/**
+ * Generate a new key ring entry
+ * @param kid - Key id
+ * @param alg - HS256 generates a secret, ES256/RS256 a PEM key pair
+ * @param status - Key status
+ */
+export function generateJWTKey(kid: string, alg: JWTAlgorithm, status: JWTKey['status']): JWTKey {
+  if (alg === 'HS256') {
+    return { kid, alg, status, secret: generateSecureJWTSecret(64) };
+  }
+
+  const { privateKey, publicKey } = alg === 'ES256'
+    ? crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' })
+    : crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+  return {
+    kid,
+    alg,
+    status,
+    privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+    publicKey: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+  };
+}
+
+/**
+ * Read simple KEY=value lines from an env file (quotes are stripped)
+ */
+function readEnvFile(path: string): Record<string, string> {
+  if (!fs.existsSync(path)) {
+    return {};
+  }
+
+  const values: Record<string, string> = {};
+  for (const line of fs.readFileSync(path, 'utf8').split('\n')) {
+    const match = line.match(/^\s*([A-Z0-9_]+)\s*=\s*(.*)\s*$/);
+    if (match) {
+      values[match[1]] = match[2].replace(/^(['"])(.*)\1$/, '$2');
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Load the current key ring from the env file (falling back to the process environment)
+ * A lone JWT_SECRET becomes the "default" key so existing tokens stay valid
+ */
+function loadKeyRing(envFile: string): JWTKey[] {
+  const fileValues = readEnvFile(envFile);
+  const keyRing = fileValues.JWT_KEYS || process.env.JWT_KEYS;
+
+  if (keyRing) {
+    return parseJWTKeyRing(keyRing);
+  }
+
+  const secret = fileValues.JWT_SECRET || process.env.JWT_SECRET;
+  if (!secret) {
+    return [];
+  }
+
+  return parseJWTKeyRing(JSON.stringify([{ kid: DEFAULT_KEY_ID, alg: 'HS256', secret, status: 'active' }]));
+}
+
+/**
+ * Print the updated key ring and optionally save it to the env file
+ */
+function saveKeyRing(keys: JWTKey[], envFile: string, write: boolean): void {
+  // Validate before output so a broken ring is never written
+  const value = JSON.stringify(parseJWTKeyRing(JSON.stringify(keys)));
+  const line = `JWT_KEYS='${value}'`;
+
+  if (!write) {
+    console.log('\n📋 Set this in every environment (or re-run with --write):');
+    console.log(line);
+    return;
+  }
+
+  const contents = fs.existsSync(envFile) ? fs.readFileSync(envFile, 'utf8') : '';
+  const updated = /^JWT_KEYS=.*$/m.test(contents)
+    ? contents.replace(/^JWT_KEYS=.*$/m, line)
+    : `${contents.replace(/\n?$/, '\n')}${line}\n`;
+
+  fs.writeFileSync(envFile, updated);
+  console.log(`\n✅ Updated JWT_KEYS in ${envFile}`);
+}
+
+function listKeys(keys: JWTKey[]): void {
+  if (keys.length === 0) {
+    console.log('No JWT keys configured. Run "add" to create one.');
+    return;
+  }
+
+  console.log('\n🔑 JWT key ring:');
+  for (const key of keys) {
+    console.log(`  ${key.status === 'active' ? '★' : ' '} ${key.kid} ${key.alg} (${key.status})`);
+  }
+}
+
+/**
+ * Run a key rotation command
+ * @param args - Command line arguments (without node and script path)
+ */
+export function runKeyRotation(args: string[]): void {
+  const optionValue = (name: string): string | undefined => {
+    const index = args.indexOf(name);
+    return index >= 0 ? args[index + 1] : undefined;
+  };
+  const envFile = optionValue('--env-file') || '.env.local';
+  const alg = (optionValue('--alg') || 'HS256').toUpperCase() as JWTAlgorithm;
+  const write = args.includes('--write');
+  const [command, kid] = args.filter((arg, index) =>
+    !arg.startsWith('--') && !['--env-file', '--alg'].includes(args[index - 1])
+  );
+
+  const keys = loadKeyRing(envFile);
+
+  switch (command) {
+    case 'list':
+      listKeys(keys);
+      return;
+
+    case 'add': {
+      const newKid = kid || `${new Date().toISOString().slice(0, 10).replace(/-/g, '')}-${crypto.randomBytes(2).toString('hex')}`;
+      if (keys.some(key => key.kid === newKid)) {
+        throw new Error(`Key "${newKid}" already exists`);
+      }
+
+      // The first key signs immediately; later keys start verify-only so every
+      // instance knows them before any instance signs with them
+      const status = keys.length === 0 ? 'active' : 'verify';
+      if (!JWT_ALGORITHMS.includes(alg)) {
+        throw new Error(`Unsupported algorithm "${alg}" (use ${JWT_ALGORITHMS.join(', ')})`);
+      }
+
+      keys.push(generateJWTKey(newKid, alg, status));
+
+      console.log(`➕ Added ${alg} key "${newKid}" (${status})`);
+      if (status === 'verify') {
+        console.log(`   Deploy this everywhere, then run: promote ${newKid}`);
+      }
+      break;
+    }
+
+    case 'promote': {
+      const target = keys.find(key => key.kid === kid);
+      if (!target) {
+        throw new Error(`Key "${kid}" not found`);
+      }
+
+      for (const key of keys) {
+        key.status = key === target ? 'active' : 'verify';
+      }
+
+      console.log(`⭐ Key "${kid}" now signs new tokens; previous keys still verify`);
+      console.log('   Retire the old key once JWT_REFRESH_EXPIRES_IN has passed');
+      break;
+    }
+
+    case 'retire': {
+      const target = keys.find(key => key.kid === kid);
+      if (!target) {
+        throw new Error(`Key "${kid}" not found`);
+      }
+
+      if (target.status === 'active') {
+        throw new Error(`Key "${kid}" is active - promote another key first`);
+      }
+
+      keys.splice(keys.indexOf(target), 1);
+      console.log(`🗑️  Retired key "${kid}"; tokens signed with it are no longer accepted`);
+      break;
+    }
+
+    default:
+      displayJWTSecret();
+      return;
+  }
+
+  listKeys(keys);
+  saveKeyRing(keys, envFile, write);
 }
 
 // Run if called directly
 if (import.meta.url === `file://${process.argv[1]}`) {
-  displayJWTSecret();
+  try {
+    runKeyRotation(process.argv.slice(2));
+  } catch (error: any) {
+    console.error(`❌ ${error.message}`);
+    process.exit(1);
+  }
 }